@@ -17,6 +17,12 @@ import {
   ORIGINS,
   PORT,
 } from "@/consts/env";
+import { startAbandonedCartJob } from "@/lib/abandoned-carts";
+import { adminOrdersExportHandler } from "@/lib/admin-orders/export";
+import { invoiceDownloadHandler } from "@/lib/invoices/download";
+import { RawBodyRequest, paymentWebhookHandler } from "@/lib/payments/webhook";
+import { prisma } from "@/lib/prisma";
+import { startStockNotificationJob } from "@/lib/stock-notifications";
 import * as Resolvers from "@/resolvers";
 import { Context } from "@/types/context";
 import { ApolloServer } from "@apollo/server";
@@ -69,12 +75,25 @@ class App {
         origin: ORIGINS.length > 0 ? ORIGINS : true,
         credentials: true,
         methods: ["GET", "POST", "PUT", "DELETE"],
-        allowedHeaders: ["Content-Type", "Authorization", "Origin", "Accept"],
+        allowedHeaders: [
+          "Content-Type",
+          "Authorization",
+          "Origin",
+          "Accept",
+          "Idempotency-Key",
+          "X-Guest-Cart-Token",
+        ],
       }),
     );
     this.app.use(
       bodyParser.json({
         limit: "20mb",
+        // Webhook signatures are computed over the exact bytes received
+        verify: (req, _res, buf) => {
+          if (req.url?.startsWith("/webhooks/")) {
+            (req as RawBodyRequest).rawBody = buf;
+          }
+        },
       }),
     );
     this.app.use(
@@ -105,6 +124,10 @@ class App {
       });
     });
 
+    this.app.post("/webhooks/payments/:provider", paymentWebhookHandler);
+    this.app.get("/orders/:orderId/invoice", invoiceDownloadHandler);
+    this.app.get("/admin/orders/export", adminOrdersExportHandler);
+
     this.app.use(
       "/graphql",
       expressMiddleware(apolloServer, {
@@ -131,6 +154,8 @@ class App {
       console.log(`🚀 Server is running on port ${PORT} `);
       console.log(`===============================================`);
     });
+    startAbandonedCartJob(prisma);
+    startStockNotificationJob(prisma);
   }
 }
 
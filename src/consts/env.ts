@@ -15,6 +15,10 @@ export const REPLICA_URL = process.env["REPLICA_URL"] || DATABASE_URL;
 
 export const ORIGINS = process.env["ORIGINS"]?.split(",") || [];
 
+// Base URL of the storefront, used for links sent to customers
+export const STOREFRONT_URL =
+  process.env["STOREFRONT_URL"] || ORIGINS[0] || "http://localhost:3006";
+
 export const PEXELS_API_KEY = process.env["PEXELS_API_KEY"];
 
 export const CLERK_SECRET_KEY = process.env["CLERK_SECRET_KEY"];
@@ -27,3 +31,21 @@ export const R2_ACCESS_KEY_ID = process.env["R2_ACCESS_KEY_ID"];
 export const R2_SECRET_ACCESS_KEY = process.env["R2_SECRET_ACCESS_KEY"];
 export const R2_BUCKET = process.env["R2_BUCKET"];
 export const R2_PUBLIC_URL = process.env["R2_PUBLIC_URL"];
+
+export const PAYMENT_PROVIDER = process.env["PAYMENT_PROVIDER"] || "mock";
+export const PAYMENT_CURRENCY = process.env["PAYMENT_CURRENCY"] || "INR";
+// Required by real providers, the mock provider makes up its own
+export const PAYMENT_WEBHOOK_SECRET = process.env["PAYMENT_WEBHOOK_SECRET"];
+if (PAYMENT_PROVIDER !== "mock" && !PAYMENT_WEBHOOK_SECRET) {
+  throw new Error("PAYMENT_WEBHOOK_SECRET is not set");
+}
+
+// Checked below, the app does not start without it
+export const GUEST_CART_SECRET = process.env["GUEST_CART_SECRET"] as string;
+if (!GUEST_CART_SECRET) {
+  throw new Error("GUEST_CART_SECRET is not set");
+}
+
+// Customer notifications, the console notifier also appends to NOTIFIER_FILE
+export const NOTIFIER = process.env["NOTIFIER"] || "console";
+export const NOTIFIER_FILE = process.env["NOTIFIER_FILE"];
@@ -0,0 +1,196 @@
+import { randomBytes } from "crypto";
+
+import { STOREFRONT_URL } from "@/consts/env";
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { getVariantPrice } from "@/lib/variants";
+import { CouponType, Prisma } from "@/prisma/generated/client";
+
+export const ABANDONED_CART_SETTINGS_KEY = "abandoned_cart_settings";
+
+export const DEFAULT_ABANDONED_CART_SETTINGS: PrismaJson.AbandonedCartSettings =
+  {
+    abandon_after_hours: 48,
+    coupon_percent: null,
+    coupon_valid_hours: 72,
+  };
+
+const JOB_INTERVAL_MS = 60 * 60 * 1000;
+// Carts flagged per run, the rest are picked up by the next run
+const JOB_BATCH_SIZE = 200;
+// An order placed this long after a cart was flagged still counts as recovered
+const RECOVERY_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+export async function getAbandonedCartSettings(
+  prisma: ExtendedPrismaClient | TransactionClient,
+): Promise<PrismaJson.AbandonedCartSettings> {
+  const setting = await prisma.siteSetting.findUnique({
+    where: { key: ABANDONED_CART_SETTINGS_KEY },
+  });
+
+  if (setting && typeof setting.value === "object" && setting.value !== null) {
+    return {
+      ...DEFAULT_ABANDONED_CART_SETTINGS,
+      ...(setting.value as PrismaJson.AbandonedCartSettings),
+    };
+  }
+
+  return DEFAULT_ABANDONED_CART_SETTINGS;
+}
+
+export function getCartRestoreUrl(token: string): string {
+  return `${STOREFRONT_URL}/cart/restore/${token}`;
+}
+
+// Users whose active cart lines were all last changed before the cutoff,
+// with the time of their latest cart change
+export async function findAbandonedCarts(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  cutoff: Date,
+): Promise<{ user_id: number; last_activity_at: Date }[]> {
+  const carts = await prisma.cart.groupBy({
+    by: ["user_id"],
+    where: { saved_for_later: false },
+    _max: { updated_at: true },
+    having: { updated_at: { _max: { lt: cutoff } } },
+  });
+
+  return carts.map((cart) => ({
+    user_id: cart.user_id,
+    last_activity_at: cart._max.updated_at ?? cutoff,
+  }));
+}
+
+// Flag every cart abandoned for the configured period that was not flagged
+// since its last change. Each gets a recovery record with a restore token
+// and, when configured, a single use coupon. Returns the number flagged.
+export async function flagAbandonedCarts(
+  prisma: ExtendedPrismaClient,
+  now = new Date(),
+): Promise<number> {
+  const settings = await getAbandonedCartSettings(prisma);
+  const cutoff = new Date(
+    now.getTime() - settings.abandon_after_hours * 60 * 60 * 1000,
+  );
+
+  const abandoned = await findAbandonedCarts(prisma, cutoff);
+  if (abandoned.length === 0) return 0;
+
+  const flagged = await prisma.cartRecovery.findMany({
+    where: { user_id: { in: abandoned.map((cart) => cart.user_id) } },
+    select: { user_id: true, last_activity_at: true },
+  });
+  const flaggedKeys = new Set(
+    flagged.map((r) => `${r.user_id}:${r.last_activity_at.getTime()}`),
+  );
+  const pending = abandoned
+    .filter(
+      (cart) =>
+        !flaggedKeys.has(`${cart.user_id}:${cart.last_activity_at.getTime()}`),
+    )
+    .slice(0, JOB_BATCH_SIZE);
+
+  let count = 0;
+  for (const cart of pending) {
+    const items = await prisma.cart.findMany({
+      where: { user_id: cart.user_id, saved_for_later: false },
+      select: {
+        product_id: true,
+        variant_id: true,
+        quantity: true,
+        product: { select: { price: true } },
+        variant: { select: { price: true } },
+      },
+    });
+    if (items.length === 0) continue;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const coupon = settings.coupon_percent
+          ? await tx.coupon.create({
+              data: {
+                code: `COMEBACK-${randomBytes(4).toString("hex").toUpperCase()}`,
+                description: "Abandoned cart recovery",
+                type: CouponType.PERCENTAGE,
+                value: settings.coupon_percent,
+                usage_limit: 1,
+                per_user_limit: 1,
+                starts_at: now,
+                ends_at: new Date(
+                  now.getTime() + settings.coupon_valid_hours * 60 * 60 * 1000,
+                ),
+              },
+            })
+          : null;
+
+        await tx.cartRecovery.create({
+          data: {
+            user_id: cart.user_id,
+            token: randomBytes(24).toString("base64url"),
+            cart_value: items.reduce(
+              (sum, item) =>
+                sum +
+                getVariantPrice(item.product, item.variant) * item.quantity,
+              0,
+            ),
+            last_activity_at: cart.last_activity_at,
+            coupon_id: coupon?.id,
+            items: {
+              create: items.map((item) => ({
+                product_id: item.product_id,
+                variant_id: item.variant_id,
+                quantity: item.quantity,
+                price: getVariantPrice(item.product, item.variant),
+              })),
+            },
+          },
+        });
+      });
+      count++;
+    } catch (error) {
+      // Another instance flagged the same cart first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return count;
+}
+
+// Attribute an order to the user's open recoveries flagged recently
+export async function markCartsRecovered(
+  tx: TransactionClient,
+  userId: number,
+  orderId: string,
+): Promise<void> {
+  const now = new Date();
+  await tx.cartRecovery.updateMany({
+    where: {
+      user_id: userId,
+      recovered_at: null,
+      created_at: { gte: new Date(now.getTime() - RECOVERY_WINDOW_MS) },
+    },
+    data: { recovered_at: now, order_id: orderId },
+  });
+}
+
+// Runs flagAbandonedCarts every hour for the lifetime of the process
+export function startAbandonedCartJob(prisma: ExtendedPrismaClient): void {
+  const run = async () => {
+    try {
+      const count = await flagAbandonedCarts(prisma);
+      if (count > 0) {
+        console.log(`🛒 Flagged ${count} abandoned carts`);
+      }
+    } catch (error) {
+      console.error("❌ Abandoned cart job failed", error);
+    }
+  };
+
+  setInterval(run, JOB_INTERVAL_MS).unref();
+  void run();
+}
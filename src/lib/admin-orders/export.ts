@@ -0,0 +1,196 @@
+import { NextFunction, Request, Response } from "express";
+
+import { prisma } from "@/lib/prisma";
+import { OrderStatus, UserRole } from "@/prisma/generated/client";
+import { getAuth } from "@clerk/express";
+
+import {
+  AdminOrderSortField,
+  AdminOrdersFilter,
+  SortDirection,
+  buildAdminOrdersWhere,
+  getAdminOrdersOrderBy,
+} from "./index";
+
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_HEADER = [
+  "order_id",
+  "created_at",
+  "status",
+  "customer_name",
+  "customer_email",
+  "items",
+  "subtotal",
+  "discount",
+  "coupon_code",
+  "coupon_discount",
+  "shipping_fee",
+  "total",
+  "paid_at",
+  "invoice_number",
+  "ship_to_city",
+  "ship_to_state",
+];
+
+function getQueryString(req: Request, key: string): string | undefined {
+  const value = req.query[key];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseEnum<T extends string>(
+  values: readonly T[],
+  value: string | undefined,
+): T | undefined {
+  return values.find((v) => v === value);
+}
+
+// Query parameters mirror AdminOrdersFilterInput, statuses are comma separated
+function parseExportFilter(req: Request): AdminOrdersFilter {
+  const statuses = (getQueryString(req, "status") ?? "")
+    .split(",")
+    .map((status) => parseEnum(Object.values(OrderStatus), status.trim()))
+    .filter((status) => status !== undefined);
+
+  return {
+    statuses,
+    createdFrom: parseDate(getQueryString(req, "from")),
+    createdTo: parseDate(getQueryString(req, "to")),
+    minTotal: parseNumber(getQueryString(req, "minTotal")),
+    maxTotal: parseNumber(getQueryString(req, "maxTotal")),
+    customer: getQueryString(req, "customer"),
+    orderIdPrefix: getQueryString(req, "orderId"),
+    productId: parseNumber(getQueryString(req, "productId")),
+    product: getQueryString(req, "product"),
+    sortBy: parseEnum(
+      Object.values(AdminOrderSortField),
+      getQueryString(req, "sortBy"),
+    ),
+    sortDirection: parseEnum(
+      Object.values(SortDirection),
+      getQueryString(req, "sortDirection"),
+    ),
+  };
+}
+
+function toCsvCell(value: string | number | Date | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // Leading formula characters are neutralised so spreadsheets show them as text
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsvRow(cells: (string | number | Date | null | undefined)[]) {
+  return `${cells.map(toCsvCell).join(",")}\n`;
+}
+
+// Streams every order matching the filter, in batches, for bookkeeping
+export const adminOrdersExportHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { isAuthenticated, sessionClaims, userId } = getAuth(req);
+  if (!isAuthenticated) {
+    res.status(401).json({ success: false, message: "Not authenticated" });
+    return;
+  }
+
+  try {
+    // Claims are only set after the first GraphQL request creates the user
+    const role = sessionClaims.dbUserId
+      ? sessionClaims.role
+      : (
+          await prisma.user.findUnique({
+            where: { auth_id: userId },
+            select: { role: true },
+          })
+        )?.role;
+
+    if (role !== UserRole.ADMIN) {
+      res.status(403).json({ success: false, message: "Admin access only" });
+      return;
+    }
+
+    const filter = parseExportFilter(req);
+    const where = buildAdminOrdersWhere(filter);
+    const orderBy = getAdminOrdersOrderBy(filter);
+
+    const filename = `orders-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.write(toCsvRow(CSV_HEADER));
+
+    for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+      const orders = await prisma.productOrder.findMany({
+        where,
+        orderBy,
+        skip,
+        take: EXPORT_BATCH_SIZE,
+        select: {
+          id: true,
+          created_at: true,
+          status: true,
+          subtotal: true,
+          discount: true,
+          coupon_code: true,
+          coupon_discount: true,
+          shipping_fee: true,
+          total: true,
+          paid_at: true,
+          invoice_number: true,
+          shipping_address: true,
+          user: { select: { name: true, email: true } },
+          _count: { select: { ordered_products: true } },
+        },
+      });
+
+      for (const order of orders) {
+        res.write(
+          toCsvRow([
+            order.id,
+            order.created_at,
+            order.status,
+            order.user.name,
+            order.user.email,
+            order._count.ordered_products,
+            order.subtotal,
+            order.discount,
+            order.coupon_code,
+            order.coupon_discount,
+            order.shipping_fee,
+            order.total,
+            order.paid_at,
+            order.invoice_number,
+            order.shipping_address.city,
+            order.shipping_address.state,
+          ]),
+        );
+      }
+
+      if (orders.length < EXPORT_BATCH_SIZE) break;
+    }
+
+    res.end();
+  } catch (error) {
+    // Once rows are streamed the status is sent, the download is cut short
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+};
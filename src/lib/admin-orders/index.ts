@@ -0,0 +1,92 @@
+import { OrderStatus, Prisma } from "@/prisma/generated/client";
+
+export enum AdminOrderSortField {
+  CREATED_AT = "created_at",
+  UPDATED_AT = "updated_at",
+  PAID_AT = "paid_at",
+  TOTAL = "total",
+}
+
+export enum SortDirection {
+  ASC = "asc",
+  DESC = "desc",
+}
+
+// Shared by the adminOrders query and the CSV export so both list the same rows
+export interface AdminOrdersFilter {
+  statuses?: OrderStatus[];
+  createdFrom?: Date;
+  createdTo?: Date;
+  minTotal?: number;
+  maxTotal?: number;
+  // Matches the customer's email or name
+  customer?: string;
+  orderIdPrefix?: string;
+  productId?: number;
+  // Matches the product name recorded on the order lines
+  product?: string;
+  sortBy?: AdminOrderSortField;
+  sortDirection?: SortDirection;
+}
+
+export function buildAdminOrdersWhere(
+  filter: AdminOrdersFilter,
+): Prisma.ProductOrderWhereInput {
+  const where: Prisma.ProductOrderWhereInput = {};
+
+  if (filter.statuses?.length) {
+    where.status = { in: filter.statuses };
+  }
+
+  if (filter.createdFrom || filter.createdTo) {
+    where.created_at = { gte: filter.createdFrom, lte: filter.createdTo };
+  }
+
+  if (filter.minTotal !== undefined || filter.maxTotal !== undefined) {
+    where.total = { gte: filter.minTotal, lte: filter.maxTotal };
+  }
+
+  const customer = filter.customer?.trim();
+  if (customer) {
+    where.user = {
+      OR: [
+        { email: { contains: customer, mode: "insensitive" } },
+        { name: { contains: customer, mode: "insensitive" } },
+      ],
+    };
+  }
+
+  const orderIdPrefix = filter.orderIdPrefix?.trim();
+  if (orderIdPrefix) {
+    where.id = { startsWith: orderIdPrefix };
+  }
+
+  const product = filter.product?.trim();
+  if (filter.productId !== undefined || product) {
+    where.ordered_products = {
+      some: {
+        product_id: filter.productId,
+        product_name: product
+          ? { contains: product, mode: "insensitive" }
+          : undefined,
+      },
+    };
+  }
+
+  return where;
+}
+
+// The id tie-breaker keeps pages stable when many orders share a sort value
+export function getAdminOrdersOrderBy(
+  filter: AdminOrdersFilter,
+): Prisma.ProductOrderOrderByWithRelationInput[] {
+  const field = filter.sortBy ?? AdminOrderSortField.CREATED_AT;
+  const direction = filter.sortDirection ?? SortDirection.DESC;
+
+  return [
+    field === AdminOrderSortField.PAID_AT
+      ? { paid_at: { sort: direction, nulls: "last" } }
+      : { [field]: direction },
+    { id: direction },
+  ];
+}
@@ -0,0 +1,210 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { queueStockNotifications } from "@/lib/stock-notifications";
+import { FulfilmentMode, ProductType } from "@/prisma/generated/client";
+
+export interface BundleItemInput {
+  component_id: number;
+  quantity: number;
+}
+
+export const BUNDLE_ITEMS_INCLUDE = {
+  orderBy: { id: "asc" },
+  include: {
+    component: {
+      select: {
+        id: true,
+        slug: true,
+        name: true,
+        image_urls: true,
+        price: true,
+        available_quantity: true,
+      },
+    },
+  },
+} as const;
+
+// Admin input check, the discount is a percentage off the components' price
+export function validateBundleDiscount(
+  discount: number | null | undefined,
+): string | null {
+  if (discount !== undefined && discount !== null) {
+    if (discount <= 0 || discount >= 100) {
+      return "Bundle discount must be between 0 and 100 percent";
+    }
+  }
+  return null;
+}
+
+// Admin input check for a bundle's components. Components must be single
+// products sold from stock so the bundle's stock can follow theirs.
+export async function validateBundleItems(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  items: BundleItemInput[],
+  bundleId?: number,
+): Promise<string | null> {
+  if (items.length === 0) {
+    return "A bundle needs at least one product";
+  }
+
+  if (
+    items.some((item) => !Number.isInteger(item.quantity) || item.quantity < 1)
+  ) {
+    return "Bundle quantities must be at least 1";
+  }
+
+  const componentIds = items.map((item) => item.component_id);
+  if (new Set(componentIds).size !== componentIds.length) {
+    return "Each product can only be added to a bundle once";
+  }
+
+  if (bundleId !== undefined && componentIds.includes(bundleId)) {
+    return "A bundle cannot contain itself";
+  }
+
+  const components = await prisma.product.findMany({
+    where: { id: { in: componentIds } },
+    select: {
+      name: true,
+      product_type: true,
+      fulfilment_mode: true,
+      _count: { select: { variants: true } },
+    },
+  });
+
+  if (components.length !== componentIds.length) {
+    return "Bundle product not found";
+  }
+
+  for (const component of components) {
+    if (component.product_type === ProductType.BUNDLE) {
+      return `${component.name} is a bundle and cannot be part of another bundle`;
+    }
+    if (component._count.variants > 0) {
+      return `${component.name} has variants and cannot be part of a bundle`;
+    }
+    if (component.fulfilment_mode !== FulfilmentMode.IN_STOCK) {
+      return `${component.name} is not sold from stock and cannot be part of a bundle`;
+    }
+  }
+
+  return null;
+}
+
+// Combined price of the components with the bundle discount taken off
+export function getBundlePrice(
+  items: { quantity: number; component: { price: number } }[],
+  discount: number,
+): number {
+  const total = items.reduce(
+    (sum, item) => sum + item.component.price * item.quantity,
+    0,
+  );
+  return Math.round((total * (100 - discount)) / 100);
+}
+
+// A bundle can be sold as many times as its scarcest component allows, an
+// inactive or archived component makes it unavailable. Its price follows the
+// components when it is sold at a discount.
+export async function syncBundle(
+  tx: TransactionClient,
+  bundleId: number,
+): Promise<void> {
+  const bundle = await tx.product.findUnique({
+    where: { id: bundleId },
+    select: {
+      bundle_discount: true,
+      bundle_items: {
+        select: {
+          quantity: true,
+          component: {
+            select: {
+              price: true,
+              total_quantity: true,
+              available_quantity: true,
+              is_active: true,
+              deleted_at: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!bundle || bundle.bundle_items.length === 0) return;
+
+  let available = Infinity;
+  let total = Infinity;
+  for (const { quantity, component } of bundle.bundle_items) {
+    const sellable = component.is_active && !component.deleted_at;
+    available = Math.min(
+      available,
+      sellable
+        ? Math.floor(Math.max(0, component.available_quantity) / quantity)
+        : 0,
+    );
+    total = Math.min(
+      total,
+      Math.floor(Math.max(0, component.total_quantity) / quantity),
+    );
+  }
+
+  await tx.product.update({
+    where: { id: bundleId },
+    data: {
+      available_quantity: available,
+      total_quantity: total,
+      ...(bundle.bundle_discount !== null
+        ? { price: getBundlePrice(bundle.bundle_items, bundle.bundle_discount) }
+        : {}),
+    },
+  });
+
+  await queueStockNotifications(tx, bundleId, null);
+}
+
+// Components of the bundles among the products, by bundle id. Order lines
+// keep these so later edits to a bundle do not change what its orders hold.
+export async function getBundleComponents(
+  tx: TransactionClient,
+  productIds: number[],
+): Promise<Map<number, PrismaJson.BundleComponents>> {
+  const items = await tx.bundleItem.findMany({
+    where: { bundle_id: { in: productIds } },
+    orderBy: { id: "asc" },
+    select: { bundle_id: true, component_id: true, quantity: true },
+  });
+
+  const components = new Map<number, PrismaJson.BundleComponents>();
+  for (const item of items) {
+    components.set(item.bundle_id, [
+      ...(components.get(item.bundle_id) ?? []),
+      {
+        product_id: item.component_id,
+        variant_id: null,
+        quantity: item.quantity,
+      },
+    ]);
+  }
+  return components;
+}
+
+// Sync every bundle that contains one of the products. Bundles are updated
+// after their components and in id order, so concurrent orders lock rows in
+// the same order.
+export async function syncComponentBundles(
+  tx: TransactionClient,
+  productIds: number[],
+): Promise<void> {
+  if (productIds.length === 0) return;
+
+  const bundles = await tx.bundleItem.findMany({
+    where: { component_id: { in: productIds } },
+    distinct: ["bundle_id"],
+    orderBy: { bundle_id: "asc" },
+    select: { bundle_id: true },
+  });
+
+  for (const { bundle_id } of bundles) {
+    await syncBundle(tx, bundle_id);
+  }
+}
@@ -0,0 +1,35 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { Prisma } from "@/prisma/generated/client";
+
+export interface CartLineKey {
+  user_id: number;
+  product_id: number;
+  variant_id: number | null;
+}
+
+// Cart lines are unique per product and variant, a null variant included.
+// Prisma cannot upsert the compound key while variant_id is null, so the
+// insert skips a line the unique key already has and that line is updated
+// instead. Returns the id of the updated or created line.
+export async function upsertCartLine(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  key: CartLineKey,
+  update: Prisma.CartUpdateInput,
+  create: { quantity: number; price_when_added: number },
+): Promise<number> {
+  const { count } = await prisma.cart.createMany({
+    data: [{ ...key, ...create }],
+    skipDuplicates: true,
+  });
+
+  const line = await prisma.cart.findFirstOrThrow({
+    where: key,
+    select: { id: true },
+  });
+
+  if (count === 0) {
+    await prisma.cart.update({ where: { id: line.id }, data: update });
+  }
+
+  return line.id;
+}
@@ -0,0 +1,216 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { Coupon, CouponType, OrderStatus } from "@/prisma/generated/client";
+
+export interface CouponLine {
+  product_id: number;
+  price: number;
+  quantity: number;
+  material: string;
+  categories: string[];
+}
+
+export interface CouponEvaluation {
+  error: string | null;
+  discount: number;
+  // Discount per line, by index into the evaluated lines. Only eligible
+  // lines are present.
+  line_discounts: Map<number, number>;
+}
+
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function isLineEligible(coupon: Coupon, line: CouponLine): boolean {
+  if (
+    coupon.categories.length > 0 &&
+    !line.categories.some((category) => coupon.categories.includes(category))
+  ) {
+    return false;
+  }
+
+  if (
+    coupon.materials.length > 0 &&
+    !coupon.materials.includes(line.material)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+function rejected(error: string): CouponEvaluation {
+  return { error, discount: 0, line_discounts: new Map() };
+}
+
+// Validate a coupon against the cart lines and compute its discount.
+// Per-user limits need the database and are checked separately.
+export function evaluateCoupon(
+  coupon: Coupon,
+  lines: CouponLine[],
+  now: Date = new Date(),
+): CouponEvaluation {
+  if (!coupon.is_active) {
+    return rejected("This coupon is no longer active");
+  }
+
+  if (coupon.starts_at && coupon.starts_at > now) {
+    return rejected("This coupon is not valid yet");
+  }
+
+  if (coupon.ends_at && coupon.ends_at < now) {
+    return rejected("This coupon has expired");
+  }
+
+  if (
+    coupon.usage_limit !== null &&
+    coupon.times_redeemed >= coupon.usage_limit
+  ) {
+    return rejected("This coupon has reached its usage limit");
+  }
+
+  const subtotal = lines.reduce((sum, l) => sum + l.price * l.quantity, 0);
+  if (subtotal < coupon.min_subtotal) {
+    return rejected(
+      `A minimum order of ${coupon.min_subtotal} is required for this coupon`,
+    );
+  }
+
+  const eligibleLines = lines
+    .map((line, index) => ({
+      index,
+      eligible: isLineEligible(coupon, line),
+      total: line.price * line.quantity,
+    }))
+    .filter((line) => line.eligible && line.total > 0);
+
+  const eligibleSubtotal = eligibleLines.reduce((sum, l) => sum + l.total, 0);
+  if (eligibleSubtotal === 0) {
+    return rejected("This coupon does not apply to any items in your cart");
+  }
+
+  let discount =
+    coupon.type === CouponType.PERCENTAGE
+      ? Math.floor((eligibleSubtotal * coupon.value) / 100)
+      : coupon.value;
+
+  if (coupon.max_discount !== null) {
+    discount = Math.min(discount, coupon.max_discount);
+  }
+  discount = Math.max(0, Math.min(discount, eligibleSubtotal));
+
+  // Distribute the discount across eligible lines proportionally by line total
+  const lineDiscounts = new Map<number, number>();
+  let distributed = 0;
+  eligibleLines.forEach((line, index) => {
+    const lineDiscount =
+      index === eligibleLines.length - 1
+        ? discount - distributed
+        : Math.min(
+            line.total,
+            Math.round((discount * line.total) / eligibleSubtotal),
+          );
+    distributed += lineDiscount;
+    lineDiscounts.set(line.index, lineDiscount);
+  });
+
+  return { error: null, discount, line_discounts: lineDiscounts };
+}
+
+export async function checkCouponUserLimit(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  coupon: Coupon,
+  userId: number,
+): Promise<string | null> {
+  if (coupon.per_user_limit === null) return null;
+
+  const used = await prisma.productOrder.count({
+    where: {
+      user_id: userId,
+      coupon_id: coupon.id,
+      // Cancelled orders gave their redemption back
+      status: { not: OrderStatus.CANCELLED },
+    },
+  });
+
+  if (used >= coupon.per_user_limit) {
+    return "You have already used this coupon the maximum number of times";
+  }
+
+  return null;
+}
+
+// Count a redemption against the global usage limit. The limit is checked
+// in the same statement so concurrent checkouts cannot exceed it. That
+// update locks the coupon row until the transaction ends, so the per-user
+// count taken after it sees orders from concurrent checkouts by the same
+// user.
+export async function redeemCoupon(
+  tx: TransactionClient,
+  coupon: Coupon,
+  userId: number | null,
+): Promise<void> {
+  const { count } = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      OR: [
+        { usage_limit: null },
+        { times_redeemed: { lt: tx.coupon.fields.usage_limit } },
+      ],
+    },
+    data: { times_redeemed: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    throw new CouponError("This coupon has reached its usage limit");
+  }
+
+  if (userId !== null) {
+    const userError = await checkCouponUserLimit(tx, coupon, userId);
+    if (userError) {
+      throw new CouponError(userError);
+    }
+  }
+}
+
+// Give an order's redemption back when the order is cancelled
+export async function releaseOrderCoupon(
+  tx: TransactionClient,
+  orderId: string,
+): Promise<void> {
+  const order = await tx.productOrder.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { coupon_id: true },
+  });
+  if (order.coupon_id === null) return;
+
+  await tx.coupon.updateMany({
+    where: { id: order.coupon_id, times_redeemed: { gt: 0 } },
+    data: { times_redeemed: { decrement: 1 } },
+  });
+}
+
+// Count the redemption again when a cancelled order is reopened. An admin
+// reopening the order may take the coupon past its usage limit.
+export async function restoreOrderCoupon(
+  tx: TransactionClient,
+  orderId: string,
+): Promise<void> {
+  const order = await tx.productOrder.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { coupon_id: true },
+  });
+  if (order.coupon_id === null) return;
+
+  await tx.coupon.update({
+    where: { id: order.coupon_id },
+    data: { times_redeemed: { increment: 1 } },
+  });
+}
@@ -0,0 +1,111 @@
+import { FulfilmentMode } from "@/prisma/generated/client";
+
+export interface FulfilmentDetails {
+  fulfilment_mode: FulfilmentMode;
+  lead_time_days: number | null;
+  preorder_ship_date: Date | null;
+  preorder_limit: number | null;
+  preorder_count: number;
+}
+
+export const FULFILMENT_SELECT = {
+  fulfilment_mode: true,
+  lead_time_days: true,
+  preorder_ship_date: true,
+  preorder_limit: true,
+  preorder_count: true,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Storefront filter for products that can be bought right now. Pre-orders
+// that reached their cap are not filtered out.
+export const SELLABLE_PRODUCT_WHERE = {
+  OR: [
+    { available_quantity: { gt: 0 } },
+    { fulfilment_mode: { not: FulfilmentMode.IN_STOCK } },
+  ],
+};
+
+// Admin input check for the fields of the chosen fulfilment mode
+export function validateFulfilment(
+  details: Partial<FulfilmentDetails>,
+): string | null {
+  if (details.fulfilment_mode === FulfilmentMode.MADE_TO_ORDER) {
+    if (!details.lead_time_days || details.lead_time_days < 1) {
+      return "Made to order products need a lead time of at least 1 day";
+    }
+  }
+
+  if (details.fulfilment_mode === FulfilmentMode.PRE_ORDER) {
+    if (!details.preorder_ship_date) {
+      return "Pre-order products need an expected ship date";
+    }
+    if (
+      details.preorder_limit !== undefined &&
+      details.preorder_limit !== null &&
+      details.preorder_limit < 1
+    ) {
+      return "Pre-order limit must be at least 1";
+    }
+  }
+
+  return null;
+}
+
+// Pre-order quantity still open, or null when the pre-order is not capped
+export function getPreorderRemaining(
+  product: FulfilmentDetails,
+): number | null {
+  if (product.preorder_limit === null) return null;
+  return Math.max(0, product.preorder_limit - product.preorder_count);
+}
+
+// Quantity a customer can buy. Made-to-order products are not limited by
+// stock and uncapped pre-orders by nothing, both return Infinity.
+export function getSellableQuantity(
+  product: FulfilmentDetails & { available_quantity: number },
+  variant?: { available_quantity: number } | null,
+): number {
+  switch (product.fulfilment_mode) {
+    case FulfilmentMode.MADE_TO_ORDER:
+      return Infinity;
+    case FulfilmentMode.PRE_ORDER:
+      return getPreorderRemaining(product) ?? Infinity;
+    default:
+      return (variant ?? product).available_quantity;
+  }
+}
+
+// When a line ordered at orderedAt is expected to leave the studio. In stock
+// lines ship straight away and have no estimate.
+export function getDispatchDate(
+  product: FulfilmentDetails,
+  orderedAt: Date = new Date(),
+): Date | null {
+  switch (product.fulfilment_mode) {
+    case FulfilmentMode.MADE_TO_ORDER:
+      return new Date(
+        orderedAt.getTime() + (product.lead_time_days ?? 0) * DAY_MS,
+      );
+    case FulfilmentMode.PRE_ORDER:
+      return product.preorder_ship_date;
+    default:
+      return null;
+  }
+}
+
+// An order is dispatched together, so it waits for its latest line
+export function getOrderDispatchDate(
+  products: FulfilmentDetails[],
+  orderedAt: Date = new Date(),
+): Date | null {
+  let latest: Date | null = null;
+  for (const product of products) {
+    const date = getDispatchDate(product, orderedAt);
+    if (date && (!latest || date > latest)) {
+      latest = date;
+    }
+  }
+  return latest;
+}
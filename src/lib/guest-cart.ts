@@ -0,0 +1,124 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+import { GUEST_CART_SECRET } from "@/consts/env";
+import { upsertCartLine } from "@/lib/cart-lines";
+import { FULFILMENT_SELECT, getSellableQuantity } from "@/lib/fulfilment";
+import { ExtendedPrismaClient } from "@/lib/prisma";
+import {
+  PURCHASE_LIMITS_SELECT,
+  createCartLineLimiter,
+} from "@/lib/purchase-limits";
+import { getLineKey } from "@/lib/variants";
+
+export const GUEST_CART_TOKEN_HEADER = "x-guest-cart-token";
+
+function sign(guestCartId: string): string {
+  return createHmac("sha256", GUEST_CART_SECRET)
+    .update(guestCartId)
+    .digest("base64url");
+}
+
+// Tokens are "<guest cart id>.<signature>" so ids cannot be guessed or forged
+export function signGuestCartToken(guestCartId: string): string {
+  return `${guestCartId}.${sign(guestCartId)}`;
+}
+
+export function verifyGuestCartToken(token: unknown): string | null {
+  if (typeof token !== "string") return null;
+
+  const [guestCartId, signature] = token.split(".");
+  if (!guestCartId || !signature) return null;
+
+  const expected = Buffer.from(sign(guestCartId));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  return guestCartId;
+}
+
+// Move a guest cart into the user's cart and delete it. Quantities of the same
+// product and variant are added up but capped by stock and purchase limits,
+// never below what the user had.
+export async function mergeGuestCart(
+  prisma: ExtendedPrismaClient,
+  guestCartId: string,
+  userId: number,
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const guestItems = await tx.guestCartItem.findMany({
+      where: { guest_cart_id: guestCartId },
+      include: {
+        product: {
+          select: {
+            ...FULFILMENT_SELECT,
+            ...PURCHASE_LIMITS_SELECT,
+            available_quantity: true,
+          },
+        },
+        variant: { select: { available_quantity: true } },
+      },
+    });
+
+    if (guestItems.length > 0) {
+      const userItems = await tx.cart.findMany({
+        where: {
+          user_id: userId,
+          product_id: { in: guestItems.map((item) => item.product_id) },
+        },
+        select: {
+          product_id: true,
+          variant_id: true,
+          quantity: true,
+          saved_for_later: true,
+        },
+      });
+      const userQuantities = new Map(
+        userItems.map((item) => [
+          getLineKey(item.product_id, item.variant_id),
+          item.quantity,
+        ]),
+      );
+      const limiter = await createCartLineLimiter(
+        tx,
+        userId,
+        new Map(guestItems.map((item) => [item.product_id, item.product])),
+        userItems,
+      );
+
+      for (const item of guestItems) {
+        const existing =
+          userQuantities.get(getLineKey(item.product_id, item.variant_id)) ?? 0;
+        const available = getSellableQuantity(item.product, item.variant);
+        const quantity = Math.max(
+          existing,
+          limiter.cap(
+            item.product_id,
+            item.variant_id,
+            Math.min(existing + item.quantity, available),
+          ),
+        );
+
+        if (quantity === 0) continue;
+        limiter.set(item.product_id, item.variant_id, quantity);
+
+        await upsertCartLine(
+          tx,
+          {
+            user_id: userId,
+            product_id: item.product_id,
+            variant_id: item.variant_id,
+          },
+          { quantity, saved_for_later: false },
+          { quantity, price_when_added: item.price_when_added },
+        );
+      }
+    }
+
+    await tx.guestCart.deleteMany({ where: { id: guestCartId } });
+  });
+}
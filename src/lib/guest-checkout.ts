@@ -0,0 +1,74 @@
+import { createHash, randomBytes } from "crypto";
+
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9 -]{7,20}$/;
+
+export class GuestCheckoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GuestCheckoutError";
+  }
+}
+
+export interface GuestBuyer {
+  email: string;
+  phone: string;
+  name: string;
+}
+
+// Emails are stored lowercased so a guest and the account they sign up for
+// later resolve to the same user
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function validateGuestBuyer(buyer: GuestBuyer): string | null {
+  if (!EMAIL_PATTERN.test(buyer.email.trim())) {
+    return "Please enter a valid email address";
+  }
+  if (!PHONE_PATTERN.test(buyer.phone.trim())) {
+    return "Please enter a valid phone number";
+  }
+  return null;
+}
+
+export function hashGuestOrderToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Only the hash is stored, the token itself is shown to the buyer once
+export function createGuestOrderToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, hash: hashGuestOrderToken(token) };
+}
+
+// Guest orders belong to a user row without a Clerk account. Signing up with
+// the same email later claims that row, and with it the orders. Anyone can
+// check out with any email, so an existing guest row is never changed, the
+// contact details entered at checkout are kept on the order instead.
+export async function getGuestBuyerId(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  buyer: GuestBuyer,
+): Promise<number> {
+  const user = await prisma.user.upsert({
+    where: { email: normalizeEmail(buyer.email) },
+    update: {},
+    create: {
+      email: normalizeEmail(buyer.email),
+      phone: buyer.phone.trim(),
+      name: buyer.name.trim(),
+      is_guest: true,
+    },
+    select: { id: true, is_guest: true },
+  });
+
+  if (!user.is_guest) {
+    throw new GuestCheckoutError(
+      "An account already exists for this email, please sign in to check out",
+    );
+  }
+
+  return user.id;
+}
@@ -0,0 +1,62 @@
+import { NextFunction, Request, Response } from "express";
+
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@/prisma/generated/client";
+import { getAuth } from "@clerk/express";
+
+import { buildOrderInvoice } from "./index";
+import { renderInvoicePdf } from "./pdf";
+
+// Signed-in customers can download invoices of their own orders, admins any
+export const invoiceDownloadHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { isAuthenticated, sessionClaims, userId } = getAuth(req);
+  if (!isAuthenticated) {
+    res.status(401).json({ success: false, message: "Not authenticated" });
+    return;
+  }
+
+  try {
+    // Claims are only set after the first GraphQL request creates the user
+    const user = sessionClaims.dbUserId
+      ? { id: sessionClaims.dbUserId, role: sessionClaims.role }
+      : await prisma.user.findUnique({
+          where: { auth_id: userId },
+          select: { id: true, role: true },
+        });
+
+    const orderId = String(req.params["orderId"]);
+    const order = await prisma.productOrder.findUnique({
+      where: { id: orderId },
+      select: { user_id: true, invoice_number: true },
+    });
+
+    if (
+      !user ||
+      !order ||
+      (order.user_id !== user.id && user.role !== UserRole.ADMIN)
+    ) {
+      res.status(404).json({ success: false, message: "Order not found" });
+      return;
+    }
+
+    const invoice = await buildOrderInvoice(prisma, orderId);
+    if (!invoice) {
+      res.status(409).json({
+        success: false,
+        message: "An invoice is issued once the order is paid",
+      });
+      return;
+    }
+
+    const filename = `invoice-${invoice.invoice_number.replace(/\//g, "-")}.pdf`;
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+    renderInvoicePdf(invoice).pipe(res);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,263 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+
+export const INVOICE_SETTINGS_KEY = "invoice_settings";
+
+export const DEFAULT_INVOICE_SETTINGS: PrismaJson.InvoiceSettings = {
+  legal_name: "",
+  gstin: "",
+  state: "",
+  prefix: "INV",
+};
+
+const CONTACT_INFO_SETTING_KEY = "contact_info";
+
+// India Standard Time, used to decide which financial year an invoice is in
+const IST_OFFSET_MINUTES = 330;
+
+export interface InvoiceLine {
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  // Amounts are in paise so tax splits do not lose precision
+  unit_price: number;
+  discount: number;
+  taxable_value: number;
+  gst_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface InvoiceDocument {
+  invoice_number: string;
+  invoiced_at: Date;
+  order_id: string;
+  seller: PrismaJson.InvoiceSettings & PrismaJson.ContactInfo;
+  buyer: PrismaJson.ShippingAddress;
+  place_of_supply: string;
+  is_intra_state: boolean;
+  lines: InvoiceLine[];
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export async function getInvoiceSettings(
+  prisma: ExtendedPrismaClient | TransactionClient,
+): Promise<PrismaJson.InvoiceSettings> {
+  const setting = await prisma.siteSetting.findUnique({
+    where: { key: INVOICE_SETTINGS_KEY },
+  });
+
+  if (setting && typeof setting.value === "object" && setting.value !== null) {
+    return {
+      ...DEFAULT_INVOICE_SETTINGS,
+      ...(setting.value as PrismaJson.InvoiceSettings),
+    };
+  }
+
+  return DEFAULT_INVOICE_SETTINGS;
+}
+
+// Indian financial years run April to March, e.g. "2025-26"
+export function getFinancialYear(date: Date): string {
+  const local = new Date(date.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+  const year = local.getUTCFullYear();
+  const start = local.getUTCMonth() >= 3 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+// Assign the next invoice number to an order and freeze the tax details of
+// its lines. Safe to call again, an invoiced order keeps its number.
+export async function issueOrderInvoice(
+  tx: TransactionClient,
+  orderId: string,
+): Promise<string> {
+  const order = await tx.productOrder.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      invoice_number: true,
+      ordered_products: {
+        select: {
+          id: true,
+          product: { select: { hsn_code: true, gst_rate: true } },
+        },
+      },
+    },
+  });
+
+  if (order.invoice_number) {
+    return order.invoice_number;
+  }
+
+  const now = new Date();
+  const financialYear = getFinancialYear(now);
+  const { prefix } = await getInvoiceSettings(tx);
+
+  // The upsert takes a row lock, so concurrent payments get distinct numbers
+  const sequence = await tx.invoiceSequence.upsert({
+    where: { financial_year: financialYear },
+    create: { financial_year: financialYear, last_number: 1 },
+    update: { last_number: { increment: 1 } },
+  });
+
+  const invoiceNumber = `${prefix}/${financialYear}/${String(
+    sequence.last_number,
+  ).padStart(5, "0")}`;
+
+  for (const item of order.ordered_products) {
+    await tx.purchasedProductItem.update({
+      where: { id: item.id },
+      data: {
+        hsn_code: item.product.hsn_code,
+        gst_rate: item.product.gst_rate,
+      },
+    });
+  }
+
+  await tx.productOrder.update({
+    where: { id: orderId },
+    data: { invoice_number: invoiceNumber, invoiced_at: now },
+  });
+
+  return invoiceNumber;
+}
+
+function normalizeState(state: string): string {
+  return state.trim().toLowerCase();
+}
+
+// Prices are GST inclusive, so the tax is backed out of the amount paid
+export function getIncludedTax(amount: number, gstRate: number): number {
+  return amount - Math.round((amount * 100) / (100 + gstRate));
+}
+
+function buildInvoiceLine(
+  line: {
+    description: string;
+    hsn_code: string | null;
+    quantity: number;
+    unit_price: number;
+    discount: number;
+    gst_rate: number;
+  },
+  isIntraState: boolean,
+): InvoiceLine {
+  const total = line.unit_price * line.quantity - line.discount;
+  const tax = getIncludedTax(total, line.gst_rate);
+  const taxableValue = total - tax;
+  const cgst = isIntraState ? Math.floor(tax / 2) : 0;
+  const sgst = isIntraState ? tax - cgst : 0;
+
+  return {
+    ...line,
+    taxable_value: taxableValue,
+    cgst,
+    sgst,
+    igst: isIntraState ? 0 : tax,
+    total,
+  };
+}
+
+export async function buildOrderInvoice(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  orderId: string,
+): Promise<InvoiceDocument | null> {
+  const [order, settings, contactSetting] = await Promise.all([
+    prisma.productOrder.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        invoice_number: true,
+        invoiced_at: true,
+        shipping_fee: true,
+        shipping_address: true,
+        ordered_products: {
+          orderBy: { id: "asc" },
+          select: {
+            quantity: true,
+            price: true,
+            discount: true,
+            hsn_code: true,
+            gst_rate: true,
+            product_name: true,
+          },
+        },
+      },
+    }),
+    getInvoiceSettings(prisma),
+    prisma.siteSetting.findUnique({
+      where: { key: CONTACT_INFO_SETTING_KEY },
+    }),
+  ]);
+
+  if (!order?.invoice_number || !order.invoiced_at) {
+    return null;
+  }
+
+  const contact = (contactSetting?.value ??
+    {}) as Partial<PrismaJson.ContactInfo>;
+  const buyer = order.shipping_address;
+  const isIntraState =
+    settings.state !== "" &&
+    normalizeState(settings.state) === normalizeState(buyer.state);
+
+  const lines = order.ordered_products.map((item) =>
+    buildInvoiceLine(
+      {
+        description: item.product_name,
+        hsn_code: item.hsn_code,
+        quantity: item.quantity,
+        unit_price: item.price * 100,
+        discount: item.discount * 100,
+        gst_rate: item.gst_rate ?? 0,
+      },
+      isIntraState,
+    ),
+  );
+
+  // Shipping is part of a composite supply and follows the highest item rate
+  if (order.shipping_fee > 0) {
+    lines.push(
+      buildInvoiceLine(
+        {
+          description: "Shipping",
+          hsn_code: null,
+          quantity: 1,
+          unit_price: order.shipping_fee * 100,
+          discount: 0,
+          gst_rate: Math.max(0, ...lines.map((line) => line.gst_rate)),
+        },
+        isIntraState,
+      ),
+    );
+  }
+
+  const sum = (field: "taxable_value" | "cgst" | "sgst" | "igst" | "total") =>
+    lines.reduce((total, line) => total + line[field], 0);
+
+  return {
+    invoice_number: order.invoice_number,
+    invoiced_at: order.invoiced_at,
+    order_id: order.id,
+    seller: {
+      ...settings,
+      address: contact.address ?? "",
+      email: contact.email ?? "",
+      phone: contact.phone ?? "",
+      hours: contact.hours ?? "",
+    },
+    buyer,
+    place_of_supply: buyer.state,
+    is_intra_state: isIntraState,
+    lines,
+    taxable_value: sum("taxable_value"),
+    cgst: sum("cgst"),
+    sgst: sum("sgst"),
+    igst: sum("igst"),
+    total: sum("total"),
+  };
+}
@@ -0,0 +1,222 @@
+import PDFDocument from "pdfkit";
+
+import { InvoiceDocument, InvoiceLine } from "./index";
+
+const PAGE_MARGIN = 40;
+const ROW_PADDING = 4;
+
+interface Column {
+  header: string;
+  width: number;
+  align: "left" | "right";
+  value: (line: InvoiceLine, index: number) => string;
+}
+
+// Standard PDF fonts have no rupee sign, amounts are printed as plain numbers
+function formatAmount(paise: number): string {
+  return (paise / 100).toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "Asia/Kolkata",
+  });
+}
+
+function getColumns(isIntraState: boolean): Column[] {
+  const taxColumns: Column[] = isIntraState
+    ? [
+        {
+          header: "CGST",
+          width: 50,
+          align: "right",
+          value: (l) => formatAmount(l.cgst),
+        },
+        {
+          header: "SGST",
+          width: 50,
+          align: "right",
+          value: (l) => formatAmount(l.sgst),
+        },
+      ]
+    : [
+        {
+          header: "IGST",
+          width: 100,
+          align: "right",
+          value: (l) => formatAmount(l.igst),
+        },
+      ];
+
+  return [
+    { header: "#", width: 20, align: "left", value: (_, i) => String(i + 1) },
+    { header: "Item", width: 120, align: "left", value: (l) => l.description },
+    { header: "HSN", width: 50, align: "left", value: (l) => l.hsn_code ?? "" },
+    {
+      header: "Qty",
+      width: 30,
+      align: "right",
+      value: (l) => String(l.quantity),
+    },
+    {
+      header: "Rate",
+      width: 55,
+      align: "right",
+      value: (l) => formatAmount(l.unit_price),
+    },
+    {
+      header: "Taxable",
+      width: 60,
+      align: "right",
+      value: (l) => formatAmount(l.taxable_value),
+    },
+    {
+      header: "GST %",
+      width: 35,
+      align: "right",
+      value: (l) => `${l.gst_rate}`,
+    },
+    ...taxColumns,
+    {
+      header: "Total",
+      width: 45,
+      align: "right",
+      value: (l) => formatAmount(l.total),
+    },
+  ];
+}
+
+function drawRow(
+  doc: PDFKit.PDFDocument,
+  columns: Column[],
+  cells: string[],
+  y: number,
+): number {
+  let x = PAGE_MARGIN;
+  let height = 0;
+
+  columns.forEach((column, index) => {
+    const options = { width: column.width - ROW_PADDING, align: column.align };
+    doc.text(cells[index], x, y, options);
+    height = Math.max(height, doc.heightOfString(cells[index], options));
+    x += column.width;
+  });
+
+  return y + height + ROW_PADDING;
+}
+
+// Render a tax invoice. The returned document is finished and can be piped.
+export function renderInvoicePdf(invoice: InvoiceDocument): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const { seller, buyer } = invoice;
+
+  doc.fontSize(16).font("Helvetica-Bold").text("TAX INVOICE", {
+    align: "center",
+  });
+  doc.moveDown();
+
+  const headerTop = doc.y;
+  doc.fontSize(9).font("Helvetica-Bold").text(seller.legal_name);
+  doc.font("Helvetica");
+  if (seller.address) doc.text(seller.address, { width: contentWidth / 2 });
+  if (seller.state) doc.text(seller.state);
+  if (seller.gstin) doc.text(`GSTIN: ${seller.gstin}`);
+  if (seller.email) doc.text(seller.email);
+  if (seller.phone) doc.text(seller.phone);
+  const sellerBottom = doc.y;
+
+  const detailsX = PAGE_MARGIN + contentWidth / 2;
+  doc.text(`Invoice No: ${invoice.invoice_number}`, detailsX, headerTop);
+  doc.text(`Invoice Date: ${formatDate(invoice.invoiced_at)}`, detailsX);
+  doc.text(`Order ID: ${invoice.order_id}`, detailsX);
+  doc.text(`Place of Supply: ${invoice.place_of_supply}`, detailsX);
+
+  doc.y = Math.max(sellerBottom, doc.y) + 12;
+  doc.x = PAGE_MARGIN;
+  doc.font("Helvetica-Bold").text("Bill To / Ship To");
+  doc.font("Helvetica").text(buyer.name);
+  doc.text(
+    [buyer.address_line_1, buyer.address_line_2].filter(Boolean).join(", "),
+  );
+  doc.text(`${buyer.city}, ${buyer.state} ${buyer.zip}`);
+  if (buyer.contact_number) doc.text(buyer.contact_number);
+  doc.moveDown();
+
+  const columns = getColumns(invoice.is_intra_state);
+  doc.fontSize(8).font("Helvetica-Bold");
+  let y = drawRow(
+    doc,
+    columns,
+    columns.map((c) => c.header),
+    doc.y,
+  );
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(PAGE_MARGIN + contentWidth, y)
+    .stroke();
+  y += ROW_PADDING;
+
+  doc.font("Helvetica");
+  invoice.lines.forEach((line, index) => {
+    if (y > doc.page.height - PAGE_MARGIN * 3) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    y = drawRow(
+      doc,
+      columns,
+      columns.map((c) => c.value(line, index)),
+      y,
+    );
+  });
+
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(PAGE_MARGIN + contentWidth, y)
+    .stroke();
+
+  const totals: [string, number][] = invoice.is_intra_state
+    ? [
+        ["Taxable Value", invoice.taxable_value],
+        ["CGST", invoice.cgst],
+        ["SGST", invoice.sgst],
+        ["Invoice Total", invoice.total],
+      ]
+    : [
+        ["Taxable Value", invoice.taxable_value],
+        ["IGST", invoice.igst],
+        ["Invoice Total", invoice.total],
+      ];
+
+  doc.fontSize(9);
+  y += ROW_PADDING * 2;
+  for (const [label, amount] of totals) {
+    doc.font(label === "Invoice Total" ? "Helvetica-Bold" : "Helvetica");
+    doc.text(label, detailsX, y, { width: contentWidth / 4 });
+    doc.text(formatAmount(amount), detailsX + contentWidth / 4, y, {
+      width: contentWidth / 4,
+      align: "right",
+    });
+    y += 14;
+  }
+
+  doc
+    .font("Helvetica")
+    .fontSize(8)
+    .text(
+      "Prices are inclusive of GST. This is a computer generated invoice.",
+      PAGE_MARGIN,
+      y + 20,
+      { width: contentWidth, align: "center" },
+    );
+
+  doc.end();
+  return doc;
+}
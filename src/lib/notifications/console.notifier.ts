@@ -0,0 +1,24 @@
+import { appendFile } from "fs/promises";
+
+import { Notification, Notifier } from "./notifier";
+
+// Local notifier that prints notifications instead of sending them. With a
+// file path every notification is also appended to it as a JSON line.
+export class ConsoleNotifier implements Notifier {
+  readonly name = "console";
+
+  constructor(private readonly filePath?: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    console.log(
+      `✉️  ${notification.to}: ${notification.subject}${notification.url ? ` (${notification.url})` : ""}`,
+    );
+
+    if (this.filePath) {
+      await appendFile(
+        this.filePath,
+        `${JSON.stringify({ ...notification, sent_at: new Date() })}\n`,
+      );
+    }
+  }
+}
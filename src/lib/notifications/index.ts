@@ -0,0 +1,23 @@
+import { NOTIFIER, NOTIFIER_FILE } from "@/consts/env";
+
+import { ConsoleNotifier } from "./console.notifier";
+import { Notifier } from "./notifier";
+
+export * from "./notifier";
+
+const notifiers = new Map<string, Notifier>();
+
+export function registerNotifier(notifier: Notifier): void {
+  notifiers.set(notifier.name, notifier);
+}
+
+registerNotifier(new ConsoleNotifier(NOTIFIER_FILE));
+
+// Notifier used for customer notifications, selected by NOTIFIER
+export function getActiveNotifier(): Notifier {
+  const notifier = notifiers.get(NOTIFIER);
+  if (!notifier) {
+    throw new Error(`Notifier "${NOTIFIER}" is not registered`);
+  }
+  return notifier;
+}
@@ -0,0 +1,14 @@
+export interface Notification {
+  to: string;
+  subject: string;
+  text: string;
+  // Where the customer should go from the notification
+  url: string | null;
+}
+
+export interface Notifier {
+  readonly name: string;
+
+  // Throws when the notification could not be handed over, it is retried
+  send(notification: Notification): Promise<void>;
+}
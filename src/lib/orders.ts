@@ -0,0 +1,226 @@
+import { releaseOrderCoupon, restoreOrderCoupon } from "@/lib/coupons";
+import { issueOrderInvoice } from "@/lib/invoices";
+import { TransactionClient } from "@/lib/prisma";
+import {
+  StatusTransitionError,
+  TransitionTable,
+  getFlowTimestampUpdates,
+  getTransitionEffects,
+} from "@/lib/status-machine";
+import { releaseOrderStock, reserveOrderStock } from "@/lib/stock";
+import { getVariantName } from "@/lib/variants";
+import { OrderStatus, OrderStatusActor } from "@/prisma/generated/client";
+
+export interface OrderStatusEventInput {
+  order_id: string;
+  previous_status: OrderStatus | null;
+  status: OrderStatus;
+  actor_type: OrderStatusActor;
+  actor_id?: number | null;
+  note?: string | null;
+}
+
+// Append a status change to the order's history. Call it in the same
+// transaction that changes the status so the two never disagree.
+export async function recordOrderStatusEvent(
+  tx: TransactionClient,
+  event: OrderStatusEventInput,
+): Promise<void> {
+  const note = event.note?.trim();
+
+  await tx.orderStatusEvent.create({
+    data: {
+      order_id: event.order_id,
+      previous_status: event.previous_status,
+      status: event.status,
+      actor_type: event.actor_type,
+      actor_id: event.actor_id ?? null,
+      note: note ? note : null,
+    },
+  });
+}
+
+// Product details copied onto an order line, so renaming or editing a
+// product later does not change orders already placed
+export function getProductSnapshot(
+  product: {
+    name: string;
+    slug: string;
+    image_urls: string[];
+    material: string;
+    color_name: string;
+    color_code: string;
+  },
+  variant?: {
+    sku: string;
+    options: PrismaJson.VariantOptions;
+    image_urls: string[];
+    color_name: string | null;
+    color_code: string | null;
+  } | null,
+) {
+  return {
+    product_name: product.name,
+    product_slug: product.slug,
+    product_image_url: variant?.image_urls[0] ?? product.image_urls[0] ?? null,
+    product_material: product.material,
+    product_color_name: variant?.color_name ?? product.color_name,
+    product_color_code: variant?.color_code ?? product.color_code,
+    variant_sku: variant?.sku ?? null,
+    variant_name: variant ? getVariantName(variant.options) : null,
+  };
+}
+
+type OrderTransitionEffect =
+  | "RELEASE_STOCK"
+  | "RESERVE_STOCK"
+  | "RELEASE_COUPON"
+  | "RESTORE_COUPON"
+  | "ISSUE_INVOICE";
+
+// Every status change an order may go through. Steps back along the main
+// flow are allowed one at a time to correct mistakes.
+export const ORDER_TRANSITIONS: TransitionTable<
+  OrderStatus,
+  OrderTransitionEffect
+> = {
+  [OrderStatus.PENDING]: {
+    [OrderStatus.PROCESSING]: [],
+    [OrderStatus.PAID]: ["ISSUE_INVOICE"],
+    [OrderStatus.CANCELLED]: ["RELEASE_STOCK", "RELEASE_COUPON"],
+  },
+  [OrderStatus.PROCESSING]: {
+    [OrderStatus.PENDING]: [],
+    [OrderStatus.PAID]: ["ISSUE_INVOICE"],
+    [OrderStatus.CANCELLED]: ["RELEASE_STOCK", "RELEASE_COUPON"],
+  },
+  [OrderStatus.PAID]: {
+    [OrderStatus.PROCESSING]: [],
+    [OrderStatus.SHIPPED]: [],
+    [OrderStatus.CANCELLED]: ["RELEASE_STOCK", "RELEASE_COUPON"],
+    [OrderStatus.REFUNDED]: ["RELEASE_STOCK"],
+  },
+  [OrderStatus.SHIPPED]: {
+    [OrderStatus.PAID]: [],
+    [OrderStatus.DELIVERED]: [],
+    [OrderStatus.RETURNED]: ["RELEASE_STOCK"],
+  },
+  [OrderStatus.DELIVERED]: {
+    [OrderStatus.SHIPPED]: [],
+    [OrderStatus.RETURNED]: ["RELEASE_STOCK"],
+  },
+  [OrderStatus.CANCELLED]: {
+    [OrderStatus.PROCESSING]: ["RESERVE_STOCK", "RESTORE_COUPON"],
+    [OrderStatus.REFUNDED]: [],
+  },
+  [OrderStatus.RETURNED]: {
+    [OrderStatus.REFUNDED]: [],
+  },
+  [OrderStatus.REFUNDED]: {},
+};
+
+const ORDER_MAIN_FLOW: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.PROCESSING,
+  OrderStatus.PAID,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+type OrderTimestampField =
+  | "request_at"
+  | "approved_at"
+  | "paid_at"
+  | "shipped_at"
+  | "delivered_at"
+  | "cancelled_at"
+  | "returned_at"
+  | "refunded_at";
+
+const ORDER_TIMESTAMP_FIELDS: Record<OrderStatus, OrderTimestampField | null> =
+  {
+    [OrderStatus.PENDING]: "request_at",
+    [OrderStatus.PROCESSING]: "approved_at",
+    [OrderStatus.PAID]: "paid_at",
+    [OrderStatus.SHIPPED]: "shipped_at",
+    [OrderStatus.DELIVERED]: "delivered_at",
+    [OrderStatus.CANCELLED]: "cancelled_at",
+    [OrderStatus.RETURNED]: "returned_at",
+    [OrderStatus.REFUNDED]: "refunded_at",
+  };
+
+export interface OrderTransitionInput {
+  order_id: string;
+  from: OrderStatus;
+  to: OrderStatus;
+  actor_type: OrderStatusActor;
+  actor_id?: number | null;
+  note?: string | null;
+}
+
+// Move an order to a new status: validates the transition, stamps the
+// timestamp columns, runs its side effects and records it in the history.
+// May throw StatusTransitionError or InsufficientStockError.
+export async function transitionOrderStatus(
+  tx: TransactionClient,
+  input: OrderTransitionInput,
+): Promise<void> {
+  const effects = getTransitionEffects(
+    ORDER_TRANSITIONS,
+    "order",
+    input.from,
+    input.to,
+  );
+
+  const { count } = await tx.productOrder.updateMany({
+    where: { id: input.order_id, status: input.from },
+    data: {
+      status: input.to,
+      ...getFlowTimestampUpdates(
+        ORDER_MAIN_FLOW,
+        ORDER_TIMESTAMP_FIELDS,
+        input.from,
+        input.to,
+        new Date(),
+      ),
+    },
+  });
+
+  if (count === 0) {
+    throw new StatusTransitionError(
+      "STATUS_CONFLICT",
+      "Order status was changed by someone else, please reload",
+    );
+  }
+
+  const actor = { actor_type: input.actor_type, actor_id: input.actor_id };
+
+  for (const effect of effects) {
+    switch (effect) {
+      case "RELEASE_STOCK":
+        await releaseOrderStock(tx, input.order_id, actor);
+        break;
+      case "RESERVE_STOCK":
+        await reserveOrderStock(tx, input.order_id, actor);
+        break;
+      case "RELEASE_COUPON":
+        await releaseOrderCoupon(tx, input.order_id);
+        break;
+      case "RESTORE_COUPON":
+        await restoreOrderCoupon(tx, input.order_id);
+        break;
+      case "ISSUE_INVOICE":
+        await issueOrderInvoice(tx, input.order_id);
+        break;
+    }
+  }
+
+  await recordOrderStatusEvent(tx, {
+    order_id: input.order_id,
+    previous_status: input.from,
+    status: input.to,
+    actor_type: input.actor_type,
+    actor_id: input.actor_id,
+    note: input.note,
+  });
+}
@@ -0,0 +1,176 @@
+import { randomBytes } from "crypto";
+
+import { ENV, PAYMENT_PROVIDER, PAYMENT_WEBHOOK_SECRET } from "@/consts/env";
+import { transitionOrderStatus } from "@/lib/orders";
+import { ExtendedPrismaClient } from "@/lib/prisma";
+import { transitionRegistrationStatus } from "@/lib/registrations";
+import {
+  EventRegistrationStatus,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+} from "@/prisma/generated/client";
+
+import { MockPaymentProvider } from "./mock.provider";
+import { PaymentEvent, PaymentProvider } from "./provider";
+
+export * from "./provider";
+
+// Statuses in which an order or registration can still be paid for
+export const PAYABLE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.PROCESSING,
+];
+
+export const PAYABLE_REGISTRATION_STATUSES: EventRegistrationStatus[] = [
+  EventRegistrationStatus.PENDING,
+  EventRegistrationStatus.APPROVED,
+];
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+// Anyone holding the webhook secret can mark payments as paid through the
+// mock provider, so it is never available in production. Without a
+// configured secret only this process can sign its webhooks.
+if (ENV !== "production") {
+  registerPaymentProvider(
+    new MockPaymentProvider(
+      PAYMENT_WEBHOOK_SECRET || randomBytes(32).toString("hex"),
+    ),
+  );
+}
+
+// Checked at startup so a misconfigured deploy fails before taking orders
+if (!providers.has(PAYMENT_PROVIDER)) {
+  throw new Error(`Payment provider "${PAYMENT_PROVIDER}" is not registered`);
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  return providers.get(name) ?? null;
+}
+
+// Provider used for new payments, selected by PAYMENT_PROVIDER
+export function getActivePaymentProvider(): PaymentProvider {
+  const provider = getPaymentProvider(PAYMENT_PROVIDER);
+  if (!provider) {
+    throw new Error(`Payment provider "${PAYMENT_PROVIDER}" is not registered`);
+  }
+  return provider;
+}
+
+// Apply a verified provider event to the payment and what it pays for.
+// Providers retry webhooks, so events for settled payments are ignored.
+export async function applyPaymentEvent(
+  prisma: ExtendedPrismaClient,
+  providerName: string,
+  event: PaymentEvent,
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findUnique({
+      where: {
+        provider_provider_payment_id: {
+          provider: providerName,
+          provider_payment_id: event.provider_payment_id,
+        },
+      },
+      select: {
+        id: true,
+        amount: true,
+        order_id: true,
+        registration_id: true,
+      },
+    });
+
+    if (!payment) return;
+
+    const now = new Date();
+
+    if (event.type === "payment.failed") {
+      await tx.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
+        data: {
+          status: PaymentStatus.FAILED,
+          failure_reason: event.failure_reason,
+        },
+      });
+      return;
+    }
+
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { not: PaymentStatus.SUCCEEDED } },
+      data: {
+        status: PaymentStatus.SUCCEEDED,
+        failure_reason: null,
+        paid_at: now,
+      },
+    });
+
+    if (count === 0) return;
+
+    // An order cancelled while the customer was paying keeps its status,
+    // the succeeded payment stays on record for a refund
+    if (payment.order_id) {
+      const order = await tx.productOrder.findUnique({
+        where: { id: payment.order_id },
+        select: { status: true, total: true },
+      });
+
+      // The total can be edited by an admin after the payment was started,
+      // the order stays unpaid until someone settles the difference
+      if (order && order.total !== payment.amount) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            review_reason: `Paid ${payment.amount} but the order total is ${order.total}`,
+          },
+        });
+        return;
+      }
+
+      if (order && PAYABLE_ORDER_STATUSES.includes(order.status)) {
+        await transitionOrderStatus(tx, {
+          order_id: payment.order_id,
+          from: order.status,
+          to: OrderStatus.PAID,
+          actor_type: OrderStatusActor.SYSTEM,
+          note: `Payment received via ${providerName}`,
+        });
+      }
+    }
+
+    if (payment.registration_id) {
+      const registration = await tx.eventRegistration.findUnique({
+        where: { id: payment.registration_id },
+        select: { status: true, price: true, discount: true },
+      });
+
+      const due = registration
+        ? registration.price - registration.discount
+        : payment.amount;
+      if (due !== payment.amount) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            review_reason: `Paid ${payment.amount} but the registration total is ${due}`,
+          },
+        });
+        return;
+      }
+
+      if (
+        registration &&
+        PAYABLE_REGISTRATION_STATUSES.includes(registration.status)
+      ) {
+        await transitionRegistrationStatus(tx, {
+          registration_id: payment.registration_id,
+          from: registration.status,
+          to: EventRegistrationStatus.PAID,
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { IncomingHttpHeaders } from "http";
+
+import {
+  CreatePaymentIntentParams,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentSignatureError,
+} from "./provider";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+// Local provider that never talks to a real gateway. Payments are completed
+// by POSTing a signed event (see createMockWebhook) to the webhook route.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  constructor(private readonly secret: string) {}
+
+  async createPaymentIntent(
+    params: CreatePaymentIntentParams,
+  ): Promise<PaymentIntent> {
+    const providerPaymentId = `mock_pi_${params.payment_id}_${randomBytes(4).toString("hex")}`;
+
+    return {
+      provider_payment_id: providerPaymentId,
+      client_secret: `${providerPaymentId}_secret_${randomBytes(8).toString("hex")}`,
+      checkout_url: null,
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const signature = headers[MOCK_SIGNATURE_HEADER];
+    if (typeof signature !== "string") {
+      throw new PaymentSignatureError("Missing webhook signature");
+    }
+
+    const expected = Buffer.from(this.sign(rawBody));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new PaymentSignatureError();
+    }
+
+    const payload = JSON.parse(rawBody.toString("utf8")) as {
+      type?: string;
+      payment_id?: string;
+      failure_reason?: string | null;
+    };
+
+    if (
+      (payload.type !== "payment.succeeded" &&
+        payload.type !== "payment.failed") ||
+      !payload.payment_id
+    ) {
+      throw new PaymentSignatureError("Malformed webhook payload");
+    }
+
+    return {
+      type: payload.type,
+      provider_payment_id: payload.payment_id,
+      failure_reason: payload.failure_reason ?? null,
+    };
+  }
+
+  sign(rawBody: Buffer | string): string {
+    return createHmac("sha256", this.secret).update(rawBody).digest("hex");
+  }
+
+  // Build a signed webhook request body, for tests and local checkout runs
+  createMockWebhook(
+    providerPaymentId: string,
+    type: PaymentEventType = "payment.succeeded",
+    failureReason: string | null = null,
+  ): { body: string; headers: Record<string, string> } {
+    const body = JSON.stringify({
+      type,
+      payment_id: providerPaymentId,
+      failure_reason: failureReason,
+    });
+
+    return {
+      body,
+      headers: {
+        "content-type": "application/json",
+        [MOCK_SIGNATURE_HEADER]: this.sign(body),
+      },
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { IncomingHttpHeaders } from "http";
+
+export interface CreatePaymentIntentParams {
+  payment_id: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customer_email: string;
+}
+
+export interface PaymentIntent {
+  provider_payment_id: string;
+  // Passed to the provider's client SDK to complete the payment
+  client_secret: string | null;
+  // Hosted payment page, for providers that redirect instead
+  checkout_url: string | null;
+}
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed";
+
+export interface PaymentEvent {
+  type: PaymentEventType;
+  provider_payment_id: string;
+  failure_reason: string | null;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  createPaymentIntent(
+    params: CreatePaymentIntentParams,
+  ): Promise<PaymentIntent>;
+
+  // Verify the webhook signature and parse the event.
+  // Throws PaymentSignatureError when the payload cannot be trusted.
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
+
+export class PaymentSignatureError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "PaymentSignatureError";
+  }
+}
@@ -0,0 +1,43 @@
+import { NextFunction, Request, Response } from "express";
+
+import { prisma } from "@/lib/prisma";
+
+import { applyPaymentEvent, getPaymentProvider } from "./index";
+import { PaymentSignatureError } from "./provider";
+
+// Raw request payload kept by the JSON body parser for signature checks
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+export const paymentWebhookHandler = async (
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction,
+) => {
+  const provider = getPaymentProvider(String(req.params["provider"]));
+  if (!provider) {
+    res.status(404).json({ success: false, message: "Unknown provider" });
+    return;
+  }
+
+  if (!req.rawBody) {
+    res.status(400).json({ success: false, message: "Missing payload" });
+    return;
+  }
+
+  try {
+    const event = provider.parseWebhook(req.rawBody, req.headers);
+    await applyPaymentEvent(prisma, provider.name, event);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    if (
+      error instanceof PaymentSignatureError ||
+      error instanceof SyntaxError
+    ) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,111 @@
+import { checkCouponUserLimit, evaluateCoupon } from "@/lib/coupons";
+import { getIncludedTax } from "@/lib/invoices";
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import {
+  ShippingCalculation,
+  ShippingDestination,
+  calculateShipping,
+  getShippingRates,
+} from "@/lib/shipping";
+import { Coupon } from "@/prisma/generated/client";
+
+export interface PricingLine {
+  product_id: number;
+  price: number;
+  quantity: number;
+  weight_grams: number;
+  material: string;
+  categories: string[];
+  gst_rate: number;
+}
+
+export interface OrderPricing {
+  subtotal: number;
+  // Null when no destination is known yet, the fee is then left out
+  shipping: ShippingCalculation | null;
+  shipping_fee: number;
+  coupon_discount: number;
+  // Why the coupon gives no discount, the order total excludes it
+  coupon_error: string | null;
+  // Discount per line, by index into the priced lines
+  line_discounts: Map<number, number>;
+  // GST included in the total, in rupees with paise precision
+  tax: number;
+  total: number;
+}
+
+// Shared by checkout and the checkout preview so the preview shows exactly
+// what createOrder charges
+export async function priceOrder(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  input: {
+    // Null for guests, who cannot apply coupons
+    user_id: number | null;
+    lines: PricingLine[];
+    coupon: Coupon | null;
+    destination: ShippingDestination | null;
+  },
+): Promise<OrderPricing> {
+  const { lines, coupon, destination } = input;
+
+  const subtotal = lines.reduce(
+    (sum, line) => sum + line.price * line.quantity,
+    0,
+  );
+
+  // Shipping is always priced by the server
+  const shipping = destination
+    ? calculateShipping(
+        await getShippingRates(prisma),
+        destination,
+        lines.map((line) => ({
+          quantity: line.quantity,
+          weight_grams: line.weight_grams,
+        })),
+        subtotal,
+      )
+    : null;
+  const shippingFee = shipping?.fee ?? 0;
+
+  // Coupon discount is spread over the eligible items like admin discounts
+  let lineDiscounts = new Map<number, number>();
+  let couponDiscount = 0;
+  let couponError: string | null = null;
+  if (coupon && input.user_id !== null) {
+    const evaluation = evaluateCoupon(coupon, lines);
+    couponError =
+      evaluation.error ??
+      (await checkCouponUserLimit(prisma, coupon, input.user_id));
+
+    if (!couponError) {
+      lineDiscounts = evaluation.line_discounts;
+      couponDiscount = evaluation.discount;
+    }
+  }
+
+  // Same split as the invoice, shipping follows the highest item rate
+  const itemTax = lines.reduce(
+    (sum, line, index) =>
+      sum +
+      getIncludedTax(
+        (line.price * line.quantity - (lineDiscounts.get(index) ?? 0)) * 100,
+        line.gst_rate,
+      ),
+    0,
+  );
+  const shippingTax = getIncludedTax(
+    shippingFee * 100,
+    Math.max(0, ...lines.map((line) => line.gst_rate)),
+  );
+
+  return {
+    subtotal,
+    shipping,
+    shipping_fee: shippingFee,
+    coupon_discount: couponDiscount,
+    coupon_error: couponError,
+    line_discounts: lineDiscounts,
+    tax: (itemTax + shippingTax) / 100,
+    total: Math.max(0, subtotal + shippingFee - couponDiscount),
+  };
+}
@@ -24,3 +24,8 @@ export const prisma = new PrismaClient({ adapter: mainAdapter }).$extends(
 );
 
 export type ExtendedPrismaClient = typeof prisma;
+
+// Client handed to interactive $transaction callbacks
+export type TransactionClient = Parameters<
+  Parameters<ExtendedPrismaClient["$transaction"]>[0]
+>[0];
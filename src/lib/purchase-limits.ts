@@ -0,0 +1,209 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { getLineKey } from "@/lib/variants";
+import { OrderStatus } from "@/prisma/generated/client";
+
+export interface PurchaseLimits {
+  max_per_order: number | null;
+  max_per_customer: number | null;
+  quantity_step: number | null;
+}
+
+export interface PurchaseLimitLine {
+  product_id: number;
+  quantity: number;
+  product: PurchaseLimits & { name: string };
+}
+
+export interface CartLimitLine {
+  product_id: number;
+  variant_id: number | null;
+  quantity: number;
+  saved_for_later: boolean;
+}
+
+export interface CartLineLimiter {
+  // Largest quantity up to the given one the line can have in the cart
+  cap(productId: number, variantId: number | null, quantity: number): number;
+  // Record the quantity the line was given
+  set(productId: number, variantId: number | null, quantity: number): void;
+}
+
+export const PURCHASE_LIMITS_SELECT = {
+  name: true,
+  max_per_order: true,
+  max_per_customer: true,
+  quantity_step: true,
+} as const;
+
+// Orders that never went through do not count towards max_per_customer
+const UNCOUNTED_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.CANCELLED,
+  OrderStatus.REFUNDED,
+];
+
+// Admin input check, every limit is optional but must be positive when set
+export function validatePurchaseLimits(
+  limits: Partial<PurchaseLimits>,
+): string | null {
+  const fields: [keyof PurchaseLimits, string][] = [
+    ["max_per_order", "Max per order"],
+    ["max_per_customer", "Max per customer"],
+    ["quantity_step", "Quantity step"],
+  ];
+
+  for (const [field, label] of fields) {
+    const value = limits[field];
+    if (value !== undefined && value !== null && value < 1) {
+      return `${label} must be at least 1`;
+    }
+  }
+
+  return null;
+}
+
+// Quantity of each product the user already bought, returned items excluded
+async function getPurchasedQuantities(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  userId: number,
+  productIds: number[],
+  excludeOrderId?: string,
+): Promise<Map<number, number>> {
+  const purchased = await prisma.purchasedProductItem.groupBy({
+    by: ["product_id"],
+    where: {
+      product_id: { in: productIds },
+      order: {
+        user_id: userId,
+        status: { notIn: UNCOUNTED_ORDER_STATUSES },
+        ...(excludeOrderId ? { id: { not: excludeOrderId } } : {}),
+      },
+    },
+    _sum: { quantity: true, returned_quantity: true },
+  });
+
+  return new Map(
+    purchased.map((p) => [
+      p.product_id,
+      (p._sum.quantity ?? 0) - (p._sum.returned_quantity ?? 0),
+    ]),
+  );
+}
+
+// For paths that fill a user's cart without the customer choosing the
+// quantities, so checkout does not refuse the cart afterwards. Starts from
+// the user's cart lines for the products, saved lines do not count.
+export async function createCartLineLimiter(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  userId: number,
+  limits: Map<number, PurchaseLimits>,
+  cartLines: CartLimitLine[],
+): Promise<CartLineLimiter> {
+  const purchased = await getPurchasedQuantities(prisma, userId, [
+    ...limits.keys(),
+  ]);
+
+  const active = new Map<string, { product_id: number; quantity: number }>();
+  for (const line of cartLines) {
+    if (line.saved_for_later) continue;
+    active.set(getLineKey(line.product_id, line.variant_id), line);
+  }
+
+  return {
+    cap(productId, variantId, quantity) {
+      const product = limits.get(productId);
+      if (!product) return quantity;
+
+      const key = getLineKey(productId, variantId);
+      let others = 0;
+      for (const [lineKey, line] of active) {
+        if (line.product_id === productId && lineKey !== key) {
+          others += line.quantity;
+        }
+      }
+
+      let total = others + quantity;
+      if (product.max_per_order) {
+        total = Math.min(total, product.max_per_order);
+      }
+      if (product.max_per_customer) {
+        total = Math.min(
+          total,
+          product.max_per_customer - (purchased.get(productId) ?? 0),
+        );
+      }
+      if (product.quantity_step) {
+        total -= total % product.quantity_step;
+      }
+
+      return Math.max(0, Math.min(quantity, total - others));
+    },
+    set(productId, variantId, quantity) {
+      active.set(getLineKey(productId, variantId), {
+        product_id: productId,
+        quantity,
+      });
+    },
+  };
+}
+
+function getLimitError(line: PurchaseLimitLine, purchased: number) {
+  const { name, max_per_order, max_per_customer, quantity_step } = line.product;
+
+  if (quantity_step && line.quantity % quantity_step !== 0) {
+    return `${name} is sold in sets of ${quantity_step}`;
+  }
+
+  if (max_per_order && line.quantity > max_per_order) {
+    return `${name} is limited to ${max_per_order} per order`;
+  }
+
+  if (max_per_customer && purchased + line.quantity > max_per_customer) {
+    const remaining = Math.max(0, max_per_customer - purchased);
+    return remaining === 0
+      ? `${name} is limited to ${max_per_customer} per customer and you have already bought ${purchased}`
+      : `${name} is limited to ${max_per_customer} per customer, you can buy ${remaining} more`;
+  }
+
+  return null;
+}
+
+// Check the quantity on every line against the product's purchase limits.
+// Lines for variants of the same product count together. Returns the first
+// violation as a message for the customer, or null. Without a user only the
+// per order rules can be checked.
+export async function checkPurchaseLimits(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  userId: number | null,
+  lines: PurchaseLimitLine[],
+  excludeOrderId?: string,
+): Promise<string | null> {
+  const combined = new Map<number, PurchaseLimitLine>();
+  for (const line of lines) {
+    const existing = combined.get(line.product_id);
+    combined.set(line.product_id, {
+      ...line,
+      quantity: (existing?.quantity ?? 0) + line.quantity,
+    });
+  }
+
+  const customerLimited = [...combined.values()]
+    .filter((line) => line.product.max_per_customer)
+    .map((line) => line.product_id);
+
+  const purchased =
+    userId && customerLimited.length > 0
+      ? await getPurchasedQuantities(
+          prisma,
+          userId,
+          customerLimited,
+          excludeOrderId,
+        )
+      : new Map<number, number>();
+
+  for (const line of combined.values()) {
+    const error = getLimitError(line, purchased.get(line.product_id) ?? 0);
+    if (error) return error;
+  }
+
+  return null;
+}
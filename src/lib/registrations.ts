@@ -0,0 +1,177 @@
+import { TransactionClient } from "@/lib/prisma";
+import {
+  StatusTransitionError,
+  TransitionTable,
+  getFlowTimestampUpdates,
+  getTransitionEffects,
+} from "@/lib/status-machine";
+import { EventRegistrationStatus } from "@/prisma/generated/client";
+
+export class InsufficientSeatsError extends Error {
+  constructor(
+    public readonly requested: number,
+    public readonly available: number,
+  ) {
+    super(
+      `Not enough seats available (requested ${requested}, available ${available})`,
+    );
+    this.name = "InsufficientSeatsError";
+  }
+}
+
+type RegistrationTransitionEffect = "RELEASE_SEATS" | "RESERVE_SEATS";
+
+// Statuses in which a registration holds its seats out of the event
+export const SEAT_HOLDING_STATUSES: EventRegistrationStatus[] = [
+  EventRegistrationStatus.PENDING,
+  EventRegistrationStatus.APPROVED,
+  EventRegistrationStatus.PAID,
+  EventRegistrationStatus.CONFIRMED,
+];
+
+// Seats are held from the moment a registration is requested, so only
+// rejected and cancelled registrations give them back
+export const REGISTRATION_TRANSITIONS: TransitionTable<
+  EventRegistrationStatus,
+  RegistrationTransitionEffect
+> = {
+  [EventRegistrationStatus.PENDING]: {
+    [EventRegistrationStatus.APPROVED]: [],
+    [EventRegistrationStatus.PAID]: [],
+    [EventRegistrationStatus.REJECTED]: ["RELEASE_SEATS"],
+    [EventRegistrationStatus.CANCELLED]: ["RELEASE_SEATS"],
+  },
+  [EventRegistrationStatus.APPROVED]: {
+    [EventRegistrationStatus.PENDING]: [],
+    [EventRegistrationStatus.PAID]: [],
+    [EventRegistrationStatus.REJECTED]: ["RELEASE_SEATS"],
+    [EventRegistrationStatus.CANCELLED]: ["RELEASE_SEATS"],
+  },
+  [EventRegistrationStatus.PAID]: {
+    [EventRegistrationStatus.APPROVED]: [],
+    [EventRegistrationStatus.CONFIRMED]: [],
+    [EventRegistrationStatus.CANCELLED]: ["RELEASE_SEATS"],
+  },
+  [EventRegistrationStatus.CONFIRMED]: {
+    [EventRegistrationStatus.PAID]: [],
+    [EventRegistrationStatus.CANCELLED]: ["RELEASE_SEATS"],
+  },
+  [EventRegistrationStatus.REJECTED]: {
+    [EventRegistrationStatus.PENDING]: ["RESERVE_SEATS"],
+    [EventRegistrationStatus.APPROVED]: ["RESERVE_SEATS"],
+  },
+  [EventRegistrationStatus.CANCELLED]: {
+    [EventRegistrationStatus.PENDING]: ["RESERVE_SEATS"],
+  },
+};
+
+const REGISTRATION_MAIN_FLOW: EventRegistrationStatus[] = [
+  EventRegistrationStatus.PENDING,
+  EventRegistrationStatus.APPROVED,
+  EventRegistrationStatus.PAID,
+  EventRegistrationStatus.CONFIRMED,
+];
+
+type RegistrationTimestampField =
+  | "request_at"
+  | "approved_at"
+  | "paid_at"
+  | "confirmed_at"
+  | "cancelled_at";
+
+const REGISTRATION_TIMESTAMP_FIELDS: Record<
+  EventRegistrationStatus,
+  RegistrationTimestampField | null
+> = {
+  [EventRegistrationStatus.PENDING]: "request_at",
+  [EventRegistrationStatus.APPROVED]: "approved_at",
+  [EventRegistrationStatus.REJECTED]: null,
+  [EventRegistrationStatus.PAID]: "paid_at",
+  [EventRegistrationStatus.CONFIRMED]: "confirmed_at",
+  [EventRegistrationStatus.CANCELLED]: "cancelled_at",
+};
+
+export interface RegistrationTransitionInput {
+  registration_id: string;
+  from: EventRegistrationStatus;
+  to: EventRegistrationStatus;
+}
+
+// Move a registration to a new status: validates the transition, stamps
+// the timestamp columns and releases or re-reserves its seats.
+// May throw StatusTransitionError or InsufficientSeatsError.
+export async function transitionRegistrationStatus(
+  tx: TransactionClient,
+  input: RegistrationTransitionInput,
+): Promise<void> {
+  const effects = getTransitionEffects(
+    REGISTRATION_TRANSITIONS,
+    "registration",
+    input.from,
+    input.to,
+  );
+
+  const { count } = await tx.eventRegistration.updateMany({
+    where: { id: input.registration_id, status: input.from },
+    data: {
+      status: input.to,
+      ...getFlowTimestampUpdates(
+        REGISTRATION_MAIN_FLOW,
+        REGISTRATION_TIMESTAMP_FIELDS,
+        input.from,
+        input.to,
+        new Date(),
+      ),
+    },
+  });
+
+  if (count === 0) {
+    throw new StatusTransitionError(
+      "STATUS_CONFLICT",
+      "Registration status was changed by someone else, please reload",
+    );
+  }
+
+  if (effects.length === 0) return;
+
+  const registration = await tx.eventRegistration.findUniqueOrThrow({
+    where: { id: input.registration_id },
+    select: { event_id: true, seats_reserved: true },
+  });
+
+  for (const effect of effects) {
+    switch (effect) {
+      case "RELEASE_SEATS":
+        await tx.event.update({
+          where: { id: registration.event_id },
+          data: {
+            available_seats: { increment: registration.seats_reserved },
+          },
+        });
+        break;
+      case "RESERVE_SEATS": {
+        const { count: reserved } = await tx.event.updateMany({
+          where: {
+            id: registration.event_id,
+            available_seats: { gte: registration.seats_reserved },
+          },
+          data: {
+            available_seats: { decrement: registration.seats_reserved },
+          },
+        });
+
+        if (reserved === 0) {
+          const event = await tx.event.findUnique({
+            where: { id: registration.event_id },
+            select: { available_seats: true },
+          });
+          throw new InsufficientSeatsError(
+            registration.seats_reserved,
+            Math.max(0, event?.available_seats ?? 0),
+          );
+        }
+        break;
+      }
+    }
+  }
+}
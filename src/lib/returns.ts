@@ -0,0 +1,325 @@
+import { transitionOrderStatus } from "@/lib/orders";
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import {
+  StatusTransitionError,
+  TransitionTable,
+  getTransitionEffects,
+} from "@/lib/status-machine";
+import { releaseStock } from "@/lib/stock";
+import {
+  OrderStatus,
+  OrderStatusActor,
+  ReturnRequestStatus,
+  StockMovementType,
+} from "@/prisma/generated/client";
+
+export const RETURN_SETTINGS_KEY = "return_settings";
+
+export const DEFAULT_RETURN_SETTINGS: PrismaJson.ReturnSettings = {
+  window_days: 7,
+};
+
+export class ReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnError";
+  }
+}
+
+export async function getReturnSettings(
+  prisma: ExtendedPrismaClient | TransactionClient,
+): Promise<PrismaJson.ReturnSettings> {
+  const setting = await prisma.siteSetting.findUnique({
+    where: { key: RETURN_SETTINGS_KEY },
+  });
+
+  if (setting && typeof setting.value === "object" && setting.value !== null) {
+    return {
+      ...DEFAULT_RETURN_SETTINGS,
+      ...(setting.value as PrismaJson.ReturnSettings),
+    };
+  }
+
+  return DEFAULT_RETURN_SETTINGS;
+}
+
+export const RETURN_TRANSITIONS: TransitionTable<ReturnRequestStatus, never> = {
+  [ReturnRequestStatus.REQUESTED]: {
+    [ReturnRequestStatus.APPROVED]: [],
+    [ReturnRequestStatus.REJECTED]: [],
+  },
+  [ReturnRequestStatus.APPROVED]: {
+    [ReturnRequestStatus.RECEIVED]: [],
+    [ReturnRequestStatus.REJECTED]: [],
+  },
+  [ReturnRequestStatus.REJECTED]: {},
+  [ReturnRequestStatus.RECEIVED]: {
+    [ReturnRequestStatus.REFUNDED]: [],
+  },
+  [ReturnRequestStatus.REFUNDED]: {},
+};
+
+const RETURN_TIMESTAMP_FIELDS: Record<
+  ReturnRequestStatus,
+  "approved_at" | "rejected_at" | "received_at" | "refunded_at" | null
+> = {
+  [ReturnRequestStatus.REQUESTED]: null,
+  [ReturnRequestStatus.APPROVED]: "approved_at",
+  [ReturnRequestStatus.REJECTED]: "rejected_at",
+  [ReturnRequestStatus.RECEIVED]: "received_at",
+  [ReturnRequestStatus.REFUNDED]: "refunded_at",
+};
+
+// Returns that are not finished yet and still block the order's refund
+const OPEN_RETURN_STATUSES: ReturnRequestStatus[] = [
+  ReturnRequestStatus.REQUESTED,
+  ReturnRequestStatus.APPROVED,
+  ReturnRequestStatus.RECEIVED,
+];
+
+// Quantity of each order line that can still be requested for return,
+// keyed by order item id. Rejected requests give their quantity back.
+export async function getReturnableQuantities(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  orderId: string,
+): Promise<Map<number, number>> {
+  const items = await prisma.purchasedProductItem.findMany({
+    where: { order_id: orderId },
+    select: {
+      id: true,
+      quantity: true,
+      return_items: {
+        where: {
+          return_request: { status: { not: ReturnRequestStatus.REJECTED } },
+        },
+        select: { quantity: true },
+      },
+    },
+  });
+
+  return new Map(
+    items.map((item) => [
+      item.id,
+      item.quantity - item.return_items.reduce((sum, r) => sum + r.quantity, 0),
+    ]),
+  );
+}
+
+// Largest refund for returning part of an order line, net of its discount
+export function getLineRefundAmount(
+  item: { price: number; quantity: number; discount: number },
+  quantity: number,
+): number {
+  if (item.quantity <= 0) return 0;
+  return Math.max(
+    0,
+    Math.floor(
+      ((item.price * item.quantity - item.discount) * quantity) / item.quantity,
+    ),
+  );
+}
+
+export async function transitionReturnStatus(
+  tx: TransactionClient,
+  input: {
+    return_id: string;
+    from: ReturnRequestStatus;
+    to: ReturnRequestStatus;
+    admin_note?: string | null;
+  },
+): Promise<void> {
+  getTransitionEffects(RETURN_TRANSITIONS, "return", input.from, input.to);
+
+  const field = RETURN_TIMESTAMP_FIELDS[input.to];
+  const note = input.admin_note?.trim();
+
+  const { count } = await tx.returnRequest.updateMany({
+    where: { id: input.return_id, status: input.from },
+    data: {
+      status: input.to,
+      ...(field && { [field]: new Date() }),
+      ...(note && { admin_note: note }),
+    },
+  });
+
+  if (count === 0) {
+    throw new StatusTransitionError(
+      "STATUS_CONFLICT",
+      "Return status was changed by someone else, please reload",
+    );
+  }
+}
+
+// Mark an approved return as received: the items go back into stock, and
+// once every item of the order has come back the order becomes RETURNED
+export async function receiveReturn(
+  tx: TransactionClient,
+  returnId: string,
+  actorId: number | null,
+  note?: string | null,
+): Promise<void> {
+  const request = await tx.returnRequest.findUniqueOrThrow({
+    where: { id: returnId },
+    select: {
+      status: true,
+      order_id: true,
+      items: {
+        select: {
+          order_item_id: true,
+          quantity: true,
+          order_item: {
+            select: {
+              product_id: true,
+              variant_id: true,
+              fulfilment_mode: true,
+              bundle_components: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  await transitionReturnStatus(tx, {
+    return_id: returnId,
+    from: request.status,
+    to: ReturnRequestStatus.RECEIVED,
+    admin_note: note,
+  });
+
+  for (const item of request.items) {
+    await tx.purchasedProductItem.update({
+      where: { id: item.order_item_id },
+      data: { returned_quantity: { increment: item.quantity } },
+    });
+  }
+
+  const order = await tx.productOrder.findUniqueOrThrow({
+    where: { id: request.order_id },
+    select: {
+      status: true,
+      stock_reserved: true,
+      ordered_products: {
+        select: { quantity: true, returned_quantity: true },
+      },
+    },
+  });
+
+  if (order.stock_reserved) {
+    await releaseStock(
+      tx,
+      request.items.map((item) => ({
+        product_id: item.order_item.product_id,
+        variant_id: item.order_item.variant_id,
+        quantity: item.quantity,
+        fulfilment_mode: item.order_item.fulfilment_mode,
+        bundle_components: item.order_item.bundle_components,
+      })),
+      {
+        type: StockMovementType.RETURN,
+        actor_type: OrderStatusActor.ADMIN,
+        actor_id: actorId,
+        order_id: request.order_id,
+      },
+    );
+  }
+
+  const fullyReturned = order.ordered_products.every(
+    (item) => item.returned_quantity >= item.quantity,
+  );
+
+  if (fullyReturned && order.status === OrderStatus.DELIVERED) {
+    await transitionOrderStatus(tx, {
+      order_id: request.order_id,
+      from: order.status,
+      to: OrderStatus.RETURNED,
+      actor_type: OrderStatusActor.ADMIN,
+      actor_id: actorId,
+      note: "All items returned",
+    });
+  }
+}
+
+// Record per-item refunds for a received return. Amounts default to the
+// full net price of the returned quantity and may not exceed it. Once the
+// last open return of a fully returned order is refunded, so is the order.
+export async function refundReturn(
+  tx: TransactionClient,
+  returnId: string,
+  amounts: Map<number, number> | null,
+  actorId: number | null,
+  note?: string | null,
+): Promise<number> {
+  const request = await tx.returnRequest.findUniqueOrThrow({
+    where: { id: returnId },
+    select: {
+      status: true,
+      order_id: true,
+      items: {
+        select: {
+          order_item_id: true,
+          quantity: true,
+          order_item: {
+            select: { price: true, quantity: true, discount: true },
+          },
+        },
+      },
+    },
+  });
+
+  const refunds = request.items.map((item) => {
+    const maxAmount = getLineRefundAmount(item.order_item, item.quantity);
+    const amount = amounts?.get(item.order_item_id) ?? maxAmount;
+
+    if (amount < 0 || amount > maxAmount) {
+      throw new ReturnError(
+        `Refund for item ${item.order_item_id} must be between 0 and ${maxAmount}`,
+      );
+    }
+
+    return {
+      order_id: request.order_id,
+      order_item_id: item.order_item_id,
+      return_request_id: returnId,
+      quantity: item.quantity,
+      amount,
+      note: note?.trim() || null,
+      created_by_id: actorId,
+    };
+  });
+
+  await transitionReturnStatus(tx, {
+    return_id: returnId,
+    from: request.status,
+    to: ReturnRequestStatus.REFUNDED,
+    admin_note: note,
+  });
+
+  await tx.refund.createMany({ data: refunds });
+
+  const [order, openReturns] = await Promise.all([
+    tx.productOrder.findUniqueOrThrow({
+      where: { id: request.order_id },
+      select: { status: true },
+    }),
+    tx.returnRequest.count({
+      where: {
+        order_id: request.order_id,
+        status: { in: OPEN_RETURN_STATUSES },
+      },
+    }),
+  ]);
+
+  if (order.status === OrderStatus.RETURNED && openReturns === 0) {
+    await transitionOrderStatus(tx, {
+      order_id: request.order_id,
+      from: order.status,
+      to: OrderStatus.REFUNDED,
+      actor_type: OrderStatusActor.ADMIN,
+      actor_id: actorId,
+      note: "Returned items refunded",
+    });
+  }
+
+  return refunds.reduce((sum, refund) => sum + refund.amount, 0);
+}
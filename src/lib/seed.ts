@@ -3,10 +3,13 @@ import {
   EventLevel,
   EventStatus,
   OrderStatus,
+  OrderStatusActor,
+  StockMovementType,
   UserRole,
 } from "@/prisma/generated/client";
 
 import { PEXELS_API_KEY } from "../consts/env";
+import { getProductSnapshot } from "./orders";
 import { prisma } from "./prisma";
 
 if (!PEXELS_API_KEY) {
@@ -324,7 +327,28 @@ async function main() {
       console.log(`Inserted products: ${createdProducts.count}`);
 
       const dbProducts = await prisma.product.findMany({
-        select: { id: true },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          price: true,
+          image_urls: true,
+          material: true,
+          color_name: true,
+          color_code: true,
+          available_quantity: true,
+        },
+      });
+
+      // Opening balance so the stock ledger adds up
+      await prisma.stockMovement.createMany({
+        data: dbProducts.map((p) => ({
+          product_id: p.id,
+          type: StockMovementType.MANUAL_ADJUSTMENT,
+          quantity: p.available_quantity,
+          actor_type: OrderStatusActor.SYSTEM,
+          reason: "Opening balance",
+        })),
       });
 
       // -----------------------------
@@ -617,8 +641,13 @@ async function main() {
       });
       console.log(`Inserted wishlists: ${createdWishlists.count}`);
 
+      const productPrices = new Map(dbProducts.map((p) => [p.id, p.price]));
       const createdCarts = await prisma.cart.createMany({
-        data: cartPairs.map((x) => ({ ...x, quantity: randInt(1, 5) })),
+        data: cartPairs.map((x) => ({
+          ...x,
+          quantity: randInt(1, 5),
+          price_when_added: productPrices.get(x.product_id) ?? 0,
+        })),
       });
       console.log(`Inserted carts: ${createdCarts.count}`);
 
@@ -692,17 +721,18 @@ async function main() {
         if (purchasedCount < CAPPED_N) {
           let tries = 0;
           while (tries++ < 50) {
-            const prod = pick(dbProducts).id;
-            const key = `${order.id}::${prod}`;
+            const prod = pick(dbProducts);
+            const key = `${order.id}::${prod.id}`;
             if (purchasedItemSet.has(key)) continue;
             purchasedItemSet.add(key);
 
             await prisma.purchasedProductItem.create({
               data: {
                 order_id: order.id,
-                product_id: prod,
+                product_id: prod.id,
                 quantity: randInt(1, 4),
                 price: randInt(299, 4999),
+                ...getProductSnapshot(prod),
               },
             });
             purchasedCount++;
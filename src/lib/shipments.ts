@@ -0,0 +1,187 @@
+import { transitionOrderStatus } from "@/lib/orders";
+import { TransactionClient } from "@/lib/prisma";
+import {
+  OrderStatus,
+  OrderStatusActor,
+  ShipmentTrackingStatus,
+} from "@/prisma/generated/client";
+
+export interface ShipmentItemInput {
+  order_item_id: number;
+  quantity: number;
+}
+
+export interface ShipOrderInput {
+  order_id: string;
+  carrier: string;
+  tracking_number: string;
+  tracking_url?: string | null;
+  // Leave empty to ship every remaining item of the order
+  items?: ShipmentItemInput[] | null;
+  actor_id?: number | null;
+  note?: string | null;
+}
+
+export interface TrackingEventInput {
+  status: ShipmentTrackingStatus;
+  description?: string | null;
+  location?: string | null;
+  occurred_at?: Date | null;
+}
+
+export class ShipmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShipmentError";
+  }
+}
+
+export function validateTrackingUrl(url: string): string | null {
+  try {
+    const { protocol } = new URL(url);
+    if (protocol === "http:" || protocol === "https:") return null;
+  } catch {
+    // Fall through to the error below
+  }
+  return "Tracking URL must be a valid http(s) link";
+}
+
+// Quantity of each order line not yet packed in a shipment, keyed by order
+// item id. A shipment without items counts as holding the whole order.
+async function getUnshippedQuantities(
+  tx: TransactionClient,
+  orderId: string,
+): Promise<Map<number, number>> {
+  const [items, shipments] = await Promise.all([
+    tx.purchasedProductItem.findMany({
+      where: { order_id: orderId },
+      select: {
+        id: true,
+        quantity: true,
+        shipment_items: { select: { quantity: true } },
+      },
+    }),
+    tx.shipment.findMany({
+      where: { order_id: orderId },
+      select: { _count: { select: { items: true } } },
+    }),
+  ]);
+
+  const shippedWhole = shipments.some((s) => s._count.items === 0);
+
+  return new Map(
+    items.map((item) => [
+      item.id,
+      shippedWhole
+        ? 0
+        : item.quantity -
+          item.shipment_items.reduce((sum, s) => sum + s.quantity, 0),
+    ]),
+  );
+}
+
+// Attach a shipment to an order. The first shipment moves the order to
+// SHIPPED; later ones are split deliveries of the remaining items.
+export async function shipOrder(
+  tx: TransactionClient,
+  input: ShipOrderInput,
+): Promise<number> {
+  const carrier = input.carrier.trim();
+  const trackingNumber = input.tracking_number.trim();
+  const trackingUrl = input.tracking_url?.trim() || null;
+
+  if (!carrier || !trackingNumber) {
+    throw new ShipmentError("Carrier and tracking number are required");
+  }
+
+  if (trackingUrl) {
+    const urlError = validateTrackingUrl(trackingUrl);
+    if (urlError) throw new ShipmentError(urlError);
+  }
+
+  const order = await tx.productOrder.findUniqueOrThrow({
+    where: { id: input.order_id },
+    select: { status: true },
+  });
+
+  const unshipped = await getUnshippedQuantities(tx, input.order_id);
+  const items = input.items ?? [];
+  const seen = new Set<number>();
+
+  for (const item of items) {
+    const available = unshipped.get(item.order_item_id);
+    if (available === undefined || seen.has(item.order_item_id)) {
+      throw new ShipmentError("Invalid item in shipment");
+    }
+    if (item.quantity <= 0 || item.quantity > available) {
+      throw new ShipmentError(
+        `Only ${available} of item ${item.order_item_id} are left to ship`,
+      );
+    }
+    seen.add(item.order_item_id);
+  }
+
+  if (
+    items.length === 0 &&
+    ![...unshipped.values()].some((quantity) => quantity > 0)
+  ) {
+    throw new ShipmentError("Every item of this order has already shipped");
+  }
+
+  if (order.status !== OrderStatus.SHIPPED) {
+    await transitionOrderStatus(tx, {
+      order_id: input.order_id,
+      from: order.status,
+      to: OrderStatus.SHIPPED,
+      actor_type: OrderStatusActor.ADMIN,
+      actor_id: input.actor_id,
+      note: input.note ?? `Shipped via ${carrier}, tracking ${trackingNumber}`,
+    });
+  }
+
+  const shipment = await tx.shipment.create({
+    data: {
+      order_id: input.order_id,
+      carrier,
+      tracking_number: trackingNumber,
+      tracking_url: trackingUrl,
+      created_by_id: input.actor_id ?? null,
+      items: {
+        create: items.map((item) => ({
+          order_item_id: item.order_item_id,
+          quantity: item.quantity,
+        })),
+      },
+    },
+    select: { id: true },
+  });
+
+  return shipment.id;
+}
+
+// Append a carrier scan to a shipment's timeline. Used by the admin panel
+// and meant to be called by carrier integrations as well.
+export async function appendTrackingEvent(
+  tx: TransactionClient,
+  shipmentId: number,
+  event: TrackingEventInput,
+): Promise<void> {
+  const occurredAt = event.occurred_at ?? new Date();
+
+  await tx.shipmentTrackingEvent.create({
+    data: {
+      shipment_id: shipmentId,
+      status: event.status,
+      description: event.description?.trim() || null,
+      location: event.location?.trim() || null,
+      occurred_at: occurredAt,
+    },
+  });
+
+  if (event.status === ShipmentTrackingStatus.DELIVERED) {
+    await tx.shipment.updateMany({
+      where: { id: shipmentId, delivered_at: null },
+      data: { delivered_at: occurredAt },
+    });
+  }
+}
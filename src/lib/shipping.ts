@@ -0,0 +1,133 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+
+export const SHIPPING_RATES_SETTING_KEY = "shipping_rates";
+
+export const DEFAULT_SHIPPING_RATES: PrismaJson.ShippingRates = {
+  basis: "ITEM_COUNT",
+  free_shipping_threshold: 2000,
+  default_tiers: [
+    { up_to: 2, fee: 99 },
+    { up_to: 5, fee: 149 },
+    { up_to: null, fee: 199 },
+  ],
+  zones: [],
+};
+
+export interface ShippingLine {
+  quantity: number;
+  weight_grams: number;
+}
+
+export interface ShippingDestination {
+  state: string;
+  zip: string;
+}
+
+export interface ShippingCalculation {
+  fee: number;
+  zone: string;
+  free_shipping_applied: boolean;
+  free_shipping_threshold: number | null;
+}
+
+export async function getShippingRates(
+  prisma: ExtendedPrismaClient | TransactionClient,
+): Promise<PrismaJson.ShippingRates> {
+  const setting = await prisma.siteSetting.findUnique({
+    where: { key: SHIPPING_RATES_SETTING_KEY },
+  });
+
+  if (setting && typeof setting.value === "object" && setting.value !== null) {
+    return {
+      ...DEFAULT_SHIPPING_RATES,
+      ...(setting.value as PrismaJson.ShippingRates),
+    };
+  }
+
+  return DEFAULT_SHIPPING_RATES;
+}
+
+// A PIN prefix match wins over a state match; the longest prefix wins
+// when several zones match the same PIN code
+function findZone(
+  rates: PrismaJson.ShippingRates,
+  destination: ShippingDestination,
+): PrismaJson.ShippingZone | null {
+  const zip = destination.zip.trim();
+  const state = destination.state.trim().toLowerCase();
+
+  let bestZone: PrismaJson.ShippingZone | null = null;
+  let bestPrefixLength = 0;
+
+  for (const zone of rates.zones) {
+    for (const prefix of zone.pin_prefixes) {
+      if (
+        prefix &&
+        zip.startsWith(prefix) &&
+        prefix.length > bestPrefixLength
+      ) {
+        bestZone = zone;
+        bestPrefixLength = prefix.length;
+      }
+    }
+  }
+
+  if (bestZone) return bestZone;
+
+  return (
+    rates.zones.find((zone) =>
+      zone.states.some((s) => s.trim().toLowerCase() === state),
+    ) ?? null
+  );
+}
+
+function findTierFee(
+  tiers: PrismaJson.ShippingRateTier[],
+  metric: number,
+): number {
+  const sorted = [...tiers].sort(
+    (a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity),
+  );
+
+  const tier = sorted.find((t) => t.up_to === null || metric <= t.up_to);
+
+  // Past the last bounded tier, charge the highest tier
+  return tier?.fee ?? sorted[sorted.length - 1]?.fee ?? 0;
+}
+
+export function calculateShipping(
+  rates: PrismaJson.ShippingRates,
+  destination: ShippingDestination,
+  lines: ShippingLine[],
+  subtotal: number,
+): ShippingCalculation {
+  const zone = findZone(rates, destination);
+  const freeShippingThreshold = rates.free_shipping_threshold;
+
+  const base = {
+    zone: zone?.name ?? "Default",
+    free_shipping_threshold: freeShippingThreshold,
+  };
+
+  if (lines.length === 0) {
+    return { ...base, fee: 0, free_shipping_applied: false };
+  }
+
+  if (freeShippingThreshold !== null && subtotal >= freeShippingThreshold) {
+    return { ...base, fee: 0, free_shipping_applied: true };
+  }
+
+  const metric =
+    rates.basis === "WEIGHT"
+      ? lines.reduce((sum, l) => sum + l.weight_grams * l.quantity, 0)
+      : lines.reduce((sum, l) => sum + l.quantity, 0);
+
+  const tiers =
+    zone && zone.tiers.length > 0 ? zone.tiers : rates.default_tiers;
+
+  return {
+    ...base,
+    fee: findTierFee(tiers, metric),
+    free_shipping_applied: false,
+  };
+}
@@ -0,0 +1,95 @@
+// Allowed transitions per status, with the side effects each one runs
+export type TransitionTable<S extends string, E extends string> = Record<
+  S,
+  Partial<Record<S, readonly E[]>>
+>;
+
+export type StatusTransitionErrorCode =
+  | "INVALID_STATUS_TRANSITION"
+  | "STATUS_CONFLICT";
+
+export class StatusTransitionError extends Error {
+  constructor(
+    public readonly code: StatusTransitionErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StatusTransitionError";
+  }
+}
+
+export function getAllowedTransitions<S extends string, E extends string>(
+  table: TransitionTable<S, E>,
+  from: S,
+): S[] {
+  return Object.keys(table[from]) as S[];
+}
+
+// Side effects of moving from one status to another.
+// Throws StatusTransitionError when the table does not allow the move.
+export function getTransitionEffects<S extends string, E extends string>(
+  table: TransitionTable<S, E>,
+  entity: string,
+  from: S,
+  to: S,
+): readonly E[] {
+  const effects = table[from][to];
+
+  if (!effects) {
+    const allowed = getAllowedTransitions(table, from);
+    throw new StatusTransitionError(
+      "INVALID_STATUS_TRANSITION",
+      `Cannot move ${entity} from ${from} to ${to}. ` +
+        (allowed.length > 0
+          ? `Allowed: ${allowed.join(", ")}`
+          : `${from} is a final status`),
+    );
+  }
+
+  return effects;
+}
+
+// Timestamp columns to set or clear when moving along a linear main flow.
+// Moving forward stamps every skipped status. Moving backward, or back into
+// the main flow from a side status, clears everything that came later.
+export function getFlowTimestampUpdates<S extends string, F extends string>(
+  mainFlow: readonly S[],
+  timestampFields: Record<S, F | null>,
+  from: S,
+  to: S,
+  now: Date,
+): Partial<Record<F, Date | null>> {
+  const updates: Partial<Record<F, Date | null>> = {};
+  const fromIndex = mainFlow.indexOf(from);
+  const toIndex = mainFlow.indexOf(to);
+
+  if (fromIndex !== -1 && toIndex > fromIndex) {
+    for (const status of mainFlow.slice(fromIndex + 1, toIndex + 1)) {
+      const field = timestampFields[status];
+      if (field) updates[field] = now;
+    }
+  }
+
+  const field = timestampFields[to];
+  if (field && !updates[field]) {
+    updates[field] = now;
+  }
+
+  if (toIndex !== -1 && (fromIndex === -1 || toIndex < fromIndex)) {
+    for (const status of mainFlow.slice(toIndex + 1)) {
+      const laterField = timestampFields[status];
+      if (laterField) updates[laterField] = null;
+    }
+  }
+
+  if (fromIndex === -1 && toIndex !== -1) {
+    for (const [status, sideField] of Object.entries(timestampFields) as [
+      S,
+      F | null,
+    ][]) {
+      if (sideField && !mainFlow.includes(status)) updates[sideField] = null;
+    }
+  }
+
+  return updates;
+}
@@ -0,0 +1,130 @@
+import { STOREFRONT_URL } from "@/consts/env";
+import { FULFILMENT_SELECT, getSellableQuantity } from "@/lib/fulfilment";
+import { getActiveNotifier } from "@/lib/notifications";
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { getVariantName } from "@/lib/variants";
+
+const JOB_INTERVAL_MS = 5 * 60 * 1000;
+
+const JOB_BATCH_SIZE = 100;
+
+// Failed sends are retried on later runs up to this many times
+const MAX_ATTEMPTS = 5;
+
+export function getProductUrl(slug: string): string {
+  return `${STOREFRONT_URL}/products/${slug}`;
+}
+
+// Queue the waiting notifications for a product or variant that can be
+// bought again, including one switched to made-to-order. Customers can only
+// subscribe while it is sold out, so pending subscriptions mean the stock was
+// raised from zero. Runs inside the transaction that changed the stock and
+// returns the number queued.
+export async function queueStockNotifications(
+  tx: TransactionClient,
+  productId: number,
+  variantId: number | null,
+): Promise<number> {
+  const [product, variant] = await Promise.all([
+    tx.product.findUnique({
+      where: { id: productId },
+      select: {
+        ...FULFILMENT_SELECT,
+        available_quantity: true,
+        is_active: true,
+      },
+    }),
+    variantId
+      ? tx.productVariant.findUnique({
+          where: { id: variantId },
+          select: { available_quantity: true, is_active: true },
+        })
+      : null,
+  ]);
+
+  if (!product || !(variant ?? product).is_active) return 0;
+  if (getSellableQuantity(product, variant) <= 0) return 0;
+
+  const { count } = await tx.stockNotification.updateMany({
+    where: { product_id: productId, variant_id: variantId, queued_at: null },
+    data: { queued_at: new Date() },
+  });
+
+  return count;
+}
+
+// Send queued notifications through the active notifier
+export async function deliverStockNotifications(
+  prisma: ExtendedPrismaClient,
+): Promise<number> {
+  const notifier = getActiveNotifier();
+
+  const queued = await prisma.stockNotification.findMany({
+    where: {
+      queued_at: { not: null },
+      sent_at: null,
+      attempts: { lt: MAX_ATTEMPTS },
+    },
+    take: JOB_BATCH_SIZE,
+    orderBy: { queued_at: "asc" },
+    include: {
+      user: { select: { email: true, name: true } },
+      product: { select: { name: true, slug: true } },
+      variant: { select: { options: true } },
+    },
+  });
+
+  let sent = 0;
+  for (const notification of queued) {
+    const productName = notification.variant
+      ? `${notification.product.name} (${getVariantName(notification.variant.options)})`
+      : notification.product.name;
+
+    try {
+      await notifier.send({
+        to: notification.user.email,
+        subject: `${productName} is back in stock`,
+        text: `Hi ${notification.user.name ?? "there"}, ${productName} is available again.`,
+        url: getProductUrl(notification.product.slug),
+      });
+
+      await prisma.stockNotification.update({
+        where: { id: notification.id },
+        data: {
+          sent_at: new Date(),
+          attempts: { increment: 1 },
+          last_error: null,
+        },
+      });
+      sent++;
+    } catch (error) {
+      await prisma.stockNotification.update({
+        where: { id: notification.id },
+        data: {
+          attempts: { increment: 1 },
+          last_error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  return sent;
+}
+
+// Runs deliverStockNotifications every few minutes for the lifetime of the
+// process
+export function startStockNotificationJob(prisma: ExtendedPrismaClient): void {
+  const run = async () => {
+    try {
+      const count = await deliverStockNotifications(prisma);
+      if (count > 0) {
+        console.log(`📦 Sent ${count} back in stock notifications`);
+      }
+    } catch (error) {
+      console.error("❌ Stock notification job failed", error);
+    }
+  };
+
+  setInterval(run, JOB_INTERVAL_MS).unref();
+  void run();
+}
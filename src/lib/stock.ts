@@ -0,0 +1,467 @@
+import { getBundleComponents, syncComponentBundles } from "@/lib/bundles";
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+import { queueStockNotifications } from "@/lib/stock-notifications";
+import { getLineKey, getVariantName } from "@/lib/variants";
+import {
+  FulfilmentMode,
+  OrderStatusActor,
+  StockMovementType,
+} from "@/prisma/generated/client";
+
+export interface StockLine {
+  product_id: number;
+  // Stock of variant lines is held on the variant and on its product
+  variant_id?: number | null;
+  quantity: number;
+  // Made-to-order lines hold no stock, pre-order lines hold a pre-order slot
+  fulfilment_mode?: FulfilmentMode;
+  // Components of one bundle as ordered, the bundle's current components
+  // are used when not given
+  bundle_components?: PrismaJson.BundleComponents | null;
+}
+
+// What caused a stock change, recorded in the stock_movements ledger
+export interface StockMovementInput {
+  type: StockMovementType;
+  actor_type: OrderStatusActor;
+  actor_id?: number | null;
+  order_id?: string | null;
+  reason?: string | null;
+}
+
+export type StockActor = Pick<StockMovementInput, "actor_type" | "actor_id">;
+
+export interface StockShortage {
+  product_id: number;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export class InsufficientStockError extends Error {
+  constructor(public readonly shortages: StockShortage[]) {
+    super("Not enough stock available");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Combine lines for the same product and variant and sort them so
+// concurrent transactions always lock rows in the same order
+function normalizeLines(lines: StockLine[]): StockLine[] {
+  const combined = new Map<string, StockLine>();
+  for (const line of lines) {
+    const key = getLineKey(line.product_id, line.variant_id ?? null);
+    const existing = combined.get(key);
+    combined.set(key, {
+      product_id: line.product_id,
+      variant_id: line.variant_id ?? null,
+      quantity: (existing?.quantity ?? 0) + line.quantity,
+      fulfilment_mode: line.fulfilment_mode ?? FulfilmentMode.IN_STOCK,
+    });
+  }
+
+  return [...combined.values()]
+    .filter((line) => line.quantity > 0)
+    .sort(
+      (a, b) =>
+        a.product_id - b.product_id ||
+        (a.variant_id ?? 0) - (b.variant_id ?? 0),
+    );
+}
+
+// Bundles hold no stock of their own, a bundle line takes the stock of
+// its components
+async function expandBundleLines(
+  tx: TransactionClient,
+  lines: StockLine[],
+): Promise<StockLine[]> {
+  const current = await getBundleComponents(
+    tx,
+    lines
+      .filter((line) => !line.bundle_components)
+      .map((line) => line.product_id),
+  );
+
+  return lines.flatMap((line) => {
+    const components =
+      line.bundle_components ?? current.get(line.product_id) ?? [];
+    if (components.length === 0) return [line];
+
+    return components.map((component) => ({
+      product_id: component.product_id,
+      variant_id: component.variant_id,
+      quantity: line.quantity * component.quantity,
+      fulfilment_mode: FulfilmentMode.IN_STOCK,
+    }));
+  });
+}
+
+async function getShortage(
+  tx: TransactionClient,
+  line: StockLine,
+): Promise<StockShortage> {
+  if (line.fulfilment_mode === FulfilmentMode.PRE_ORDER) {
+    const product = await tx.product.findUnique({
+      where: { id: line.product_id },
+      select: { name: true, preorder_limit: true, preorder_count: true },
+    });
+
+    return {
+      product_id: line.product_id,
+      name: product?.name ?? "Unknown product",
+      requested: line.quantity,
+      available: Math.max(
+        0,
+        (product?.preorder_limit ?? 0) - (product?.preorder_count ?? 0),
+      ),
+    };
+  }
+
+  if (line.variant_id) {
+    const variant = await tx.productVariant.findUnique({
+      where: { id: line.variant_id },
+      select: {
+        options: true,
+        available_quantity: true,
+        product: { select: { name: true } },
+      },
+    });
+
+    return {
+      product_id: line.product_id,
+      name: variant
+        ? `${variant.product.name} (${getVariantName(variant.options)})`
+        : "Unknown product",
+      requested: line.quantity,
+      available: Math.max(0, variant?.available_quantity ?? 0),
+    };
+  }
+
+  const product = await tx.product.findUnique({
+    where: { id: line.product_id },
+    select: { name: true, available_quantity: true },
+  });
+
+  return {
+    product_id: line.product_id,
+    name: product?.name ?? "Unknown product",
+    requested: line.quantity,
+    available: Math.max(0, product?.available_quantity ?? 0),
+  };
+}
+
+// Only in stock lines move stock, so only they are recorded
+async function recordStockMovements(
+  tx: TransactionClient,
+  lines: StockLine[],
+  sign: 1 | -1,
+  movement: StockMovementInput,
+): Promise<void> {
+  const stocked = lines.filter(
+    (line) => line.fulfilment_mode === FulfilmentMode.IN_STOCK,
+  );
+  if (stocked.length === 0) return;
+
+  await tx.stockMovement.createMany({
+    data: stocked.map((line) => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id ?? null,
+      quantity: sign * line.quantity,
+      ...movement,
+    })),
+  });
+}
+
+// Take stock out of the variant when the line has one, or else the product.
+// Returns false without changing anything when not enough is available.
+async function takeStock(
+  tx: TransactionClient,
+  line: StockLine,
+  includeTotal = false,
+): Promise<boolean> {
+  const decrement = {
+    available_quantity: { decrement: line.quantity },
+    ...(includeTotal ? { total_quantity: { decrement: line.quantity } } : {}),
+  };
+
+  if (line.variant_id) {
+    const { count } = await tx.productVariant.updateMany({
+      where: {
+        id: line.variant_id,
+        available_quantity: { gte: line.quantity },
+      },
+      data: decrement,
+    });
+    if (count === 0) return false;
+
+    await tx.product.update({
+      where: { id: line.product_id },
+      data: decrement,
+    });
+    return true;
+  }
+
+  const { count } = await tx.product.updateMany({
+    where: {
+      id: line.product_id,
+      available_quantity: { gte: line.quantity },
+    },
+    data: decrement,
+  });
+  return count > 0;
+}
+
+// Put stock into the variant when the line has one, and into the product.
+// Customers waiting for it are queued to be notified.
+async function putStock(
+  tx: TransactionClient,
+  line: StockLine,
+  includeTotal = false,
+): Promise<void> {
+  const increment = {
+    available_quantity: { increment: line.quantity },
+    ...(includeTotal ? { total_quantity: { increment: line.quantity } } : {}),
+  };
+
+  if (line.variant_id) {
+    await tx.productVariant.update({
+      where: { id: line.variant_id },
+      data: increment,
+    });
+  }
+
+  await tx.product.update({
+    where: { id: line.product_id },
+    data: increment,
+  });
+
+  await queueStockNotifications(tx, line.product_id, line.variant_id ?? null);
+}
+
+// Take a pre-order slot for the line while the product's cap allows it
+async function takePreorder(
+  tx: TransactionClient,
+  line: StockLine,
+): Promise<boolean> {
+  const product = await tx.product.findUniqueOrThrow({
+    where: { id: line.product_id },
+    select: { preorder_limit: true },
+  });
+
+  const { count } = await tx.product.updateMany({
+    where: {
+      id: line.product_id,
+      ...(product.preorder_limit !== null
+        ? { preorder_count: { lte: product.preorder_limit - line.quantity } }
+        : {}),
+    },
+    data: { preorder_count: { increment: line.quantity } },
+  });
+  return count > 0;
+}
+
+// Free the line's pre-order slots. The count is reset when a product stops
+// taking pre-orders, so it is never taken below zero.
+async function putPreorder(
+  tx: TransactionClient,
+  line: StockLine,
+): Promise<void> {
+  await tx.product.updateMany({
+    where: { id: line.product_id, preorder_count: { gte: line.quantity } },
+    data: { preorder_count: { decrement: line.quantity } },
+  });
+}
+
+// Decrement stock for every line, only where enough stock is available.
+// Bundle lines take their components' stock, pre-order lines take a slot
+// under the product's cap and made-to-order lines are skipped. Throws
+// InsufficientStockError listing every short line so the caller's
+// transaction is rolled back as a whole.
+export async function reserveStock(
+  tx: TransactionClient,
+  lines: StockLine[],
+  movement: StockMovementInput,
+): Promise<void> {
+  const normalized = normalizeLines(await expandBundleLines(tx, lines));
+  const shortages: StockShortage[] = [];
+
+  for (const line of normalized) {
+    if (line.fulfilment_mode === FulfilmentMode.MADE_TO_ORDER) continue;
+
+    const taken =
+      line.fulfilment_mode === FulfilmentMode.PRE_ORDER
+        ? await takePreorder(tx, line)
+        : await takeStock(tx, line);
+    if (!taken) {
+      shortages.push(await getShortage(tx, line));
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+
+  await recordStockMovements(tx, normalized, -1, movement);
+  await syncComponentBundles(
+    tx,
+    normalized.map((line) => line.product_id),
+  );
+}
+
+// Put quantities back into stock
+export async function releaseStock(
+  tx: TransactionClient,
+  lines: StockLine[],
+  movement: StockMovementInput,
+): Promise<void> {
+  const normalized = normalizeLines(await expandBundleLines(tx, lines));
+
+  for (const line of normalized) {
+    if (line.fulfilment_mode === FulfilmentMode.PRE_ORDER) {
+      await putPreorder(tx, line);
+    } else if (line.fulfilment_mode !== FulfilmentMode.MADE_TO_ORDER) {
+      await putStock(tx, line);
+    }
+  }
+
+  await recordStockMovements(tx, normalized, 1, movement);
+  await syncComponentBundles(
+    tx,
+    normalized.map((line) => line.product_id),
+  );
+}
+
+// Change physical stock by a signed quantity, the total and available
+// quantities move together. Throws InsufficientStockError when it would take
+// the available quantity below zero.
+export async function adjustStock(
+  tx: TransactionClient,
+  line: StockLine,
+  movement: StockMovementInput,
+): Promise<void> {
+  if (line.quantity === 0) return;
+
+  if (line.quantity > 0) {
+    await putStock(tx, line, true);
+  } else {
+    const taken = { ...line, quantity: -line.quantity };
+    if (!(await takeStock(tx, taken, true))) {
+      throw new InsufficientStockError([await getShortage(tx, taken)]);
+    }
+  }
+
+  await tx.stockMovement.create({
+    data: {
+      product_id: line.product_id,
+      variant_id: line.variant_id ?? null,
+      quantity: line.quantity,
+      ...movement,
+    },
+  });
+
+  await syncComponentBundles(tx, [line.product_id]);
+}
+
+// Available quantity according to the ledger, per product and per variant
+export async function getLedgerQuantities(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  productIds?: number[],
+): Promise<{ products: Map<number, number>; variants: Map<number, number> }> {
+  const where = productIds ? { product_id: { in: productIds } } : {};
+
+  const [products, variants] = await Promise.all([
+    prisma.stockMovement.groupBy({
+      by: ["product_id"],
+      where,
+      _sum: { quantity: true },
+    }),
+    prisma.stockMovement.groupBy({
+      by: ["variant_id"],
+      where: { ...where, variant_id: { not: null } },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  return {
+    products: new Map(
+      products.map((p) => [p.product_id, p._sum.quantity ?? 0]),
+    ),
+    variants: new Map(
+      variants.flatMap((v) =>
+        v.variant_id ? [[v.variant_id, v._sum.quantity ?? 0]] : [],
+      ),
+    ),
+  };
+}
+
+// Quantities of an order still held out of stock, returned items excluded
+async function getHeldOrderLines(
+  tx: TransactionClient,
+  orderId: string,
+): Promise<StockLine[]> {
+  const items = await tx.purchasedProductItem.findMany({
+    where: { order_id: orderId },
+    select: {
+      product_id: true,
+      variant_id: true,
+      quantity: true,
+      returned_quantity: true,
+      fulfilment_mode: true,
+      bundle_components: true,
+    },
+  });
+
+  return items.map((item) => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    quantity: item.quantity - item.returned_quantity,
+    fulfilment_mode: item.fulfilment_mode,
+    bundle_components: item.bundle_components,
+  }));
+}
+
+// Re-reserve stock for an order whose stock was released earlier.
+// The stock_reserved flag is flipped first so concurrent calls cannot
+// reserve the same order twice.
+export async function reserveOrderStock(
+  tx: TransactionClient,
+  orderId: string,
+  actor: StockActor,
+): Promise<void> {
+  const { count } = await tx.productOrder.updateMany({
+    where: { id: orderId, stock_reserved: false },
+    data: { stock_reserved: true },
+  });
+
+  if (count === 0) return;
+
+  const items = await getHeldOrderLines(tx, orderId);
+
+  await reserveStock(tx, items, {
+    ...actor,
+    type: StockMovementType.SALE,
+    order_id: orderId,
+  });
+}
+
+// Return an order's items to stock if they are currently reserved
+export async function releaseOrderStock(
+  tx: TransactionClient,
+  orderId: string,
+  actor: StockActor,
+): Promise<void> {
+  const { count } = await tx.productOrder.updateMany({
+    where: { id: orderId, stock_reserved: true },
+    data: { stock_reserved: false },
+  });
+
+  if (count === 0) return;
+
+  const items = await getHeldOrderLines(tx, orderId);
+
+  await releaseStock(tx, items, {
+    ...actor,
+    type: StockMovementType.CANCELLATION_RESTOCK,
+    order_id: orderId,
+  });
+}
@@ -0,0 +1,125 @@
+import { ExtendedPrismaClient, TransactionClient } from "@/lib/prisma";
+
+export class VariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VariantError";
+  }
+}
+
+export const VARIANT_SELECT = {
+  id: true,
+  product_id: true,
+  sku: true,
+  options: true,
+  price: true,
+  total_quantity: true,
+  available_quantity: true,
+  image_urls: true,
+  color_code: true,
+  color_name: true,
+  is_active: true,
+} as const;
+
+export interface VariantDetails {
+  id: number;
+  sku: string;
+  options: PrismaJson.VariantOptions;
+  price: number | null;
+  available_quantity: number;
+  image_urls: string[];
+  color_code: string | null;
+  color_name: string | null;
+}
+
+// Option values in the order they were defined, e.g. "Celadon / Large"
+export function getVariantName(options: PrismaJson.VariantOptions): string {
+  return Object.values(options).join(" / ");
+}
+
+export function getVariantPrice(
+  product: { price: number },
+  variant: { price: number | null } | null | undefined,
+): number {
+  return variant?.price ?? product.price;
+}
+
+// Variant as shown to customers, the price falls back to the product's
+export function mapVariant(
+  product: { price: number },
+  variant: VariantDetails,
+) {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    name: getVariantName(variant.options),
+    options: Object.entries(variant.options).map(([name, value]) => ({
+      name,
+      value,
+    })),
+    price: getVariantPrice(product, variant),
+    available_quantity: variant.available_quantity,
+    image_urls: variant.image_urls,
+    color_code: variant.color_code,
+    color_name: variant.color_name,
+  };
+}
+
+// Key of a cart or order line, a product may appear once per variant
+export function getLineKey(productId: number, variantId: number | null) {
+  return `${productId}:${variantId ?? ""}`;
+}
+
+// The variant a cart line should use. Products with variants need one of
+// their active variants, products without variants take none.
+export async function resolveVariant(
+  prisma: ExtendedPrismaClient | TransactionClient,
+  productId: number,
+  variantId: number | null | undefined,
+) {
+  const variants = await prisma.productVariant.findMany({
+    where: { product_id: productId, is_active: true },
+    select: VARIANT_SELECT,
+  });
+
+  if (variants.length === 0) {
+    if (variantId) {
+      throw new VariantError("This product has no options to choose from");
+    }
+    return null;
+  }
+
+  if (!variantId) {
+    throw new VariantError("Please choose an option for this product");
+  }
+
+  const variant = variants.find((v) => v.id === variantId);
+  if (!variant) {
+    throw new VariantError("The chosen option is no longer available");
+  }
+
+  return variant;
+}
+
+// Products with variants keep the sum of their variants' stock, so product
+// level listings and stock filters keep working
+export async function syncProductStock(
+  tx: TransactionClient,
+  productId: number,
+): Promise<void> {
+  const totals = await tx.productVariant.aggregate({
+    where: { product_id: productId },
+    _count: { _all: true },
+    _sum: { total_quantity: true, available_quantity: true },
+  });
+
+  if (totals._count._all === 0) return;
+
+  await tx.product.update({
+    where: { id: productId },
+    data: {
+      total_quantity: totals._sum.total_quantity ?? 0,
+      available_quantity: totals._sum.available_quantity ?? 0,
+    },
+  });
+}
@@ -2,6 +2,12 @@ import { Request, Response } from "express";
 import { GraphQLError } from "graphql";
 import { createMethodMiddlewareDecorator } from "type-graphql";
 
+import {
+  GUEST_CART_TOKEN_HEADER,
+  mergeGuestCart,
+  verifyGuestCartToken,
+} from "@/lib/guest-cart";
+import { normalizeEmail } from "@/lib/guest-checkout";
 import { prisma } from "@/lib/prisma";
 import { UserRole } from "@/prisma/generated/client";
 import { Context } from "@/types/context";
@@ -44,11 +50,23 @@ const PUBLIC_CONTENT_NON_AUTH_RESOLVERS: string[] = [
   "PublicSocialLinks",
 ];
 
+// Signed-out visitors use a guest cart, signed-in users their own cart
+const GUEST_CART_RESOLVERS: string[] = [
+  "Cart",
+  "AddToCart",
+  "UpdateCartQuantity",
+  "RemoveFromCart",
+  "CreateOrder",
+];
+
+const ORDER_NON_AUTH_RESOLVERS: string[] = ["GuestOrder"];
+
 const NON_AUTH_RESOLVERS: string[] = [
   ...PRODUCT_NON_AUTH_RESOLVERS,
   ...EVENT_NON_AUTH_RESOLVERS,
   ...REVIEW_NON_AUTH_RESOLVERS,
   ...SEARCH_NON_AUTH_RESOLVERS,
+  ...ORDER_NON_AUTH_RESOLVERS,
   ...PUBLIC_CONTENT_NON_AUTH_RESOLVERS,
   "IntrospectionQuery",
 ];
@@ -65,13 +83,23 @@ export const authMiddleWare = async (
     prisma,
   };
 
-  const requiredAuth = !NON_AUTH_RESOLVERS.includes(operationName);
+  const guestCartId = verifyGuestCartToken(
+    req.headers[GUEST_CART_TOKEN_HEADER],
+  );
+  const allowsGuest = GUEST_CART_RESOLVERS.includes(operationName);
+  const requiredAuth =
+    !NON_AUTH_RESOLVERS.includes(operationName) && !allowsGuest;
 
-  if (requiredAuth) {
+  if (requiredAuth || allowsGuest) {
     const { isAuthenticated, sessionClaims, userId } = getAuth(req);
 
     if (!isAuthenticated) {
-      throw new GraphQLError("User is not authenticated");
+      if (requiredAuth) {
+        throw new GraphQLError("User is not authenticated");
+      }
+
+      context.guestCartId = guestCartId ?? undefined;
+      return context;
     }
 
     const { dbUserId, role } = sessionClaims;
@@ -97,16 +125,18 @@ export const authMiddleWare = async (
       const user = await prisma.$transaction(async (tx) => {
         const user = await tx.user.upsert({
           where: {
-            email: emailAddress,
+            email: normalizeEmail(emailAddress),
           },
+          // Signing up with the email of a guest buyer claims their orders
           update: {
             auth_id: userId,
             name,
             image,
+            is_guest: false,
           },
           create: {
             auth_id: userId,
-            email: emailAddress,
+            email: normalizeEmail(emailAddress),
             name,
             image,
             phone,
@@ -135,6 +165,11 @@ export const authMiddleWare = async (
     }
   }
 
+  // The guest cart is merged the first time its visitor shows up signed in
+  if (context.user?.dbUserId && guestCartId) {
+    await mergeGuestCart(prisma, guestCartId, context.user.dbUserId);
+  }
+
   return context;
 };
 
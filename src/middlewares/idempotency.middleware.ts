@@ -0,0 +1,132 @@
+import { createHash } from "crypto";
+import { GraphQLError } from "graphql";
+import { createMethodMiddlewareDecorator } from "type-graphql";
+
+import { Prisma } from "@/prisma/generated/client";
+import { Context } from "@/types/context";
+
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+// Retries with the same key within this window replay the stored result
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+// A request still running after this long is assumed to have crashed
+const IN_PROGRESS_TIMEOUT_MS = 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+type IdempotentArgs = { input?: { idempotency_key?: string | null } };
+
+// The header wins over the `idempotency_key` input field
+function getIdempotencyKey(
+  context: Context,
+  args: IdempotentArgs,
+): string | undefined {
+  const header = context.request?.headers[IDEMPOTENCY_KEY_HEADER];
+  const key = typeof header === "string" ? header : args.input?.idempotency_key;
+  return key?.trim() || undefined;
+}
+
+function hashRequest(args: IdempotentArgs): string {
+  const body = JSON.stringify(args, (name, value) =>
+    name === "idempotency_key" ? undefined : value,
+  );
+  return createHash("sha256").update(body).digest("hex");
+}
+
+// Runs the mutation once per Idempotency-Key and replays its result on retry.
+// Without a key, or for signed-out users, the mutation runs as usual.
+export function idempotent(operation: string) {
+  return createMethodMiddlewareDecorator<Context>(
+    async ({ context, args }, next) => {
+      const userId = context.user?.dbUserId;
+      const key = getIdempotencyKey(context, args);
+
+      if (!userId || !key) {
+        return next();
+      }
+
+      if (key.length > MAX_KEY_LENGTH) {
+        throw new GraphQLError(
+          `Idempotency key must be at most ${MAX_KEY_LENGTH} characters`,
+        );
+      }
+
+      const { prisma } = context;
+      const requestHash = hashRequest(args);
+      const now = Date.now();
+
+      // Expired keys and abandoned attempts can be claimed again
+      await prisma.idempotencyKey.deleteMany({
+        where: {
+          user_id: userId,
+          key,
+          OR: [
+            { created_at: { lt: new Date(now - IDEMPOTENCY_WINDOW_MS) } },
+            {
+              completed_at: null,
+              created_at: { lt: new Date(now - IN_PROGRESS_TIMEOUT_MS) },
+            },
+          ],
+        },
+      });
+
+      const { count } = await prisma.idempotencyKey.createMany({
+        data: [
+          {
+            user_id: userId,
+            key,
+            operation,
+            request_hash: requestHash,
+          },
+        ],
+        skipDuplicates: true,
+      });
+
+      if (count === 0) {
+        const existing = await prisma.idempotencyKey.findUnique({
+          where: { user_id_key: { user_id: userId, key } },
+        });
+
+        if (
+          existing?.operation !== operation ||
+          existing.request_hash !== requestHash
+        ) {
+          throw new GraphQLError(
+            "Idempotency key was already used for a different request",
+          );
+        }
+
+        if (!existing.completed_at) {
+          throw new GraphQLError(
+            "A request with this idempotency key is still in progress",
+          );
+        }
+
+        return existing.response;
+      }
+
+      try {
+        const result = await next();
+
+        await prisma.idempotencyKey.update({
+          where: { user_id_key: { user_id: userId, key } },
+          data: {
+            // Round-trip through JSON so dates are stored the way they are sent
+            response:
+              result === undefined || result === null
+                ? Prisma.JsonNull
+                : (JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue),
+            completed_at: new Date(),
+          },
+        });
+
+        return result;
+      } catch (error) {
+        // Nothing was stored, so the client may retry with the same key
+        await prisma.idempotencyKey.deleteMany({
+          where: { user_id: userId, key, completed_at: null },
+        });
+        throw error;
+      }
+    },
+  );
+}
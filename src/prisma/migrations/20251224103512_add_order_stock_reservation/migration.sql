@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "product_orders" ADD COLUMN     "stock_reserved" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "weight_grams" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "CouponType" AS ENUM ('PERCENTAGE', 'FLAT');
+
+-- AlterTable
+ALTER TABLE "product_orders" ADD COLUMN     "coupon_code" TEXT,
+ADD COLUMN     "coupon_discount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "coupon_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "coupons" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "CouponType" NOT NULL,
+    "value" INTEGER NOT NULL,
+    "max_discount" INTEGER,
+    "min_subtotal" INTEGER NOT NULL DEFAULT 0,
+    "categories" TEXT[],
+    "materials" TEXT[],
+    "usage_limit" INTEGER,
+    "per_user_limit" INTEGER,
+    "times_redeemed" INTEGER NOT NULL DEFAULT 0,
+    "starts_at" TIMESTAMP(3),
+    "ends_at" TIMESTAMP(3),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cart_coupons" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "coupon_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_code_key" ON "coupons"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_coupons_user_id_key" ON "cart_coupons"("user_id");
+
+-- CreateIndex
+CREATE INDEX "cart_coupons_coupon_id_idx" ON "cart_coupons"("coupon_id");
+
+-- CreateIndex
+CREATE INDEX "product_orders_coupon_id_idx" ON "product_orders"("coupon_id");
+
+-- AddForeignKey
+ALTER TABLE "product_orders" ADD CONSTRAINT "product_orders_coupon_id_fkey" FOREIGN KEY ("coupon_id") REFERENCES "coupons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_coupons" ADD CONSTRAINT "cart_coupons_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_coupons" ADD CONSTRAINT "cart_coupons_coupon_id_fkey" FOREIGN KEY ("coupon_id") REFERENCES "coupons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
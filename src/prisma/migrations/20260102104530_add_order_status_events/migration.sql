@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "OrderStatusActor" AS ENUM ('CUSTOMER', 'ADMIN', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "order_status_events" (
+    "id" SERIAL NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "previous_status" "OrderStatus",
+    "status" "OrderStatus" NOT NULL,
+    "actor_type" "OrderStatusActor" NOT NULL,
+    "actor_id" INTEGER,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_events_order_id_created_at_idx" ON "order_status_events"("order_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "order_status_events_actor_id_idx" ON "order_status_events"("actor_id");
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "product_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the history of existing orders with their current status
+INSERT INTO "order_status_events" ("order_id", "status", "actor_type", "note", "created_at")
+SELECT "id", "status", 'SYSTEM', 'Status before history tracking', "updated_at"
+FROM "product_orders";
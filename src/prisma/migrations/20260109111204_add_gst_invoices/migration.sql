@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "gst_rate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "hsn_code" TEXT;
+
+-- AlterTable
+ALTER TABLE "product_orders" ADD COLUMN     "invoice_number" TEXT,
+ADD COLUMN     "invoiced_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "purchased_product_items" ADD COLUMN     "gst_rate" DOUBLE PRECISION,
+ADD COLUMN     "hsn_code" TEXT;
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "financial_year" TEXT NOT NULL,
+    "last_number" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("financial_year")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_orders_invoice_number_key" ON "product_orders"("invoice_number");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "purchased_product_items" ADD COLUMN     "product_color_code" TEXT,
+ADD COLUMN     "product_color_name" TEXT,
+ADD COLUMN     "product_image_url" TEXT,
+ADD COLUMN     "product_material" TEXT,
+ADD COLUMN     "product_name" TEXT,
+ADD COLUMN     "product_slug" TEXT;
+
+-- Backfill existing order lines from the current catalogue
+UPDATE "purchased_product_items" AS i
+SET "product_name" = p."name",
+    "product_slug" = p."slug",
+    "product_image_url" = p."image_urls"[1],
+    "product_material" = p."material",
+    "product_color_name" = p."color_name",
+    "product_color_code" = p."color_code"
+FROM "products" AS p
+WHERE p."id" = i."product_id";
+
+-- AlterTable
+ALTER TABLE "purchased_product_items" ALTER COLUMN "product_color_code" SET NOT NULL,
+ALTER COLUMN "product_color_name" SET NOT NULL,
+ALTER COLUMN "product_material" SET NOT NULL,
+ALTER COLUMN "product_name" SET NOT NULL,
+ALTER COLUMN "product_slug" SET NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "purchased_product_items" DROP CONSTRAINT "purchased_product_items_product_id_fkey";
+
+-- AddForeignKey
+ALTER TABLE "purchased_product_items" ADD CONSTRAINT "purchased_product_items_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
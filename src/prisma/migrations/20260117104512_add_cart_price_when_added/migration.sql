@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "carts" ADD COLUMN     "price_when_added" INTEGER;
+
+-- Backfill existing cart rows with the current product price
+UPDATE "carts" AS c
+SET "price_when_added" = p."price"
+FROM "products" AS p
+WHERE p."id" = c."product_id";
+
+-- AlterTable
+ALTER TABLE "carts" ALTER COLUMN "price_when_added" SET NOT NULL;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "guest_carts" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "guest_carts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "guest_cart_items" (
+    "id" SERIAL NOT NULL,
+    "guest_cart_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "price_when_added" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "guest_cart_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "guest_carts_updated_at_idx" ON "guest_carts"("updated_at");
+
+-- CreateIndex
+CREATE INDEX "guest_cart_items_product_id_idx" ON "guest_cart_items"("product_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_cart_items_guest_cart_id_product_id_key" ON "guest_cart_items"("guest_cart_id", "product_id");
+
+-- AddForeignKey
+ALTER TABLE "guest_cart_items" ADD CONSTRAINT "guest_cart_items_guest_cart_id_fkey" FOREIGN KEY ("guest_cart_id") REFERENCES "guest_carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "guest_cart_items" ADD CONSTRAINT "guest_cart_items_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
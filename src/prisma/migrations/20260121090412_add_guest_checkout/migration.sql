@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "is_guest" BOOLEAN NOT NULL DEFAULT false,
+ALTER COLUMN "auth_id" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "product_orders" ADD COLUMN     "guest_token_hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_orders_guest_token_hash_key" ON "product_orders"("guest_token_hash");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "carts" ADD COLUMN     "saved_for_later" BOOLEAN NOT NULL DEFAULT false;
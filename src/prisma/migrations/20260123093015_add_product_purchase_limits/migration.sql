@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "max_per_customer" INTEGER,
+ADD COLUMN     "max_per_order" INTEGER,
+ADD COLUMN     "quantity_step" INTEGER;
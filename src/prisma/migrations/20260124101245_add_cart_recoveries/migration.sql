@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "cart_recoveries" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "cart_value" INTEGER NOT NULL,
+    "last_activity_at" TIMESTAMP(3) NOT NULL,
+    "coupon_id" INTEGER,
+    "restored_at" TIMESTAMP(3),
+    "recovered_at" TIMESTAMP(3),
+    "order_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_recoveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cart_recovery_items" (
+    "id" SERIAL NOT NULL,
+    "recovery_id" INTEGER NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "price" INTEGER NOT NULL,
+
+    CONSTRAINT "cart_recovery_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_recoveries_token_key" ON "cart_recoveries"("token");
+
+-- CreateIndex
+CREATE INDEX "cart_recoveries_created_at_idx" ON "cart_recoveries"("created_at");
+
+-- CreateIndex
+CREATE INDEX "cart_recoveries_order_id_idx" ON "cart_recoveries"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_recoveries_user_id_last_activity_at_key" ON "cart_recoveries"("user_id", "last_activity_at");
+
+-- CreateIndex
+CREATE INDEX "cart_recovery_items_recovery_id_idx" ON "cart_recovery_items"("recovery_id");
+
+-- CreateIndex
+CREATE INDEX "cart_recovery_items_product_id_idx" ON "cart_recovery_items"("product_id");
+
+-- AddForeignKey
+ALTER TABLE "cart_recoveries" ADD CONSTRAINT "cart_recoveries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_recoveries" ADD CONSTRAINT "cart_recoveries_coupon_id_fkey" FOREIGN KEY ("coupon_id") REFERENCES "coupons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_recoveries" ADD CONSTRAINT "cart_recoveries_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "product_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_recovery_items" ADD CONSTRAINT "cart_recovery_items_recovery_id_fkey" FOREIGN KEY ("recovery_id") REFERENCES "cart_recoveries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_recovery_items" ADD CONSTRAINT "cart_recovery_items_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,81 @@
+-- DropIndex
+DROP INDEX "carts_user_id_product_id_key";
+
+-- DropIndex
+DROP INDEX "guest_cart_items_guest_cart_id_product_id_key";
+
+-- DropIndex
+DROP INDEX "purchased_product_items_order_id_product_id_key";
+
+-- AlterTable
+ALTER TABLE "cart_recovery_items" ADD COLUMN     "variant_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "carts" ADD COLUMN     "variant_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "guest_cart_items" ADD COLUMN     "variant_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "purchased_product_items" ADD COLUMN     "variant_id" INTEGER,
+ADD COLUMN     "variant_name" TEXT,
+ADD COLUMN     "variant_sku" TEXT;
+
+-- CreateTable
+CREATE TABLE "product_variants" (
+    "id" SERIAL NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "sku" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "price" INTEGER,
+    "total_quantity" INTEGER NOT NULL,
+    "available_quantity" INTEGER NOT NULL,
+    "image_urls" TEXT[],
+    "color_code" TEXT,
+    "color_name" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variants_sku_key" ON "product_variants"("sku");
+
+-- CreateIndex
+CREATE INDEX "product_variants_product_id_idx" ON "product_variants"("product_id");
+
+-- CreateIndex
+CREATE INDEX "carts_variant_id_idx" ON "carts"("variant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "carts_user_id_product_id_variant_id_key" ON "carts"("user_id", "product_id", "variant_id");
+
+-- CreateIndex
+CREATE INDEX "guest_cart_items_variant_id_idx" ON "guest_cart_items"("variant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_cart_items_guest_cart_id_product_id_variant_id_key" ON "guest_cart_items"("guest_cart_id", "product_id", "variant_id");
+
+-- CreateIndex
+CREATE INDEX "purchased_product_items_variant_id_idx" ON "purchased_product_items"("variant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchased_product_items_order_id_product_id_variant_id_key" ON "purchased_product_items"("order_id", "product_id", "variant_id");
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "carts" ADD CONSTRAINT "carts_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "guest_cart_items" ADD CONSTRAINT "guest_cart_items_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchased_product_items" ADD CONSTRAINT "purchased_product_items_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_recovery_items" ADD CONSTRAINT "cart_recovery_items_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
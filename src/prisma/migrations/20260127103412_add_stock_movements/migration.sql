@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('SALE', 'CANCELLATION_RESTOCK', 'RETURN', 'MANUAL_ADJUSTMENT', 'BREAKAGE', 'KILN_BATCH');
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" SERIAL NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "variant_id" INTEGER,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "actor_type" "OrderStatusActor" NOT NULL,
+    "actor_id" INTEGER,
+    "reason" TEXT,
+    "order_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movements_product_id_created_at_idx" ON "stock_movements"("product_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_variant_id_idx" ON "stock_movements"("variant_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_actor_id_idx" ON "stock_movements"("actor_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_order_id_idx" ON "stock_movements"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "product_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Opening balance so the ledger adds up to the current stock
+INSERT INTO "stock_movements" ("product_id", "variant_id", "type", "quantity", "actor_type", "reason")
+SELECT "id", NULL, 'MANUAL_ADJUSTMENT', "available_quantity", 'SYSTEM', 'Opening balance'
+FROM "products" p
+WHERE NOT EXISTS (SELECT 1 FROM "product_variants" v WHERE v."product_id" = p."id");
+
+INSERT INTO "stock_movements" ("product_id", "variant_id", "type", "quantity", "actor_type", "reason")
+SELECT "product_id", "id", 'MANUAL_ADJUSTMENT', "available_quantity", 'SYSTEM', 'Opening balance'
+FROM "product_variants";
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "stock_notifications" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "variant_id" INTEGER,
+    "queued_at" TIMESTAMP(3),
+    "sent_at" TIMESTAMP(3),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_notifications_product_id_variant_id_queued_at_idx" ON "stock_notifications"("product_id", "variant_id", "queued_at");
+
+-- CreateIndex
+CREATE INDEX "stock_notifications_queued_at_sent_at_idx" ON "stock_notifications"("queued_at", "sent_at");
+
+-- CreateIndex
+CREATE INDEX "stock_notifications_variant_id_idx" ON "stock_notifications"("variant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_notifications_user_id_product_id_variant_id_key" ON "stock_notifications"("user_id", "product_id", "variant_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_notifications" ADD CONSTRAINT "stock_notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_notifications" ADD CONSTRAINT "stock_notifications_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_notifications" ADD CONSTRAINT "stock_notifications_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "FulfilmentMode" AS ENUM ('IN_STOCK', 'MADE_TO_ORDER', 'PRE_ORDER');
+
+-- AlterTable
+ALTER TABLE "product_orders" ADD COLUMN     "estimated_dispatch_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "fulfilment_mode" "FulfilmentMode" NOT NULL DEFAULT 'IN_STOCK',
+ADD COLUMN     "lead_time_days" INTEGER,
+ADD COLUMN     "preorder_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "preorder_limit" INTEGER,
+ADD COLUMN     "preorder_ship_date" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "purchased_product_items" ADD COLUMN     "estimated_dispatch_at" TIMESTAMP(3),
+ADD COLUMN     "fulfilment_mode" "FulfilmentMode" NOT NULL DEFAULT 'IN_STOCK';
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ProductType" AS ENUM ('STANDARD', 'BUNDLE');
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "bundle_discount" DOUBLE PRECISION,
+ADD COLUMN     "product_type" "ProductType" NOT NULL DEFAULT 'STANDARD';
+
+-- CreateTable
+CREATE TABLE "bundle_items" (
+    "id" SERIAL NOT NULL,
+    "bundle_id" INTEGER NOT NULL,
+    "component_id" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bundle_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bundle_items_component_id_idx" ON "bundle_items"("component_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bundle_items_bundle_id_component_id_key" ON "bundle_items"("bundle_id", "component_id");
+
+-- AddForeignKey
+ALTER TABLE "bundle_items" ADD CONSTRAINT "bundle_items_bundle_id_fkey" FOREIGN KEY ("bundle_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bundle_items" ADD CONSTRAINT "bundle_items_component_id_fkey" FOREIGN KEY ("component_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Lines without a variant have a NULL variant_id, which unique indexes treat
+-- as distinct by default. Recreate the keys so a product without variants
+-- still has one line per cart and order.
+
+-- DropIndex
+DROP INDEX "carts_user_id_product_id_variant_id_key";
+
+-- DropIndex
+DROP INDEX "guest_cart_items_guest_cart_id_product_id_variant_id_key";
+
+-- DropIndex
+DROP INDEX "purchased_product_items_order_id_product_id_variant_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "carts_user_id_product_id_variant_id_key" ON "carts"("user_id", "product_id", "variant_id") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_cart_items_guest_cart_id_product_id_variant_id_key" ON "guest_cart_items"("guest_cart_id", "product_id", "variant_id") NULLS NOT DISTINCT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchased_product_items_order_id_product_id_variant_id_key" ON "purchased_product_items"("order_id", "product_id", "variant_id") NULLS NOT DISTINCT;
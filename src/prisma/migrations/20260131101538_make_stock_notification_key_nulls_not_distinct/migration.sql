@@ -0,0 +1,8 @@
+-- Product level subscriptions have a NULL variant_id, keep them to one per
+-- user like variant subscriptions
+
+-- DropIndex
+DROP INDEX "stock_notifications_user_id_product_id_variant_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_notifications_user_id_product_id_variant_id_key" ON "stock_notifications"("user_id", "product_id", "variant_id") NULLS NOT DISTINCT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "product_orders" ADD COLUMN     "buyer_name" TEXT,
+ADD COLUMN     "buyer_phone" TEXT;
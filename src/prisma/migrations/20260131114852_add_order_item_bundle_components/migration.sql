@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "purchased_product_items" ADD COLUMN     "bundle_components" JSONB;
+
+-- Bundles ordered before this migration keep their current components
+UPDATE "purchased_product_items" AS "item"
+SET "bundle_components" = (
+    SELECT jsonb_agg(
+        jsonb_build_object(
+            'product_id', "bundle"."component_id",
+            'variant_id', NULL,
+            'quantity', "bundle"."quantity"
+        )
+        ORDER BY "bundle"."id"
+    )
+    FROM "bundle_items" AS "bundle"
+    WHERE "bundle"."bundle_id" = "item"."product_id"
+)
+WHERE EXISTS (
+    SELECT 1 FROM "bundle_items" AS "bundle"
+    WHERE "bundle"."bundle_id" = "item"."product_id"
+);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "review_reason" TEXT;
@@ -0,0 +1,51 @@
+-- Emails are matched trimmed and lowercased (normalizeEmail). Rows that
+-- normalize to the same email are resolved before the emails are rewritten:
+--   * guest rows are merged into the signed-up account with that email, or
+--     into the oldest guest row when nobody signed up. Their orders, order
+--     history and returns move over and the duplicate rows are deleted.
+--   * signed-up accounts are never merged. When two of them share an email
+--     both are left as typed for an admin to resolve.
+
+-- Guest rows and the user they are merged into
+CREATE TEMP TABLE "user_email_merges" AS
+SELECT "duplicate"."id" AS "from_id", "keeper"."id" AS "to_id"
+FROM "users" AS "duplicate"
+JOIN LATERAL (
+    SELECT "candidate"."id"
+    FROM "users" AS "candidate"
+    WHERE lower(trim("candidate"."email")) = lower(trim("duplicate"."email"))
+    ORDER BY "candidate"."is_guest" ASC, "candidate"."id" ASC
+    LIMIT 1
+) AS "keeper" ON "keeper"."id" <> "duplicate"."id"
+WHERE "duplicate"."is_guest" = true;
+
+UPDATE "product_orders" AS "order"
+SET "user_id" = "merge"."to_id"
+FROM "user_email_merges" AS "merge"
+WHERE "order"."user_id" = "merge"."from_id";
+
+UPDATE "order_status_events" AS "event"
+SET "actor_id" = "merge"."to_id"
+FROM "user_email_merges" AS "merge"
+WHERE "event"."actor_id" = "merge"."from_id";
+
+UPDATE "return_requests" AS "request"
+SET "user_id" = "merge"."to_id"
+FROM "user_email_merges" AS "merge"
+WHERE "request"."user_id" = "merge"."from_id";
+
+DELETE FROM "users"
+WHERE "id" IN (SELECT "from_id" FROM "user_email_merges");
+
+DROP TABLE "user_email_merges";
+
+-- Rewrite every email that no longer collides
+UPDATE "users" AS "user"
+SET "email" = lower(trim("user"."email"))
+WHERE "user"."email" <> lower(trim("user"."email"))
+  AND NOT EXISTS (
+    SELECT 1
+    FROM "users" AS "other"
+    WHERE "other"."id" <> "user"."id"
+      AND lower(trim("other"."email")) = lower(trim("user"."email"))
+  );
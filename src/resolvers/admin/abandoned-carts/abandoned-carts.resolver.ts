@@ -0,0 +1,160 @@
+import { GraphQLDateTime } from "graphql-scalars";
+import { Arg, Ctx, Query, Resolver } from "type-graphql";
+
+import {
+  findAbandonedCarts,
+  getAbandonedCartSettings,
+  getCartRestoreUrl,
+} from "@/lib/abandoned-carts";
+import { getVariantPrice } from "@/lib/variants";
+import { adminRequired } from "@/middlewares/auth.middleware";
+import { OrderStatus } from "@/prisma/generated/client";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import {
+  AbandonedCartReport,
+  AdminCartRecoveriesFilterInput,
+  AdminCartRecoveriesResponse,
+} from "./abandoned-carts.type";
+
+// Orders that were cancelled or refunded do not count as a recovery
+const RECOVERED_ORDER_WHERE = {
+  is: {
+    status: { notIn: [OrderStatus.CANCELLED, OrderStatus.REFUNDED] },
+  },
+};
+
+@Resolver()
+export class AdminAbandonedCartsResolver {
+  @Query(() => AbandonedCartReport)
+  @adminRequired()
+  async adminAbandonedCartReport(
+    @Ctx() ctx: Context,
+    @Arg("from", () => GraphQLDateTime, { nullable: true }) from?: Date,
+    @Arg("to", () => GraphQLDateTime, { nullable: true }) to?: Date,
+  ): Promise<AbandonedCartReport> {
+    return tryCatchAsync(async () => {
+      const createdAt = { gte: from, lte: to };
+      const settings = await getAbandonedCartSettings(ctx.prisma);
+      const cutoff = new Date(
+        Date.now() - settings.abandon_after_hours * 60 * 60 * 1000,
+      );
+
+      const [flagged, restoredCarts, recovered, idleCarts] = await Promise.all([
+        ctx.prisma.cartRecovery.aggregate({
+          where: { created_at: createdAt },
+          _count: { _all: true },
+          _sum: { cart_value: true },
+        }),
+        ctx.prisma.cartRecovery.count({
+          where: { created_at: createdAt, restored_at: { not: null } },
+        }),
+        ctx.prisma.cartRecovery.findMany({
+          where: { created_at: createdAt, order: RECOVERED_ORDER_WHERE },
+          select: { order: { select: { id: true, total: true } } },
+        }),
+        findAbandonedCarts(ctx.prisma, cutoff),
+      ]);
+
+      // An order that closed several recoveries is counted once
+      const recoveredOrders = new Map(
+        recovered.flatMap((r) =>
+          r.order ? [[r.order.id, r.order.total]] : [],
+        ),
+      );
+
+      const idleItems =
+        idleCarts.length > 0
+          ? await ctx.prisma.cart.findMany({
+              where: {
+                user_id: { in: idleCarts.map((cart) => cart.user_id) },
+                saved_for_later: false,
+              },
+              select: {
+                quantity: true,
+                product: { select: { price: true } },
+                variant: { select: { price: true } },
+              },
+            })
+          : [];
+
+      const flaggedCarts = flagged._count._all;
+
+      return {
+        flagged_carts: flaggedCarts,
+        abandoned_value: flagged._sum.cart_value ?? 0,
+        restored_carts: restoredCarts,
+        recovered_carts: recovered.length,
+        recovered_value: [...recoveredOrders.values()].reduce(
+          (sum, total) => sum + total,
+          0,
+        ),
+        recovery_rate: flaggedCarts > 0 ? recovered.length / flaggedCarts : 0,
+        currently_abandoned_carts: idleCarts.length,
+        currently_abandoned_value: idleItems.reduce(
+          (sum, item) =>
+            sum + getVariantPrice(item.product, item.variant) * item.quantity,
+          0,
+        ),
+      };
+    });
+  }
+
+  @Query(() => AdminCartRecoveriesResponse)
+  @adminRequired()
+  async adminCartRecoveries(
+    @Ctx() ctx: Context,
+    @Arg("filter", () => AdminCartRecoveriesFilterInput, { nullable: true })
+    filter?: AdminCartRecoveriesFilterInput,
+  ): Promise<AdminCartRecoveriesResponse> {
+    return tryCatchAsync(async () => {
+      const page = filter?.page ?? 1;
+      const limit = filter?.limit ?? 20;
+      const skip = (page - 1) * limit;
+
+      const where =
+        typeof filter?.recovered === "boolean"
+          ? filter.recovered
+            ? { order: RECOVERED_ORDER_WHERE }
+            : { NOT: { order: RECOVERED_ORDER_WHERE } }
+          : {};
+
+      const [recoveries, total] = await Promise.all([
+        ctx.prisma.cartRecovery.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { created_at: "desc" },
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+            coupon: { select: { code: true, ends_at: true } },
+            _count: { select: { items: true } },
+          },
+        }),
+        ctx.prisma.cartRecovery.count({ where }),
+      ]);
+
+      return {
+        recoveries: recoveries.map((recovery) => ({
+          id: recovery.id,
+          user: recovery.user,
+          cart_value: recovery.cart_value,
+          item_count: recovery._count.items,
+          last_activity_at: recovery.last_activity_at,
+          restore_url: getCartRestoreUrl(recovery.token),
+          coupon_code: recovery.coupon?.code ?? null,
+          coupon_expires_at: recovery.coupon?.ends_at ?? null,
+          restored_at: recovery.restored_at,
+          recovered_at: recovery.recovered_at,
+          order_id: recovery.order_id,
+          created_at: recovery.created_at,
+        })),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    });
+  }
+}
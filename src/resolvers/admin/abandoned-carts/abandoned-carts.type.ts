@@ -0,0 +1,112 @@
+import { GraphQLDateTime } from "graphql-scalars";
+import { Field, Float, InputType, Int, ObjectType } from "type-graphql";
+
+@ObjectType()
+export class AbandonedCartReport {
+  @Field(() => Int, { description: "Carts flagged in the period" })
+  flagged_carts!: number;
+
+  @Field(() => Int, { description: "Cart value when the carts were flagged" })
+  abandoned_value!: number;
+
+  @Field(() => Int, { description: "Flagged carts restored from their link" })
+  restored_carts!: number;
+
+  @Field(() => Int, {
+    description: "Flagged carts followed by an order that was not cancelled",
+  })
+  recovered_carts!: number;
+
+  @Field(() => Int)
+  recovered_value!: number;
+
+  @Field(() => Float, { description: "Recovered carts over flagged carts" })
+  recovery_rate!: number;
+
+  @Field(() => Int, { description: "Carts idle past the threshold right now" })
+  currently_abandoned_carts!: number;
+
+  @Field(() => Int)
+  currently_abandoned_value!: number;
+}
+
+@InputType()
+export class AdminCartRecoveriesFilterInput {
+  @Field(() => Boolean, { nullable: true })
+  recovered?: boolean;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  page?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 20 })
+  limit?: number;
+}
+
+@ObjectType()
+export class AdminCartRecoveryUser {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String, { nullable: true })
+  name?: string | null;
+
+  @Field(() => String)
+  email!: string;
+}
+
+@ObjectType()
+export class AdminCartRecovery {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => AdminCartRecoveryUser)
+  user!: AdminCartRecoveryUser;
+
+  @Field(() => Int)
+  cart_value!: number;
+
+  @Field(() => Int)
+  item_count!: number;
+
+  @Field(() => GraphQLDateTime)
+  last_activity_at!: Date;
+
+  @Field(() => String)
+  restore_url!: string;
+
+  @Field(() => String, { nullable: true })
+  coupon_code?: string | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  coupon_expires_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  restored_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  recovered_at?: Date | null;
+
+  @Field(() => String, { nullable: true })
+  order_id?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+}
+
+@ObjectType()
+export class AdminCartRecoveriesResponse {
+  @Field(() => [AdminCartRecovery])
+  recoveries!: AdminCartRecovery[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => Int)
+  page!: number;
+
+  @Field(() => Int)
+  limit!: number;
+
+  @Field(() => Int)
+  totalPages!: number;
+}
@@ -4,6 +4,7 @@ import { adminRequired } from "@/middlewares/auth.middleware";
 import {
   EventRegistrationStatus,
   EventStatus,
+  FulfilmentMode,
   OrderStatus,
 } from "@/prisma/generated/client";
 import { Context } from "@/types/context";
@@ -64,17 +65,26 @@ export class AdminAnalyticsResolver {
         }),
         ctx.prisma.eventRegistration.count(),
 
-        // Products
+        // Products, made-to-order and pre-order products hold no stock
         ctx.prisma.product.count({
-          where: { available_quantity: 0, is_active: true },
+          where: {
+            available_quantity: 0,
+            fulfilment_mode: FulfilmentMode.IN_STOCK,
+            is_active: true,
+            deleted_at: null,
+          },
         }),
         ctx.prisma.product.count({
           where: {
             available_quantity: { gt: 0, lte: 5 },
+            fulfilment_mode: FulfilmentMode.IN_STOCK,
             is_active: true,
+            deleted_at: null,
           },
         }),
-        ctx.prisma.product.count({ where: { is_active: true } }),
+        ctx.prisma.product.count({
+          where: { is_active: true, deleted_at: null },
+        }),
 
         // Events
         ctx.prisma.event.count({
@@ -88,10 +98,10 @@ export class AdminAnalyticsResolver {
         }),
         ctx.prisma.event.count(),
 
-        // Users
-        ctx.prisma.user.count(),
+        // Users, guest buyers have no account yet
+        ctx.prisma.user.count({ where: { is_guest: false } }),
         ctx.prisma.user.count({
-          where: { created_at: { gte: startOfMonth } },
+          where: { is_guest: false, created_at: { gte: startOfMonth } },
         }),
 
         // Revenue
@@ -240,7 +250,9 @@ export class AdminAnalyticsResolver {
       const products = await ctx.prisma.product.findMany({
         where: {
           available_quantity: { lte: 5 },
+          fulfilment_mode: FulfilmentMode.IN_STOCK,
           is_active: true,
+          deleted_at: null,
         },
         take: limit,
         orderBy: { available_quantity: "asc" },
@@ -251,10 +263,16 @@ export class AdminAnalyticsResolver {
           available_quantity: true,
           total_quantity: true,
           price: true,
+          _count: {
+            select: { stock_notifications: { where: { queued_at: null } } },
+          },
         },
       });
 
-      return products;
+      return products.map(({ _count, ...product }) => ({
+        ...product,
+        waiting_customers: _count.stock_notifications,
+      }));
     });
   }
 
@@ -187,6 +187,11 @@ export class LowStockProduct {
 
   @Field(() => Float)
   price!: number;
+
+  @Field(() => Int, {
+    description: "Customers waiting for a back in stock notification",
+  })
+  waiting_customers!: number;
 }
 
 @ObjectType()
@@ -0,0 +1,314 @@
+import { Arg, Ctx, Int, Mutation, Query, Resolver } from "type-graphql";
+
+import { normalizeCouponCode } from "@/lib/coupons";
+import { adminRequired } from "@/middlewares/auth.middleware";
+import { CouponType } from "@/prisma/generated/enums";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import {
+  AdminCoupon,
+  AdminCouponMutationResponse,
+  AdminCouponsFilterInput,
+  AdminCouponsResponse,
+  CreateCouponInput,
+  UpdateCouponInput,
+} from "./coupons.type";
+
+interface CouponRules {
+  code: string;
+  type: CouponType;
+  value: number;
+  max_discount: number | null;
+  min_subtotal: number;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  starts_at: Date | null;
+  ends_at: Date | null;
+}
+
+function validateCouponRules(rules: CouponRules): string | null {
+  if (!/^[A-Z0-9_-]{3,32}$/.test(rules.code)) {
+    return "Code must be 3-32 characters of letters, numbers, - or _";
+  }
+
+  if (rules.value <= 0) {
+    return "Coupon value must be greater than zero";
+  }
+
+  if (rules.type === CouponType.PERCENTAGE && rules.value > 100) {
+    return "Percentage discount cannot exceed 100";
+  }
+
+  if (rules.max_discount !== null && rules.max_discount <= 0) {
+    return "Maximum discount must be greater than zero";
+  }
+
+  if (rules.min_subtotal < 0) {
+    return "Minimum subtotal cannot be negative";
+  }
+
+  if (rules.usage_limit !== null && rules.usage_limit < 1) {
+    return "Usage limit must be at least 1";
+  }
+
+  if (rules.per_user_limit !== null && rules.per_user_limit < 1) {
+    return "Per user limit must be at least 1";
+  }
+
+  if (rules.starts_at && rules.ends_at && rules.ends_at <= rules.starts_at) {
+    return "End date must be after start date";
+  }
+
+  return null;
+}
+
+const COUPON_SELECT = {
+  id: true,
+  code: true,
+  description: true,
+  type: true,
+  value: true,
+  max_discount: true,
+  min_subtotal: true,
+  categories: true,
+  materials: true,
+  usage_limit: true,
+  per_user_limit: true,
+  times_redeemed: true,
+  starts_at: true,
+  ends_at: true,
+  is_active: true,
+  created_at: true,
+  updated_at: true,
+  _count: {
+    select: { orders: true },
+  },
+} as const;
+
+@Resolver()
+export class AdminCouponsResolver {
+  @Query(() => AdminCouponsResponse)
+  @adminRequired()
+  async adminCoupons(
+    @Ctx() ctx: Context,
+    @Arg("filter", () => AdminCouponsFilterInput, { nullable: true })
+    filter?: AdminCouponsFilterInput,
+  ): Promise<AdminCouponsResponse> {
+    return tryCatchAsync(async () => {
+      const search = filter?.search ?? "";
+      const isActive = filter?.isActive;
+      const page = filter?.page ?? 1;
+      const limit = filter?.limit ?? 20;
+      const skip = (page - 1) * limit;
+
+      const where: {
+        OR?: { code?: object; description?: object }[];
+        is_active?: boolean;
+      } = {};
+
+      if (search) {
+        where.OR = [
+          { code: { contains: search, mode: "insensitive" } },
+          { description: { contains: search, mode: "insensitive" } },
+        ];
+      }
+
+      if (typeof isActive === "boolean") {
+        where.is_active = isActive;
+      }
+
+      const [coupons, total] = await Promise.all([
+        ctx.prisma.coupon.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { created_at: "desc" },
+          select: COUPON_SELECT,
+        }),
+        ctx.prisma.coupon.count({ where }),
+      ]);
+
+      return {
+        coupons,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    });
+  }
+
+  @Query(() => AdminCoupon, { nullable: true })
+  @adminRequired()
+  async adminCouponById(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+  ): Promise<AdminCoupon | null> {
+    return tryCatchAsync(async () => {
+      return ctx.prisma.coupon.findUnique({
+        where: { id },
+        select: COUPON_SELECT,
+      });
+    });
+  }
+
+  @Mutation(() => AdminCouponMutationResponse)
+  @adminRequired()
+  async adminCreateCoupon(
+    @Ctx() ctx: Context,
+    @Arg("input", () => CreateCouponInput) input: CreateCouponInput,
+  ): Promise<AdminCouponMutationResponse> {
+    return tryCatchAsync(async () => {
+      const rules: CouponRules = {
+        code: normalizeCouponCode(input.code),
+        type: input.type,
+        value: input.value,
+        max_discount: input.max_discount ?? null,
+        min_subtotal: input.min_subtotal ?? 0,
+        usage_limit: input.usage_limit ?? null,
+        per_user_limit: input.per_user_limit ?? null,
+        starts_at: input.starts_at ?? null,
+        ends_at: input.ends_at ?? null,
+      };
+
+      const error = validateCouponRules(rules);
+      if (error) {
+        return { success: false, couponId: null, error };
+      }
+
+      const existingCoupon = await ctx.prisma.coupon.findUnique({
+        where: { code: rules.code },
+        select: { id: true },
+      });
+
+      if (existingCoupon) {
+        return {
+          success: false,
+          couponId: null,
+          error: "A coupon with this code already exists",
+        };
+      }
+
+      const coupon = await ctx.prisma.coupon.create({
+        data: {
+          ...rules,
+          description: input.description,
+          categories: input.categories ?? [],
+          materials: input.materials ?? [],
+          is_active: input.is_active ?? true,
+        },
+      });
+
+      return { success: true, couponId: coupon.id, error: null };
+    });
+  }
+
+  @Mutation(() => AdminCouponMutationResponse)
+  @adminRequired()
+  async adminUpdateCoupon(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+    @Arg("input", () => UpdateCouponInput) input: UpdateCouponInput,
+  ): Promise<AdminCouponMutationResponse> {
+    return tryCatchAsync(async () => {
+      const coupon = await ctx.prisma.coupon.findUnique({ where: { id } });
+
+      if (!coupon) {
+        return { success: false, couponId: null, error: "Coupon not found" };
+      }
+
+      const data = {
+        ...input,
+        ...(input.code !== undefined && {
+          code: normalizeCouponCode(input.code),
+        }),
+      };
+
+      const error = validateCouponRules({
+        code: data.code ?? coupon.code,
+        type: data.type ?? coupon.type,
+        value: data.value ?? coupon.value,
+        max_discount:
+          data.max_discount !== undefined
+            ? data.max_discount
+            : coupon.max_discount,
+        min_subtotal: data.min_subtotal ?? coupon.min_subtotal,
+        usage_limit:
+          data.usage_limit !== undefined
+            ? data.usage_limit
+            : coupon.usage_limit,
+        per_user_limit:
+          data.per_user_limit !== undefined
+            ? data.per_user_limit
+            : coupon.per_user_limit,
+        starts_at:
+          data.starts_at !== undefined ? data.starts_at : coupon.starts_at,
+        ends_at: data.ends_at !== undefined ? data.ends_at : coupon.ends_at,
+      });
+
+      if (error) {
+        return { success: false, couponId: id, error };
+      }
+
+      if (data.code && data.code !== coupon.code) {
+        const existingCoupon = await ctx.prisma.coupon.findFirst({
+          where: { code: data.code, NOT: { id } },
+          select: { id: true },
+        });
+
+        if (existingCoupon) {
+          return {
+            success: false,
+            couponId: id,
+            error: "A coupon with this code already exists",
+          };
+        }
+      }
+
+      await ctx.prisma.coupon.update({
+        where: { id },
+        data,
+      });
+
+      return { success: true, couponId: id, error: null };
+    });
+  }
+
+  @Mutation(() => AdminCouponMutationResponse)
+  @adminRequired()
+  async adminDeleteCoupon(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+  ): Promise<AdminCouponMutationResponse> {
+    return tryCatchAsync(async () => {
+      const coupon = await ctx.prisma.coupon.findUnique({
+        where: { id },
+        select: { id: true, _count: { select: { orders: true } } },
+      });
+
+      if (!coupon) {
+        return { success: false, couponId: null, error: "Coupon not found" };
+      }
+
+      if (coupon._count.orders > 0) {
+        // Has orders - deactivate instead of delete
+        await ctx.prisma.coupon.update({
+          where: { id },
+          data: { is_active: false },
+        });
+
+        return {
+          success: true,
+          couponId: id,
+          error:
+            "Coupon has been redeemed and was deactivated instead of deleted. This keeps order attribution intact.",
+        };
+      }
+
+      await ctx.prisma.coupon.delete({ where: { id } });
+
+      return { success: true, couponId: null, error: null };
+    });
+  }
+}
@@ -0,0 +1,207 @@
+import { GraphQLDateTime } from "graphql-scalars";
+import {
+  Field,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
+
+import { CouponType } from "@/prisma/generated/enums";
+
+registerEnumType(CouponType, {
+  name: "CouponType",
+  description: "Whether a coupon takes a percentage or a flat amount off",
+});
+
+@ObjectType()
+export class AdminCouponCount {
+  @Field(() => Int)
+  orders!: number;
+}
+
+@ObjectType()
+export class AdminCoupon {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  code!: string;
+
+  @Field(() => String, { nullable: true })
+  description?: string | null;
+
+  @Field(() => CouponType)
+  type!: CouponType;
+
+  @Field(() => Int)
+  value!: number;
+
+  @Field(() => Int, { nullable: true })
+  max_discount?: number | null;
+
+  @Field(() => Int)
+  min_subtotal!: number;
+
+  @Field(() => [String])
+  categories!: string[];
+
+  @Field(() => [String])
+  materials!: string[];
+
+  @Field(() => Int, { nullable: true })
+  usage_limit?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  per_user_limit?: number | null;
+
+  @Field(() => Int)
+  times_redeemed!: number;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  starts_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  ends_at?: Date | null;
+
+  @Field(() => Boolean)
+  is_active!: boolean;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+
+  @Field(() => GraphQLDateTime)
+  updated_at!: Date;
+
+  @Field(() => AdminCouponCount)
+  _count!: AdminCouponCount;
+}
+
+@InputType()
+export class AdminCouponsFilterInput {
+  @Field(() => String, { nullable: true })
+  search?: string;
+
+  @Field(() => Boolean, { nullable: true })
+  isActive?: boolean;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  page?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 20 })
+  limit?: number;
+}
+
+@ObjectType()
+export class AdminCouponsResponse {
+  @Field(() => [AdminCoupon])
+  coupons!: AdminCoupon[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => Int)
+  page!: number;
+
+  @Field(() => Int)
+  limit!: number;
+
+  @Field(() => Int)
+  totalPages!: number;
+}
+
+@InputType()
+export class CreateCouponInput {
+  @Field(() => String)
+  code!: string;
+
+  @Field(() => String, { nullable: true })
+  description?: string;
+
+  @Field(() => CouponType)
+  type!: CouponType;
+
+  @Field(() => Int)
+  value!: number;
+
+  @Field(() => Int, { nullable: true })
+  max_discount?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 0 })
+  min_subtotal?: number;
+
+  @Field(() => [String], { nullable: true })
+  categories?: string[];
+
+  @Field(() => [String], { nullable: true })
+  materials?: string[];
+
+  @Field(() => Int, { nullable: true })
+  usage_limit?: number;
+
+  @Field(() => Int, { nullable: true })
+  per_user_limit?: number;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  starts_at?: Date;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  ends_at?: Date;
+
+  @Field(() => Boolean, { nullable: true, defaultValue: true })
+  is_active?: boolean;
+}
+
+@InputType()
+export class UpdateCouponInput {
+  @Field(() => String, { nullable: true })
+  code?: string;
+
+  @Field(() => String, { nullable: true })
+  description?: string | null;
+
+  @Field(() => CouponType, { nullable: true })
+  type?: CouponType;
+
+  @Field(() => Int, { nullable: true })
+  value?: number;
+
+  @Field(() => Int, { nullable: true })
+  max_discount?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  min_subtotal?: number;
+
+  @Field(() => [String], { nullable: true })
+  categories?: string[];
+
+  @Field(() => [String], { nullable: true })
+  materials?: string[];
+
+  @Field(() => Int, { nullable: true })
+  usage_limit?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  per_user_limit?: number | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  starts_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  ends_at?: Date | null;
+
+  @Field(() => Boolean, { nullable: true })
+  is_active?: boolean;
+}
+
+@ObjectType()
+export class AdminCouponMutationResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => Int, { nullable: true })
+  couponId?: number | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+}
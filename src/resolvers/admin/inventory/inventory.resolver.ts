@@ -0,0 +1,407 @@
+import { Arg, Ctx, Int, Mutation, Query, Resolver } from "type-graphql";
+
+import { syncComponentBundles } from "@/lib/bundles";
+import {
+  InsufficientStockError,
+  adjustStock,
+  getLedgerQuantities,
+} from "@/lib/stock";
+import { queueStockNotifications } from "@/lib/stock-notifications";
+import { getVariantName, syncProductStock } from "@/lib/variants";
+import { adminRequired } from "@/middlewares/auth.middleware";
+import {
+  OrderStatusActor,
+  ProductType,
+  StockMovementType,
+} from "@/prisma/generated/client";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import {
+  AdjustStockInput,
+  AdjustStockResponse,
+  AdminStockMovementsFilterInput,
+  AdminStockMovementsResponse,
+  BackInStockDemand,
+  StockDiscrepancy,
+} from "./inventory.type";
+
+// Sales, restocks and returns are recorded by the order and return flows
+const ADJUSTMENT_TYPES: StockMovementType[] = [
+  StockMovementType.MANUAL_ADJUSTMENT,
+  StockMovementType.BREAKAGE,
+  StockMovementType.KILN_BATCH,
+];
+
+// Signed change to stock for an adjustment, or an error for the admin
+function getAdjustmentQuantity(input: AdjustStockInput): number | string {
+  if (!ADJUSTMENT_TYPES.includes(input.type)) {
+    return "Only manual adjustments, breakage and kiln batches can be entered by hand";
+  }
+
+  if (!input.reason.trim()) {
+    return "Enter a reason for the adjustment";
+  }
+
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    return "Quantity must be a whole number other than zero";
+  }
+
+  if (input.type === StockMovementType.MANUAL_ADJUSTMENT) {
+    return input.quantity;
+  }
+
+  if (input.quantity < 0) {
+    return "Enter the number of pieces as a positive number";
+  }
+
+  return input.type === StockMovementType.BREAKAGE
+    ? -input.quantity
+    : input.quantity;
+}
+
+@Resolver()
+export class AdminInventoryResolver {
+  @Mutation(() => AdjustStockResponse)
+  @adminRequired()
+  async adminAdjustStock(
+    @Ctx() ctx: Context,
+    @Arg("input", () => AdjustStockInput) input: AdjustStockInput,
+  ): Promise<AdjustStockResponse> {
+    return tryCatchAsync(async () => {
+      const quantity = getAdjustmentQuantity(input);
+      if (typeof quantity === "string") {
+        return { success: false, error: quantity };
+      }
+
+      const product = await ctx.prisma.product.findUnique({
+        where: { id: input.product_id },
+        select: { product_type: true, variants: { select: { id: true } } },
+      });
+
+      if (!product) {
+        return { success: false, error: "Product not found" };
+      }
+
+      if (product.product_type === ProductType.BUNDLE) {
+        return {
+          success: false,
+          error:
+            "A bundle's stock follows the products in it, adjust those instead",
+        };
+      }
+
+      const variantId = input.variant_id ?? null;
+      if (product.variants.length > 0 && !variantId) {
+        return {
+          success: false,
+          error: "This product has variants, choose the variant to adjust",
+        };
+      }
+      if (variantId && !product.variants.some((v) => v.id === variantId)) {
+        return { success: false, error: "Variant not found" };
+      }
+
+      try {
+        const available = await ctx.prisma.$transaction(async (tx) => {
+          await adjustStock(
+            tx,
+            {
+              product_id: input.product_id,
+              variant_id: variantId,
+              quantity,
+            },
+            {
+              type: input.type,
+              actor_type: OrderStatusActor.ADMIN,
+              actor_id: ctx.user?.dbUserId,
+              reason: input.reason.trim(),
+            },
+          );
+
+          const stock = variantId
+            ? await tx.productVariant.findUniqueOrThrow({
+                where: { id: variantId },
+                select: { available_quantity: true },
+              })
+            : await tx.product.findUniqueOrThrow({
+                where: { id: input.product_id },
+                select: { available_quantity: true },
+              });
+          return stock.available_quantity;
+        });
+
+        return { success: true, error: null, available_quantity: available };
+      } catch (error) {
+        if (error instanceof InsufficientStockError) {
+          const [shortage] = error.shortages;
+          return {
+            success: false,
+            error: `Only ${shortage.available} of ${shortage.name} available, the adjustment would take stock below zero`,
+          };
+        }
+        throw error;
+      }
+    });
+  }
+
+  @Query(() => AdminStockMovementsResponse, { nullable: true })
+  @adminRequired()
+  async adminStockMovements(
+    @Ctx() ctx: Context,
+    @Arg("productId", () => Int) productId: number,
+    @Arg("filter", () => AdminStockMovementsFilterInput, { nullable: true })
+    filter?: AdminStockMovementsFilterInput,
+  ): Promise<AdminStockMovementsResponse | null> {
+    return tryCatchAsync(async () => {
+      const page = filter?.page ?? 1;
+      const limit = filter?.limit ?? 50;
+      const skip = (page - 1) * limit;
+
+      const product = await ctx.prisma.product.findUnique({
+        where: { id: productId },
+        select: { available_quantity: true },
+      });
+
+      if (!product) return null;
+
+      const where = {
+        product_id: productId,
+        variant_id: filter?.variant_id,
+        type: filter?.type,
+      };
+
+      const [movements, total, ledger] = await Promise.all([
+        ctx.prisma.stockMovement.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: [{ created_at: "desc" }, { id: "desc" }],
+          include: {
+            actor: { select: { id: true, email: true, name: true } },
+            variant: { select: { options: true } },
+          },
+        }),
+        ctx.prisma.stockMovement.count({ where }),
+        ctx.prisma.stockMovement.aggregate({
+          where: { product_id: productId },
+          _sum: { quantity: true },
+        }),
+      ]);
+
+      return {
+        movements: movements.map((movement) => ({
+          id: movement.id,
+          variant_id: movement.variant_id,
+          variant_name: movement.variant
+            ? getVariantName(movement.variant.options)
+            : null,
+          type: movement.type,
+          quantity: movement.quantity,
+          actor_type: movement.actor_type,
+          actor: movement.actor,
+          reason: movement.reason,
+          order_id: movement.order_id,
+          created_at: movement.created_at,
+        })),
+        available_quantity: product.available_quantity,
+        ledger_quantity: ledger._sum.quantity ?? 0,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    });
+  }
+
+  // Products and variants whose available quantity no longer matches the
+  // sum of their stock movements
+  @Query(() => [StockDiscrepancy])
+  @adminRequired()
+  async adminStockDiscrepancies(
+    @Ctx() ctx: Context,
+  ): Promise<StockDiscrepancy[]> {
+    return tryCatchAsync(async () => {
+      const [ledger, products] = await Promise.all([
+        getLedgerQuantities(ctx.prisma),
+        // Bundles hold no stock of their own and have no ledger
+        ctx.prisma.product.findMany({
+          where: { product_type: ProductType.STANDARD },
+          select: {
+            id: true,
+            name: true,
+            available_quantity: true,
+            variants: {
+              select: { id: true, options: true, available_quantity: true },
+            },
+          },
+          orderBy: { id: "asc" },
+        }),
+      ]);
+
+      const discrepancies: StockDiscrepancy[] = [];
+      for (const product of products) {
+        const productLedger = ledger.products.get(product.id) ?? 0;
+        if (productLedger !== product.available_quantity) {
+          discrepancies.push({
+            product_id: product.id,
+            product_name: product.name,
+            variant_id: null,
+            variant_name: null,
+            available_quantity: product.available_quantity,
+            ledger_quantity: productLedger,
+          });
+        }
+
+        for (const variant of product.variants) {
+          const variantLedger = ledger.variants.get(variant.id) ?? 0;
+          if (variantLedger !== variant.available_quantity) {
+            discrepancies.push({
+              product_id: product.id,
+              product_name: product.name,
+              variant_id: variant.id,
+              variant_name: getVariantName(variant.options),
+              available_quantity: variant.available_quantity,
+              ledger_quantity: variantLedger,
+            });
+          }
+        }
+      }
+
+      return discrepancies;
+    });
+  }
+
+  // Sold out products and variants ordered by how many customers are
+  // waiting for them to come back
+  @Query(() => [BackInStockDemand])
+  @adminRequired()
+  async adminBackInStockDemand(
+    @Ctx() ctx: Context,
+    @Arg("limit", () => Int, { nullable: true, defaultValue: 20 })
+    limit: number,
+  ): Promise<BackInStockDemand[]> {
+    return tryCatchAsync(async () => {
+      const waiting = await ctx.prisma.stockNotification.groupBy({
+        by: ["product_id", "variant_id"],
+        where: { queued_at: null },
+        _count: { _all: true },
+      });
+
+      const [products, variants] = await Promise.all([
+        ctx.prisma.product.findMany({
+          where: { id: { in: waiting.map((w) => w.product_id) } },
+          select: { id: true, name: true, available_quantity: true },
+        }),
+        ctx.prisma.productVariant.findMany({
+          where: {
+            id: {
+              in: waiting.flatMap((w) => (w.variant_id ? [w.variant_id] : [])),
+            },
+          },
+          select: { id: true, options: true, available_quantity: true },
+        }),
+      ]);
+
+      const productsById = new Map(products.map((p) => [p.id, p]));
+      const variantsById = new Map(variants.map((v) => [v.id, v]));
+
+      const demand: BackInStockDemand[] = [];
+      for (const row of waiting) {
+        const product = productsById.get(row.product_id);
+        const variant = row.variant_id
+          ? variantsById.get(row.variant_id)
+          : null;
+        if (!product || (row.variant_id && !variant)) continue;
+
+        demand.push({
+          product_id: product.id,
+          product_name: product.name,
+          variant_id: variant?.id ?? null,
+          variant_name: variant ? getVariantName(variant.options) : null,
+          available_quantity: (variant ?? product).available_quantity,
+          waiting_customers: row._count._all,
+        });
+      }
+
+      return demand
+        .sort((a, b) => b.waiting_customers - a.waiting_customers)
+        .slice(0, limit);
+    });
+  }
+
+  // Set the product's available stock back to what its ledger adds up to.
+  // The total quantity moves by the same amount.
+  @Mutation(() => AdjustStockResponse)
+  @adminRequired()
+  async adminReconcileStock(
+    @Ctx() ctx: Context,
+    @Arg("productId", () => Int) productId: number,
+  ): Promise<AdjustStockResponse> {
+    return tryCatchAsync(async () => {
+      const available = await ctx.prisma.$transaction(async (tx) => {
+        const product = await tx.product.findUnique({
+          where: { id: productId },
+          select: {
+            available_quantity: true,
+            product_type: true,
+            variants: { select: { id: true, available_quantity: true } },
+          },
+        });
+
+        if (!product) return "Product not found";
+        if (product.product_type === ProductType.BUNDLE) {
+          return "A bundle's stock follows the products in it";
+        }
+
+        const ledger = await getLedgerQuantities(tx, [productId]);
+
+        if (product.variants.length === 0) {
+          const difference =
+            (ledger.products.get(productId) ?? 0) - product.available_quantity;
+          const updated = await tx.product.update({
+            where: { id: productId },
+            data: {
+              available_quantity: { increment: difference },
+              total_quantity: { increment: difference },
+            },
+            select: { available_quantity: true },
+          });
+          await syncComponentBundles(tx, [productId]);
+          await queueStockNotifications(tx, productId, null);
+          return updated.available_quantity;
+        }
+
+        for (const variant of product.variants) {
+          const difference =
+            (ledger.variants.get(variant.id) ?? 0) - variant.available_quantity;
+          if (difference === 0) continue;
+
+          await tx.productVariant.update({
+            where: { id: variant.id },
+            data: {
+              available_quantity: { increment: difference },
+              total_quantity: { increment: difference },
+            },
+          });
+          await queueStockNotifications(tx, productId, variant.id);
+        }
+
+        await syncProductStock(tx, productId);
+
+        return (
+          await tx.product.findUniqueOrThrow({
+            where: { id: productId },
+            select: { available_quantity: true },
+          })
+        ).available_quantity;
+      });
+
+      if (typeof available === "string") {
+        return { success: false, error: available };
+      }
+
+      return { success: true, error: null, available_quantity: available };
+    });
+  }
+}
@@ -0,0 +1,184 @@
+import { GraphQLDateTime } from "graphql-scalars";
+import {
+  Field,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
+
+import { StockMovementType } from "@/prisma/generated/enums";
+
+registerEnumType(StockMovementType, {
+  name: "StockMovementType",
+  description: "Why a product's stock changed",
+});
+
+@InputType()
+export class AdjustStockInput {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Required when the product has variants",
+  })
+  variant_id?: number | null;
+
+  @Field(() => StockMovementType, {
+    description: "MANUAL_ADJUSTMENT, BREAKAGE or KILN_BATCH",
+  })
+  type!: StockMovementType;
+
+  @Field(() => Int, {
+    description:
+      "Signed change for a manual adjustment, pieces broken or fired otherwise",
+  })
+  quantity!: number;
+
+  @Field(() => String)
+  reason!: string;
+}
+
+@ObjectType()
+export class AdjustStockResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Available quantity after the adjustment",
+  })
+  available_quantity?: number | null;
+}
+
+@InputType()
+export class AdminStockMovementsFilterInput {
+  @Field(() => Int, { nullable: true })
+  variant_id?: number;
+
+  @Field(() => StockMovementType, { nullable: true })
+  type?: StockMovementType;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  page?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 50 })
+  limit?: number;
+}
+
+@ObjectType()
+export class AdminStockMovementActor {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  email!: string;
+
+  @Field(() => String, { nullable: true })
+  name?: string | null;
+}
+
+@ObjectType()
+export class AdminStockMovement {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => Int, { nullable: true })
+  variant_id?: number | null;
+
+  @Field(() => String, { nullable: true })
+  variant_name?: string | null;
+
+  @Field(() => StockMovementType)
+  type!: StockMovementType;
+
+  @Field(() => Int, { description: "Signed change to the available quantity" })
+  quantity!: number;
+
+  @Field(() => String)
+  actor_type!: string;
+
+  @Field(() => AdminStockMovementActor, { nullable: true })
+  actor?: AdminStockMovementActor | null;
+
+  @Field(() => String, { nullable: true })
+  reason?: string | null;
+
+  @Field(() => String, { nullable: true })
+  order_id?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+}
+
+@ObjectType()
+export class AdminStockMovementsResponse {
+  @Field(() => [AdminStockMovement])
+  movements!: AdminStockMovement[];
+
+  @Field(() => Int)
+  available_quantity!: number;
+
+  @Field(() => Int, { description: "Sum of every movement of the product" })
+  ledger_quantity!: number;
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => Int)
+  page!: number;
+
+  @Field(() => Int)
+  limit!: number;
+
+  @Field(() => Int)
+  totalPages!: number;
+}
+
+@ObjectType()
+export class BackInStockDemand {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => Int, { nullable: true })
+  variant_id?: number | null;
+
+  @Field(() => String, { nullable: true })
+  variant_name?: string | null;
+
+  @Field(() => Int)
+  available_quantity!: number;
+
+  @Field(() => Int, {
+    description: "Customers waiting for a back in stock notification",
+  })
+  waiting_customers!: number;
+}
+
+@ObjectType()
+export class StockDiscrepancy {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => Int, { nullable: true })
+  variant_id?: number | null;
+
+  @Field(() => String, { nullable: true })
+  variant_name?: string | null;
+
+  @Field(() => Int)
+  available_quantity!: number;
+
+  @Field(() => Int)
+  ledger_quantity!: number;
+}
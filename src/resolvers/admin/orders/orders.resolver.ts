@@ -1,159 +1,218 @@
-import { Arg, Ctx, Float, Int, Mutation, Resolver } from "type-graphql";
-
+import { Arg, Ctx, Float, Int, Mutation, Query, Resolver } from "type-graphql";
+
+import {
+  buildAdminOrdersWhere,
+  getAdminOrdersOrderBy,
+} from "@/lib/admin-orders";
+import { transitionOrderStatus } from "@/lib/orders";
+import {
+  PURCHASE_LIMITS_SELECT,
+  checkPurchaseLimits,
+} from "@/lib/purchase-limits";
+import {
+  ShipmentError,
+  appendTrackingEvent,
+  shipOrder,
+  validateTrackingUrl,
+} from "@/lib/shipments";
+import { StatusTransitionError } from "@/lib/status-machine";
+import {
+  InsufficientStockError,
+  StockShortage,
+  releaseStock,
+  reserveStock,
+} from "@/lib/stock";
 import { adminRequired } from "@/middlewares/auth.middleware";
-import { OrderStatus } from "@/prisma/generated/client";
+import {
+  OrderStatusActor,
+  OrderStatus as PrismaOrderStatus,
+  StockMovementType,
+} from "@/prisma/generated/client";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
-import { AdminOrderMutationResponse } from "./orders.type";
-
-// Order of statuses for regression checking
-const ORDER_STATUS_SEQUENCE: OrderStatus[] = [
-  OrderStatus.PENDING,
-  OrderStatus.PROCESSING,
-  OrderStatus.PAID,
-  OrderStatus.SHIPPED,
-  OrderStatus.DELIVERED,
-  OrderStatus.CANCELLED,
-  OrderStatus.RETURNED,
-  OrderStatus.REFUNDED,
-];
-
-type TimestampField =
-  | "request_at"
-  | "approved_at"
-  | "paid_at"
-  | "shipped_at"
-  | "delivered_at"
-  | "cancelled_at"
-  | "returned_at"
-  | "refunded_at";
-
-// Map status to timestamp field
-const STATUS_TIMESTAMP_FIELDS: Record<OrderStatus, TimestampField | null> = {
-  [OrderStatus.PENDING]: "request_at",
-  [OrderStatus.PROCESSING]: "approved_at",
-  [OrderStatus.PAID]: "paid_at",
-  [OrderStatus.SHIPPED]: "shipped_at",
-  [OrderStatus.DELIVERED]: "delivered_at",
-  [OrderStatus.CANCELLED]: "cancelled_at",
-  [OrderStatus.RETURNED]: "returned_at",
-  [OrderStatus.REFUNDED]: "refunded_at",
-};
-
-// Main flow statuses (excludes terminal states)
-const MAIN_FLOW = ORDER_STATUS_SEQUENCE.slice(0, 5); // PENDING to DELIVERED
-
-// Get statuses that come after the given status
-function getLaterStatuses(status: OrderStatus): OrderStatus[] {
-  const statusIndex = MAIN_FLOW.indexOf(status);
-  if (statusIndex !== -1) {
-    return MAIN_FLOW.slice(statusIndex + 1);
-  }
-  return [];
+import { OrderStatus } from "../../orders/orders.type";
+import {
+  AddTrackingEventInput,
+  AdminOrderDetail,
+  AdminOrderMutationResponse,
+  AdminOrdersFilterInput,
+  AdminOrdersResponse,
+  AdminShipmentMutationResponse,
+  ShipOrderInput,
+  UpdateShipmentInput,
+} from "./orders.type";
+
+function formatStockShortages(shortages: StockShortage[]): string {
+  const details = shortages
+    .map(
+      (s) => `${s.name} (requested ${s.requested}, available ${s.available})`,
+    )
+    .join(", ");
+  return `Not enough stock: ${details}`;
 }
 
-// Get statuses between current and new status (exclusive of current, inclusive of new)
-function getIntermediateStatuses(
-  currentStatus: OrderStatus,
-  newStatus: OrderStatus,
-): OrderStatus[] {
-  const currentIndex = MAIN_FLOW.indexOf(currentStatus);
-  const newIndex = MAIN_FLOW.indexOf(newStatus);
+@Resolver()
+export class AdminOrdersResolver {
+  @Query(() => AdminOrdersResponse)
+  @adminRequired()
+  async adminOrders(
+    @Ctx() ctx: Context,
+    @Arg("filter", () => AdminOrdersFilterInput, { nullable: true })
+    filter?: AdminOrdersFilterInput,
+  ): Promise<AdminOrdersResponse> {
+    return tryCatchAsync(async () => {
+      const page = filter?.page ?? 1;
+      const limit = filter?.limit ?? 20;
+      const skip = (page - 1) * limit;
+
+      const where = buildAdminOrdersWhere({
+        ...filter,
+        statuses: filter?.statuses as PrismaOrderStatus[] | undefined,
+      });
 
-  if (currentIndex === -1 || newIndex === -1 || newIndex <= currentIndex) {
-    return [];
+      const [orders, total] = await Promise.all([
+        ctx.prisma.productOrder.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: getAdminOrdersOrderBy(filter ?? {}),
+          select: {
+            id: true,
+            status: true,
+            subtotal: true,
+            discount: true,
+            coupon_code: true,
+            shipping_fee: true,
+            total: true,
+            invoice_number: true,
+            paid_at: true,
+            created_at: true,
+            updated_at: true,
+            user: {
+              select: { id: true, email: true, name: true, phone: true },
+            },
+            _count: { select: { ordered_products: true } },
+          },
+        }),
+        ctx.prisma.productOrder.count({ where }),
+      ]);
+
+      return {
+        orders: orders.map(({ _count, ...order }) => ({
+          ...order,
+          status: order.status as OrderStatus,
+          item_count: _count.ordered_products,
+        })),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    });
   }
 
-  return MAIN_FLOW.slice(currentIndex + 1, newIndex + 1);
-}
+  @Query(() => AdminOrderDetail, { nullable: true })
+  @adminRequired()
+  async adminOrderById(
+    @Ctx() ctx: Context,
+    @Arg("orderId", () => String) orderId: string,
+  ): Promise<AdminOrderDetail | null> {
+    return tryCatchAsync(async () => {
+      const order = await ctx.prisma.productOrder.findUnique({
+        where: { id: orderId },
+        include: {
+          user: {
+            select: { id: true, email: true, name: true, phone: true },
+          },
+          ordered_products: { orderBy: { id: "asc" } },
+          payments: { orderBy: { created_at: "asc" } },
+          history: {
+            orderBy: { created_at: "asc" },
+            select: {
+              id: true,
+              previous_status: true,
+              status: true,
+              actor_type: true,
+              note: true,
+              created_at: true,
+              actor: {
+                select: { id: true, email: true, name: true },
+              },
+            },
+          },
+          shipments: {
+            orderBy: { shipped_at: "asc" },
+            include: {
+              items: true,
+              events: { orderBy: { occurred_at: "asc" } },
+            },
+          },
+          refunds: { orderBy: { created_at: "asc" } },
+        },
+      });
 
-interface OrderUpdateData {
-  status: OrderStatus;
-  request_at?: Date | null;
-  approved_at?: Date | null;
-  paid_at?: Date | null;
-  shipped_at?: Date | null;
-  delivered_at?: Date | null;
-  cancelled_at?: Date | null;
-  returned_at?: Date | null;
-  refunded_at?: Date | null;
-}
+      if (!order) return null;
+
+      return { ...order, status: order.status as OrderStatus };
+    });
+  }
 
-@Resolver()
-export class AdminOrdersResolver {
   @Mutation(() => AdminOrderMutationResponse)
   @adminRequired()
   async adminUpdateOrderStatus(
     @Ctx() ctx: Context,
     @Arg("orderId", () => String) orderId: string,
-    @Arg("status", () => String) newStatusStr: string,
+    @Arg("status", () => OrderStatus) newStatus: OrderStatus,
+    @Arg("note", () => String, {
+      nullable: true,
+      description: "Shown to the customer in the order history",
+    })
+    note?: string,
   ): Promise<AdminOrderMutationResponse> {
     return tryCatchAsync(async () => {
-      const newStatus = newStatusStr as OrderStatus;
-
       const order = await ctx.prisma.productOrder.findUnique({
         where: { id: orderId },
-        select: { id: true, status: true, user_id: true },
+        select: { id: true, status: true },
       });
 
       if (!order) {
         return { success: false, error: "Order not found" };
       }
 
-      if (order.status === newStatus) {
+      if (order.status === (newStatus as PrismaOrderStatus)) {
         return { success: true, error: null };
       }
 
-      const now = new Date();
-      const currentIndex = ORDER_STATUS_SEQUENCE.indexOf(order.status);
-      const newIndex = ORDER_STATUS_SEQUENCE.indexOf(newStatus);
-
-      const updateData: OrderUpdateData = { status: newStatus };
-
-      // If moving forward, set all intermediate timestamps
-      if (newIndex > currentIndex) {
-        const intermediateStatuses = getIntermediateStatuses(
-          order.status,
-          newStatus,
-        );
-        for (const status of intermediateStatuses) {
-          const field = STATUS_TIMESTAMP_FIELDS[status];
-          if (field) {
-            updateData[field] = now;
-          }
-        }
-      }
-
-      // Set the timestamp for the new status
-      const timestampField = STATUS_TIMESTAMP_FIELDS[newStatus];
-      if (timestampField && !updateData[timestampField]) {
-        updateData[timestampField] = now;
-      }
-
-      // If moving backwards, clear timestamps for later statuses
-      if (newIndex < currentIndex) {
-        const laterStatuses = getLaterStatuses(newStatus);
-        for (const laterStatus of laterStatuses) {
-          const laterField = STATUS_TIMESTAMP_FIELDS[laterStatus];
-          if (laterField) {
-            updateData[laterField] = null;
-          }
+      try {
+        await ctx.prisma.$transaction(async (tx) => {
+          await transitionOrderStatus(tx, {
+            order_id: orderId,
+            from: order.status,
+            to: newStatus as PrismaOrderStatus,
+            actor_type: OrderStatusActor.ADMIN,
+            actor_id: ctx.user?.dbUserId,
+            note,
+          });
+        });
+      } catch (error) {
+        if (error instanceof StatusTransitionError) {
+          return {
+            success: false,
+            error: error.message,
+            error_code: error.code,
+          };
         }
-
-        // Also clear terminal status timestamps if going back to main flow
-        if (newIndex < 5) {
-          updateData.cancelled_at = null;
-          updateData.returned_at = null;
-          updateData.refunded_at = null;
+        if (error instanceof InsufficientStockError) {
+          return {
+            success: false,
+            error: formatStockShortages(error.shortages),
+            error_code: "INSUFFICIENT_STOCK",
+          };
         }
+        throw error;
       }
 
-      await ctx.prisma.productOrder.update({
-        where: { id: orderId },
-        data: updateData,
-      });
-
       return { success: true, error: null };
     });
   }
@@ -396,15 +455,24 @@ export class AdminOrdersResolver {
         where: { id: itemId },
         select: {
           id: true,
+          product_id: true,
+          variant_id: true,
           price: true,
+          quantity: true,
           discount: true,
+          fulfilment_mode: true,
+          bundle_components: true,
+          product: { select: PURCHASE_LIMITS_SELECT },
           order: {
             select: {
               id: true,
+              user_id: true,
               shipping_fee: true,
+              stock_reserved: true,
               ordered_products: {
                 select: {
                   id: true,
+                  product_id: true,
                   price: true,
                   quantity: true,
                   discount: true,
@@ -419,16 +487,88 @@ export class AdminOrdersResolver {
         return { success: false, error: "Item not found" };
       }
 
+      // The order's current quantity is left out of the customer's history,
+      // other variants of the product on the order still count
+      const otherVariantLines = item.order.ordered_products
+        .filter((p) => p.id !== item.id && p.product_id === item.product_id)
+        .map((p) => ({
+          product_id: p.product_id,
+          quantity: p.quantity,
+          product: item.product,
+        }));
+      const limitError = await checkPurchaseLimits(
+        ctx.prisma,
+        item.order.user_id,
+        [
+          { product_id: item.product_id, quantity, product: item.product },
+          ...otherVariantLines,
+        ],
+        item.order.id,
+      );
+      if (limitError) {
+        return { success: false, error: limitError };
+      }
+
       const newItemTotal = item.price * quantity;
       const adjustedDiscount = Math.min(item.discount, newItemTotal);
+      const quantityDelta = quantity - item.quantity;
+
+      try {
+        await ctx.prisma.$transaction(async (tx) => {
+          // Keep reserved stock in line with the new quantity
+          const movement = {
+            actor_type: OrderStatusActor.ADMIN,
+            actor_id: ctx.user?.dbUserId,
+            order_id: item.order.id,
+            reason: "Order quantity changed",
+          };
+          if (item.order.stock_reserved && quantityDelta > 0) {
+            await reserveStock(
+              tx,
+              [
+                {
+                  product_id: item.product_id,
+                  variant_id: item.variant_id,
+                  quantity: quantityDelta,
+                  fulfilment_mode: item.fulfilment_mode,
+                  bundle_components: item.bundle_components,
+                },
+              ],
+              { ...movement, type: StockMovementType.SALE },
+            );
+          } else if (item.order.stock_reserved && quantityDelta < 0) {
+            await releaseStock(
+              tx,
+              [
+                {
+                  product_id: item.product_id,
+                  variant_id: item.variant_id,
+                  quantity: -quantityDelta,
+                  fulfilment_mode: item.fulfilment_mode,
+                  bundle_components: item.bundle_components,
+                },
+              ],
+              { ...movement, type: StockMovementType.CANCELLATION_RESTOCK },
+            );
+          }
 
-      await ctx.prisma.purchasedProductItem.update({
-        where: { id: itemId },
-        data: {
-          quantity,
-          discount: adjustedDiscount,
-        },
-      });
+          await tx.purchasedProductItem.update({
+            where: { id: itemId },
+            data: {
+              quantity,
+              discount: adjustedDiscount,
+            },
+          });
+        });
+      } catch (error) {
+        if (error instanceof InsufficientStockError) {
+          return {
+            success: false,
+            error: formatStockShortages(error.shortages),
+          };
+        }
+        throw error;
+      }
 
       const subtotal = item.order.ordered_products.reduce(
         (sum, p) => sum + p.price * (p.id === itemId ? quantity : p.quantity),
@@ -454,4 +594,138 @@ export class AdminOrdersResolver {
       return { success: true, error: null };
     });
   }
+
+  @Mutation(() => AdminShipmentMutationResponse)
+  @adminRequired()
+  async adminShipOrder(
+    @Ctx() ctx: Context,
+    @Arg("input", () => ShipOrderInput) input: ShipOrderInput,
+  ): Promise<AdminShipmentMutationResponse> {
+    return tryCatchAsync(async () => {
+      const order = await ctx.prisma.productOrder.findUnique({
+        where: { id: input.orderId },
+        select: { id: true },
+      });
+
+      if (!order) {
+        return { success: false, error: "Order not found" };
+      }
+
+      let shipmentId: number;
+      try {
+        shipmentId = await ctx.prisma.$transaction(async (tx) =>
+          shipOrder(tx, {
+            order_id: input.orderId,
+            carrier: input.carrier,
+            tracking_number: input.tracking_number,
+            tracking_url: input.tracking_url,
+            items: input.items,
+            actor_id: ctx.user?.dbUserId,
+            note: input.note,
+          }),
+        );
+      } catch (error) {
+        if (error instanceof StatusTransitionError) {
+          return {
+            success: false,
+            error: error.message,
+            error_code: error.code,
+          };
+        }
+        if (error instanceof ShipmentError) {
+          return { success: false, error: error.message };
+        }
+        throw error;
+      }
+
+      return { success: true, shipmentId, error: null };
+    });
+  }
+
+  @Mutation(() => AdminShipmentMutationResponse)
+  @adminRequired()
+  async adminUpdateShipment(
+    @Ctx() ctx: Context,
+    @Arg("shipmentId", () => Int) shipmentId: number,
+    @Arg("input", () => UpdateShipmentInput) input: UpdateShipmentInput,
+  ): Promise<AdminShipmentMutationResponse> {
+    return tryCatchAsync(async () => {
+      const shipment = await ctx.prisma.shipment.findUnique({
+        where: { id: shipmentId },
+        select: { id: true },
+      });
+
+      if (!shipment) {
+        return { success: false, error: "Shipment not found" };
+      }
+
+      const carrier = input.carrier?.trim();
+      const trackingNumber = input.tracking_number?.trim();
+      const trackingUrl = input.tracking_url?.trim() || null;
+
+      if (carrier === "" || trackingNumber === "") {
+        return {
+          success: false,
+          error: "Carrier and tracking number cannot be empty",
+        };
+      }
+
+      if (trackingUrl) {
+        const urlError = validateTrackingUrl(trackingUrl);
+        if (urlError) {
+          return { success: false, error: urlError };
+        }
+      }
+
+      await ctx.prisma.shipment.update({
+        where: { id: shipmentId },
+        data: {
+          ...(carrier && { carrier }),
+          ...(trackingNumber && { tracking_number: trackingNumber }),
+          ...(input.tracking_url !== undefined && {
+            tracking_url: trackingUrl,
+          }),
+        },
+      });
+
+      return { success: true, shipmentId, error: null };
+    });
+  }
+
+  @Mutation(() => AdminShipmentMutationResponse)
+  @adminRequired()
+  async adminAddShipmentTrackingEvent(
+    @Ctx() ctx: Context,
+    @Arg("shipmentId", () => Int) shipmentId: number,
+    @Arg("input", () => AddTrackingEventInput) input: AddTrackingEventInput,
+  ): Promise<AdminShipmentMutationResponse> {
+    return tryCatchAsync(async () => {
+      const shipment = await ctx.prisma.shipment.findUnique({
+        where: { id: shipmentId },
+        select: { id: true },
+      });
+
+      if (!shipment) {
+        return { success: false, error: "Shipment not found" };
+      }
+
+      if (input.occurred_at && input.occurred_at > new Date()) {
+        return {
+          success: false,
+          error: "Tracking events cannot be in the future",
+        };
+      }
+
+      await ctx.prisma.$transaction(async (tx) => {
+        await appendTrackingEvent(tx, shipmentId, {
+          status: input.status,
+          description: input.description,
+          location: input.location,
+          occurred_at: input.occurred_at,
+        });
+      });
+
+      return { success: true, shipmentId, error: null };
+    });
+  }
 }
@@ -1,6 +1,35 @@
-import { Field, Float, InputType, Int, ObjectType } from "type-graphql";
+import { GraphQLDateTime, GraphQLJSON } from "graphql-scalars";
+import {
+  Field,
+  Float,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
 
-import { OrderStatus } from "@/prisma/generated/client";
+import { AdminOrderSortField, SortDirection } from "@/lib/admin-orders";
+import {
+  FulfilmentMode,
+  PaymentStatus,
+  ShipmentTrackingStatus,
+} from "@/prisma/generated/enums";
+
+import {
+  OrderStatus,
+  Shipment,
+  ShippingAddress,
+} from "../../orders/orders.type";
+import { Refund } from "../../returns/returns.type";
+
+registerEnumType(AdminOrderSortField, {
+  name: "AdminOrderSortField",
+  description: "Field the admin order list is sorted by",
+});
+
+registerEnumType(SortDirection, {
+  name: "SortDirection",
+});
 
 @ObjectType()
 export class AdminOrderMutationResponse {
@@ -9,6 +38,12 @@ export class AdminOrderMutationResponse {
 
   @Field(() => String, { nullable: true })
   error?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Machine-readable reason when a status change is rejected",
+  })
+  error_code?: string | null;
 }
 
 @InputType()
@@ -16,6 +51,446 @@ export class UpdateOrderStatusInput {
   @Field(() => String)
   orderId!: string;
 
+  @Field(() => OrderStatus)
+  status!: OrderStatus;
+}
+
+@ObjectType()
+export class AdminOrderStatusEventActor {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  email!: string;
+
+  @Field(() => String, { nullable: true })
+  name?: string | null;
+}
+
+@ObjectType()
+export class AdminOrderStatusEvent {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String, { nullable: true })
+  previous_status?: string | null;
+
   @Field(() => String)
   status!: string;
+
+  @Field(() => String)
+  actor_type!: string;
+
+  @Field(() => AdminOrderStatusEventActor, { nullable: true })
+  actor?: AdminOrderStatusEventActor | null;
+
+  @Field(() => String, { nullable: true })
+  note?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+}
+
+@InputType()
+export class ShipmentItemInput {
+  @Field(() => Int)
+  order_item_id!: number;
+
+  @Field(() => Int)
+  quantity!: number;
+}
+
+@InputType()
+export class ShipOrderInput {
+  @Field(() => String)
+  orderId!: string;
+
+  @Field(() => String)
+  carrier!: string;
+
+  @Field(() => String)
+  tracking_number!: string;
+
+  @Field(() => String, { nullable: true })
+  tracking_url?: string;
+
+  @Field(() => [ShipmentItemInput], {
+    nullable: true,
+    description: "Items in this parcel, leave empty to ship the whole order",
+  })
+  items?: ShipmentItemInput[];
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Shown to the customer in the order history",
+  })
+  note?: string;
+}
+
+@InputType()
+export class UpdateShipmentInput {
+  @Field(() => String, { nullable: true })
+  carrier?: string;
+
+  @Field(() => String, { nullable: true })
+  tracking_number?: string;
+
+  @Field(() => String, { nullable: true })
+  tracking_url?: string | null;
+}
+
+@InputType()
+export class AddTrackingEventInput {
+  @Field(() => ShipmentTrackingStatus)
+  status!: ShipmentTrackingStatus;
+
+  @Field(() => String, { nullable: true })
+  description?: string;
+
+  @Field(() => String, { nullable: true })
+  location?: string;
+
+  @Field(() => GraphQLDateTime, {
+    nullable: true,
+    description: "When the carrier recorded the event, defaults to now",
+  })
+  occurred_at?: Date;
+}
+
+@ObjectType()
+export class AdminShipmentMutationResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => Int, { nullable: true })
+  shipmentId?: number | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => String, { nullable: true })
+  error_code?: string | null;
+}
+
+@InputType()
+export class AdminOrdersFilterInput {
+  @Field(() => [OrderStatus], { nullable: true })
+  statuses?: OrderStatus[];
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  createdFrom?: Date;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  createdTo?: Date;
+
+  @Field(() => Int, { nullable: true })
+  minTotal?: number;
+
+  @Field(() => Int, { nullable: true })
+  maxTotal?: number;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Matches the customer's email or name",
+  })
+  customer?: string;
+
+  @Field(() => String, { nullable: true })
+  orderIdPrefix?: string;
+
+  @Field(() => Int, { nullable: true })
+  productId?: number;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Matches the product name as it was when ordered",
+  })
+  product?: string;
+
+  @Field(() => AdminOrderSortField, { nullable: true })
+  sortBy?: AdminOrderSortField;
+
+  @Field(() => SortDirection, { nullable: true })
+  sortDirection?: SortDirection;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  page?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 20 })
+  limit?: number;
+}
+
+@ObjectType()
+export class AdminOrderUser {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  email!: string;
+
+  @Field(() => String, { nullable: true })
+  name?: string | null;
+
+  @Field(() => String, { nullable: true })
+  phone?: string | null;
+}
+
+@ObjectType()
+export class AdminOrderListItem {
+  @Field(() => String)
+  id!: string;
+
+  @Field(() => OrderStatus)
+  status!: OrderStatus;
+
+  @Field(() => AdminOrderUser)
+  user!: AdminOrderUser;
+
+  @Field(() => Int)
+  item_count!: number;
+
+  @Field(() => Int)
+  subtotal!: number;
+
+  @Field(() => Int)
+  discount!: number;
+
+  @Field(() => String, { nullable: true })
+  coupon_code?: string | null;
+
+  @Field(() => Int)
+  shipping_fee!: number;
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => String, { nullable: true })
+  invoice_number?: string | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  paid_at?: Date | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+
+  @Field(() => GraphQLDateTime)
+  updated_at!: Date;
+}
+
+@ObjectType()
+export class AdminOrdersResponse {
+  @Field(() => [AdminOrderListItem])
+  orders!: AdminOrderListItem[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => Int)
+  page!: number;
+
+  @Field(() => Int)
+  limit!: number;
+
+  @Field(() => Int)
+  totalPages!: number;
+}
+
+@ObjectType()
+export class AdminOrderItem {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => String)
+  product_slug!: string;
+
+  @Field(() => String, { nullable: true })
+  product_image_url?: string | null;
+
+  @Field(() => String)
+  product_material!: string;
+
+  @Field(() => String)
+  product_color_name!: string;
+
+  @Field(() => String)
+  product_color_code!: string;
+
+  @Field(() => Int, { nullable: true })
+  variant_id?: number | null;
+
+  @Field(() => String, { nullable: true })
+  variant_sku?: string | null;
+
+  @Field(() => String, { nullable: true })
+  variant_name?: string | null;
+
+  @Field(() => FulfilmentMode)
+  fulfilment_mode!: FulfilmentMode;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  estimated_dispatch_at?: Date | null;
+
+  @Field(() => Int)
+  quantity!: number;
+
+  @Field(() => Int)
+  returned_quantity!: number;
+
+  @Field(() => Int)
+  price!: number;
+
+  @Field(() => Int)
+  discount!: number;
+
+  @Field(() => String, { nullable: true })
+  hsn_code?: string | null;
+
+  @Field(() => Float, { nullable: true })
+  gst_rate?: number | null;
+}
+
+@ObjectType()
+export class AdminOrderPayment {
+  @Field(() => String)
+  id!: string;
+
+  @Field(() => String)
+  provider!: string;
+
+  @Field(() => String, { nullable: true })
+  provider_payment_id?: string | null;
+
+  @Field(() => Int)
+  amount!: number;
+
+  @Field(() => String)
+  currency!: string;
+
+  @Field(() => PaymentStatus)
+  status!: PaymentStatus;
+
+  @Field(() => String, { nullable: true })
+  failure_reason?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Why a succeeded payment did not mark the order as paid",
+  })
+  review_reason?: string | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  paid_at?: Date | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+}
+
+@ObjectType()
+export class AdminOrderDetail {
+  @Field(() => String)
+  id!: string;
+
+  @Field(() => OrderStatus)
+  status!: OrderStatus;
+
+  @Field(() => AdminOrderUser)
+  user!: AdminOrderUser;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Name a guest buyer entered at checkout",
+  })
+  buyer_name?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Phone number a guest buyer entered at checkout",
+  })
+  buyer_phone?: string | null;
+
+  @Field(() => Int)
+  subtotal!: number;
+
+  @Field(() => Int)
+  discount!: number;
+
+  @Field(() => String, { nullable: true })
+  coupon_code?: string | null;
+
+  @Field(() => Int)
+  coupon_discount!: number;
+
+  @Field(() => Int)
+  shipping_fee!: number;
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => Boolean, {
+    description: "Whether the ordered quantities are held out of stock",
+  })
+  stock_reserved!: boolean;
+
+  @Field(() => String, { nullable: true })
+  invoice_number?: string | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  invoiced_at?: Date | null;
+
+  @Field(() => GraphQLJSON)
+  shipping_address!: ShippingAddress;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  request_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  approved_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  paid_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  shipped_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  delivered_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  cancelled_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  returned_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  refunded_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  estimated_dispatch_at?: Date | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+
+  @Field(() => GraphQLDateTime)
+  updated_at!: Date;
+
+  @Field(() => [AdminOrderItem])
+  ordered_products!: AdminOrderItem[];
+
+  @Field(() => [AdminOrderPayment])
+  payments!: AdminOrderPayment[];
+
+  @Field(() => [AdminOrderStatusEvent])
+  history!: AdminOrderStatusEvent[];
+
+  @Field(() => [Shipment])
+  shipments!: Shipment[];
+
+  @Field(() => [Refund])
+  refunds!: Refund[];
 }
@@ -1,6 +1,23 @@
 import { Arg, Ctx, Int, Mutation, Query, Resolver } from "type-graphql";
 
+import {
+  BUNDLE_ITEMS_INCLUDE,
+  syncBundle,
+  syncComponentBundles,
+  validateBundleDiscount,
+  validateBundleItems,
+} from "@/lib/bundles";
+import { FULFILMENT_SELECT, validateFulfilment } from "@/lib/fulfilment";
+import { validatePurchaseLimits } from "@/lib/purchase-limits";
+import { queueStockNotifications } from "@/lib/stock-notifications";
+import { getVariantName, syncProductStock } from "@/lib/variants";
 import { adminRequired } from "@/middlewares/auth.middleware";
+import {
+  FulfilmentMode,
+  OrderStatusActor,
+  ProductType,
+  StockMovementType,
+} from "@/prisma/generated/client";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
@@ -10,12 +27,82 @@ import {
   AdminProductDetail,
   AdminProductMutationResponse,
   AdminProductReviewsResponse,
+  AdminProductVariantMutationResponse,
   AdminProductsFilterInput,
   AdminProductsResponse,
   CreateProductInput,
+  CreateProductVariantInput,
   UpdateProductInput,
+  UpdateProductVariantInput,
+  VariantOptionInput,
 } from "./products.type";
 
+function validateProductTax(
+  hsnCode: string | null | undefined,
+  gstRate: number | undefined,
+): string | null {
+  if (hsnCode && !/^\d{4,8}$/.test(hsnCode.trim())) {
+    return "HSN code must be 4 to 8 digits";
+  }
+
+  if (gstRate !== undefined && (gstRate < 0 || gstRate > 28)) {
+    return "GST rate must be between 0 and 28 percent";
+  }
+
+  return null;
+}
+
+// Options are stored as a name to value map in the order they were given
+function toVariantOptions(
+  options: VariantOptionInput[],
+): PrismaJson.VariantOptions | string {
+  if (options.length === 0) {
+    return "A variant needs at least one option";
+  }
+
+  const result: PrismaJson.VariantOptions = {};
+  for (const option of options) {
+    const name = option.name.trim();
+    const value = option.value.trim();
+    if (!name || !value) {
+      return "Option names and values cannot be empty";
+    }
+    if (name in result) {
+      return `Option ${name} is given more than once`;
+    }
+    result[name] = value;
+  }
+
+  return result;
+}
+
+function validateVariantStock(
+  price: number | null | undefined,
+  totalQuantity: number,
+  availableQuantity: number,
+): string | null {
+  if (price !== undefined && price !== null && price < 0) {
+    return "Price cannot be negative";
+  }
+
+  if (totalQuantity < 0 || availableQuantity < 0) {
+    return "Stock cannot be negative";
+  }
+
+  if (availableQuantity > totalQuantity) {
+    return "Available quantity cannot exceed total quantity";
+  }
+
+  return null;
+}
+
+// Bundles always ship from their components' stock
+function getBundleModeError(mode: FulfilmentMode | undefined): string | null {
+  return mode && mode !== FulfilmentMode.IN_STOCK
+    ? "Bundles ship from stock and cannot be made to order or pre-ordered"
+    : null;
+}
+
 @Resolver()
 export class AdminProductsResolver {
   @Query(() => AdminProductsResponse)
@@ -30,6 +117,7 @@ export class AdminProductsResolver {
       const category = filter?.category;
       const isActive = filter?.isActive;
       const lowStock = filter?.lowStock;
+      const archived = filter?.archived ?? false;
       const page = filter?.page ?? 1;
       const limit = filter?.limit ?? 20;
       const skip = (page - 1) * limit;
@@ -39,7 +127,9 @@ export class AdminProductsResolver {
         product_categories?: { some: { category: string } };
         is_active?: boolean;
         available_quantity?: { lte: number };
-      } = {};
+        product_type?: ProductType;
+        deleted_at: null | { not: null };
+      } = { deleted_at: archived ? { not: null } : null };
 
       if (search) {
         where.OR = [
@@ -60,6 +150,10 @@ export class AdminProductsResolver {
         where.available_quantity = { lte: 5 };
       }
 
+      if (filter?.productType) {
+        where.product_type = filter.productType;
+      }
+
       const [products, total] = await Promise.all([
         ctx.prisma.product.findMany({
           where,
@@ -75,11 +169,13 @@ export class AdminProductsResolver {
             total_quantity: true,
             available_quantity: true,
             is_active: true,
+            product_type: true,
             color_name: true,
             color_code: true,
             material: true,
             image_urls: true,
             created_at: true,
+            deleted_at: true,
             product_categories: {
               select: { category: true },
             },
@@ -131,8 +227,19 @@ export class AdminProductsResolver {
           color_code: true,
           material: true,
           image_urls: true,
+          weight_grams: true,
+          hsn_code: true,
+          gst_rate: true,
+          max_per_order: true,
+          max_per_customer: true,
+          quantity_step: true,
+          product_type: true,
+          bundle_discount: true,
+          bundle_items: BUNDLE_ITEMS_INCLUDE,
+          ...FULFILMENT_SELECT,
           created_at: true,
           updated_at: true,
+          deleted_at: true,
           product_categories: {
             select: { category: true },
           },
@@ -144,6 +251,7 @@ export class AdminProductsResolver {
               purchased_products: true,
             },
           },
+          variants: { orderBy: { position: "asc" } },
         },
       });
 
@@ -152,6 +260,14 @@ export class AdminProductsResolver {
       return {
         ...product,
         categories: product.product_categories.map((pc) => pc.category),
+        variants: product.variants.map((variant) => ({
+          ...variant,
+          name: getVariantName(variant.options),
+          options: Object.entries(variant.options).map(([name, value]) => ({
+            name,
+            value,
+          })),
+        })),
       } as AdminProductDetail;
     });
   }
@@ -232,8 +348,57 @@ export class AdminProductsResolver {
         color_code,
         material,
         image_urls,
+        weight_grams = 0,
+        hsn_code,
+        gst_rate = 0,
+        max_per_order,
+        max_per_customer,
+        quantity_step,
+        fulfilment_mode = FulfilmentMode.IN_STOCK,
+        lead_time_days,
+        preorder_ship_date,
+        preorder_limit,
+        product_type = ProductType.STANDARD,
+        bundle_items = [],
+        bundle_discount,
         categories,
       } = input;
+      const isBundle = product_type === ProductType.BUNDLE;
+
+      const taxError = validateProductTax(hsn_code, gst_rate);
+      if (taxError) {
+        return { success: false, productId: null, error: taxError };
+      }
+
+      const limitsError = validatePurchaseLimits({
+        max_per_order,
+        max_per_customer,
+        quantity_step,
+      });
+      if (limitsError) {
+        return { success: false, productId: null, error: limitsError };
+      }
+
+      const fulfilmentError = validateFulfilment({
+        fulfilment_mode,
+        lead_time_days,
+        preorder_ship_date,
+        preorder_limit,
+      });
+      if (fulfilmentError) {
+        return { success: false, productId: null, error: fulfilmentError };
+      }
+
+      const bundleError = isBundle
+        ? (getBundleModeError(fulfilment_mode) ??
+          validateBundleDiscount(bundle_discount) ??
+          (await validateBundleItems(ctx.prisma, bundle_items)))
+        : bundle_items.length > 0 || bundle_discount !== undefined
+          ? "Only bundles can contain other products"
+          : null;
+      if (bundleError) {
+        return { success: false, productId: null, error: bundleError };
+      }
 
       // Validate slug uniqueness
       const existingProduct = await ctx.prisma.product.findUnique({
@@ -249,24 +414,62 @@ export class AdminProductsResolver {
         };
       }
 
-      const product = await ctx.prisma.product.create({
-        data: {
-          name,
-          slug,
-          description,
-          instructions,
-          price,
-          total_quantity,
-          available_quantity,
-          is_active,
-          color_name,
-          color_code,
-          material,
-          image_urls,
-          product_categories: {
-            create: categories.map((category) => ({ category })),
+      const product = await ctx.prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            name,
+            slug,
+            description,
+            instructions,
+            price,
+            // A bundle's stock is synced from its components below
+            total_quantity: isBundle ? 0 : total_quantity,
+            available_quantity: isBundle ? 0 : available_quantity,
+            is_active,
+            color_name,
+            color_code,
+            material,
+            image_urls,
+            weight_grams,
+            hsn_code: hsn_code?.trim() || null,
+            gst_rate,
+            max_per_order,
+            max_per_customer,
+            quantity_step,
+            fulfilment_mode,
+            lead_time_days,
+            preorder_ship_date,
+            preorder_limit,
+            product_type,
+            bundle_discount: isBundle ? bundle_discount : null,
+            product_categories: {
+              create: categories.map((category) => ({ category })),
+            },
+            ...(isBundle
+              ? {
+                  bundle_items: {
+                    create: bundle_items.map((item) => ({
+                      component_id: item.component_id,
+                      quantity: item.quantity,
+                    })),
+                  },
+                }
+              : {
+                  stock_movements: {
+                    create: {
+                      type: StockMovementType.MANUAL_ADJUSTMENT,
+                      quantity: available_quantity,
+                      actor_type: OrderStatusActor.ADMIN,
+                      actor_id: ctx.user?.dbUserId,
+                      reason: "Initial stock",
+                    },
+                  },
+                }),
           },
-        },
+        });
+
+        await syncBundle(tx, created.id);
+        return created;
       });
 
       return {
@@ -285,7 +488,83 @@ export class AdminProductsResolver {
     @Arg("input", () => UpdateProductInput) input: UpdateProductInput,
   ): Promise<AdminMutationResponse> {
     return tryCatchAsync(async () => {
-      const { categories, ...data } = input;
+      const { categories, bundle_items, ...data } = input;
+
+      const taxError = validateProductTax(data.hsn_code, data.gst_rate);
+      if (taxError) {
+        return { success: false, error: taxError };
+      }
+
+      const limitsError = validatePurchaseLimits(data);
+      if (limitsError) {
+        return { success: false, error: limitsError };
+      }
+      if (data.hsn_code !== undefined) {
+        data.hsn_code = data.hsn_code?.trim() || null;
+      }
+
+      const product = await ctx.prisma.product.findUnique({
+        where: { id },
+        select: {
+          ...FULFILMENT_SELECT,
+          product_type: true,
+          _count: { select: { bundled_in: true } },
+        },
+      });
+
+      if (!product) {
+        return { success: false, error: "Product not found" };
+      }
+
+      const isBundle = product.product_type === ProductType.BUNDLE;
+      const bundleError = isBundle
+        ? (getBundleModeError(data.fulfilment_mode) ??
+          validateBundleDiscount(data.bundle_discount) ??
+          (bundle_items
+            ? await validateBundleItems(ctx.prisma, bundle_items, id)
+            : null))
+        : bundle_items !== undefined || data.bundle_discount !== undefined
+          ? "Only bundles can contain other products"
+          : null;
+      if (bundleError) {
+        return { success: false, error: bundleError };
+      }
+
+      if (
+        product._count.bundled_in > 0 &&
+        data.fulfilment_mode !== undefined &&
+        data.fulfilment_mode !== FulfilmentMode.IN_STOCK
+      ) {
+        return {
+          success: false,
+          error: "This product is part of a bundle and must ship from stock",
+        };
+      }
+
+      // Checked against the product as it will be after the update
+      const fulfilmentError = validateFulfilment({
+        fulfilment_mode: data.fulfilment_mode ?? product.fulfilment_mode,
+        lead_time_days:
+          data.lead_time_days === undefined
+            ? product.lead_time_days
+            : data.lead_time_days,
+        preorder_ship_date:
+          data.preorder_ship_date === undefined
+            ? product.preorder_ship_date
+            : data.preorder_ship_date,
+        preorder_limit:
+          data.preorder_limit === undefined
+            ? product.preorder_limit
+            : data.preorder_limit,
+      });
+      if (fulfilmentError) {
+        return { success: false, error: fulfilmentError };
+      }
+
+      // Pre-orders taken before a mode change do not count against a new cap
+      const modeChanged =
+        data.fulfilment_mode !== undefined &&
+        data.fulfilment_mode !== product.fulfilment_mode;
 
       // If slug is being updated, validate uniqueness
       if (data.slug) {
@@ -306,9 +585,25 @@ export class AdminProductsResolver {
         // Update product
         await tx.product.update({
           where: { id },
-          data,
+          data: { ...data, ...(modeChanged ? { preorder_count: 0 } : {}) },
         });
 
+        if (bundle_items !== undefined) {
+          await tx.bundleItem.deleteMany({ where: { bundle_id: id } });
+          await tx.bundleItem.createMany({
+            data: bundle_items.map((item) => ({
+              bundle_id: id,
+              component_id: item.component_id,
+              quantity: item.quantity,
+            })),
+          });
+        }
+
+        // Bundles follow their components' stock and price
+        await syncBundle(tx, id);
+        await syncComponentBundles(tx, [id]);
+        await queueStockNotifications(tx, id, null);
+
         // Update categories if provided
         if (categories !== undefined) {
           // Delete existing categories
@@ -335,6 +630,8 @@ export class AdminProductsResolver {
     });
   }
 
+  // Archiving hides the product from the storefront but keeps it around for
+  // order history, invoices and returns
   @Mutation(() => AdminMutationResponse)
   @adminRequired()
   async adminDeleteProduct(
@@ -342,26 +639,107 @@ export class AdminProductsResolver {
     @Arg("id", () => Int) id: number,
   ): Promise<AdminMutationResponse> {
     return tryCatchAsync(async () => {
-      // Check if product has any purchased products
-      const purchasedCount = await ctx.prisma.purchasedProductItem.count({
-        where: { product_id: id },
+      const product = await ctx.prisma.product.findUnique({
+        where: { id },
+        select: { deleted_at: true },
       });
 
-      if (purchasedCount > 0) {
-        // Has orders - deactivate instead of delete
-        await ctx.prisma.product.update({
-          where: { id },
-          data: { is_active: false },
+      if (!product) {
+        return { success: false, error: "Product not found" };
+      }
+
+      if (!product.deleted_at) {
+        await ctx.prisma.$transaction(async (tx) => {
+          await tx.product.update({
+            where: { id },
+            data: { deleted_at: new Date() },
+          });
+          await syncComponentBundles(tx, [id]);
+        });
+      }
+
+      return {
+        success: true,
+        error: null,
+      };
+    });
+  }
+
+  @Mutation(() => AdminMutationResponse)
+  @adminRequired()
+  async adminRestoreProduct(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+  ): Promise<AdminMutationResponse> {
+    return tryCatchAsync(async () => {
+      const product = await ctx.prisma.product.findUnique({
+        where: { id },
+        select: { deleted_at: true },
+      });
+
+      if (!product) {
+        return { success: false, error: "Product not found" };
+      }
+
+      if (product.deleted_at) {
+        await ctx.prisma.$transaction(async (tx) => {
+          await tx.product.update({
+            where: { id },
+            data: { deleted_at: null },
+          });
+          await syncComponentBundles(tx, [id]);
         });
+      }
+
+      return {
+        success: true,
+        error: null,
+      };
+    });
+  }
+
+  // Permanently remove an archived product that was never ordered
+  @Mutation(() => AdminMutationResponse)
+  @adminRequired()
+  async adminPurgeProduct(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+  ): Promise<AdminMutationResponse> {
+    return tryCatchAsync(async () => {
+      const product = await ctx.prisma.product.findUnique({
+        where: { id },
+        select: {
+          deleted_at: true,
+          _count: { select: { purchased_products: true, bundled_in: true } },
+        },
+      });
+
+      if (!product) {
+        return { success: false, error: "Product not found" };
+      }
+
+      if (!product.deleted_at) {
+        return {
+          success: false,
+          error: "Archive the product before deleting it permanently",
+        };
+      }
 
+      if (product._count.purchased_products > 0) {
         return {
-          success: true,
+          success: false,
           error:
-            "Product has orders and was deactivated instead of deleted. This keeps order history intact.",
+            "Product has orders and cannot be deleted permanently. It stays archived to keep order history intact.",
+        };
+      }
+
+      if (product._count.bundled_in > 0) {
+        return {
+          success: false,
+          error: "Product is part of a bundle, remove it from the bundle first",
         };
       }
 
-      // No orders - safe to delete
       await ctx.prisma.product.delete({
         where: { id },
       });
@@ -389,9 +767,251 @@ export class AdminProductsResolver {
         return { success: false, error: "Product not found" };
       }
 
-      await ctx.prisma.product.update({
+      await ctx.prisma.$transaction(async (tx) => {
+        await tx.product.update({
+          where: { id },
+          data: { is_active: !product.is_active },
+        });
+        await syncComponentBundles(tx, [id]);
+        await queueStockNotifications(tx, id, null);
+      });
+
+      return {
+        success: true,
+        error: null,
+      };
+    });
+  }
+
+  @Mutation(() => AdminProductVariantMutationResponse)
+  @adminRequired()
+  async adminCreateProductVariant(
+    @Ctx() ctx: Context,
+    @Arg("input", () => CreateProductVariantInput)
+    input: CreateProductVariantInput,
+  ): Promise<AdminProductVariantMutationResponse> {
+    return tryCatchAsync(async () => {
+      const options = toVariantOptions(input.options);
+      if (typeof options === "string") {
+        return { success: false, variantId: null, error: options };
+      }
+
+      const stockError = validateVariantStock(
+        input.price,
+        input.total_quantity,
+        input.available_quantity,
+      );
+      if (stockError) {
+        return { success: false, variantId: null, error: stockError };
+      }
+
+      const sku = input.sku.trim();
+      const [product, existingSku, siblings] = await Promise.all([
+        ctx.prisma.product.findUnique({
+          where: { id: input.product_id },
+          select: {
+            id: true,
+            available_quantity: true,
+            product_type: true,
+            _count: { select: { bundled_in: true } },
+          },
+        }),
+        ctx.prisma.productVariant.findUnique({
+          where: { sku },
+          select: { id: true },
+        }),
+        ctx.prisma.productVariant.findMany({
+          where: { product_id: input.product_id },
+          select: { options: true },
+        }),
+      ]);
+
+      if (!product) {
+        return { success: false, variantId: null, error: "Product not found" };
+      }
+
+      // Bundles take stock per product, so neither side can have variants
+      if (
+        product.product_type === ProductType.BUNDLE ||
+        product._count.bundled_in > 0
+      ) {
+        return {
+          success: false,
+          variantId: null,
+          error: "Bundles and the products in them cannot have variants",
+        };
+      }
+
+      if (existingSku) {
+        return {
+          success: false,
+          variantId: null,
+          error: "A variant with this SKU already exists",
+        };
+      }
+
+      const name = getVariantName(options);
+      if (siblings.some((v) => getVariantName(v.options) === name)) {
+        return {
+          success: false,
+          variantId: null,
+          error: "The product already has a variant with these options",
+        };
+      }
+
+      const variant = await ctx.prisma.$transaction(async (tx) => {
+        // The first variant replaces the product's own stock in the ledger
+        if (siblings.length === 0 && product.available_quantity !== 0) {
+          await tx.stockMovement.create({
+            data: {
+              product_id: input.product_id,
+              type: StockMovementType.MANUAL_ADJUSTMENT,
+              quantity: -product.available_quantity,
+              actor_type: OrderStatusActor.ADMIN,
+              actor_id: ctx.user?.dbUserId,
+              reason: "Stock moved to variants",
+            },
+          });
+        }
+
+        const created = await tx.productVariant.create({
+          data: {
+            product_id: input.product_id,
+            sku,
+            options,
+            price: input.price,
+            total_quantity: input.total_quantity,
+            available_quantity: input.available_quantity,
+            image_urls: input.image_urls,
+            color_code: input.color_code,
+            color_name: input.color_name,
+            is_active: input.is_active,
+            position: input.position,
+            stock_movements: {
+              create: {
+                product_id: input.product_id,
+                type: StockMovementType.MANUAL_ADJUSTMENT,
+                quantity: input.available_quantity,
+                actor_type: OrderStatusActor.ADMIN,
+                actor_id: ctx.user?.dbUserId,
+                reason: "Initial stock",
+              },
+            },
+          },
+        });
+
+        await syncProductStock(tx, input.product_id);
+
+        return created;
+      });
+
+      return { success: true, variantId: variant.id, error: null };
+    });
+  }
+
+  @Mutation(() => AdminMutationResponse)
+  @adminRequired()
+  async adminUpdateProductVariant(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+    @Arg("input", () => UpdateProductVariantInput)
+    input: UpdateProductVariantInput,
+  ): Promise<AdminMutationResponse> {
+    return tryCatchAsync(async () => {
+      const variant = await ctx.prisma.productVariant.findUnique({
+        where: { id },
+        select: { product_id: true },
+      });
+
+      if (!variant) {
+        return { success: false, error: "Variant not found" };
+      }
+
+      const { options: optionsInput, sku: skuInput, ...data } = input;
+
+      // Stock changes go through adminAdjustStock
+      if (data.price !== undefined && data.price !== null && data.price < 0) {
+        return { success: false, error: "Price cannot be negative" };
+      }
+
+      let options: PrismaJson.VariantOptions | undefined;
+      if (optionsInput) {
+        const parsed = toVariantOptions(optionsInput);
+        if (typeof parsed === "string") {
+          return { success: false, error: parsed };
+        }
+
+        const siblings = await ctx.prisma.productVariant.findMany({
+          where: { product_id: variant.product_id, NOT: { id } },
+          select: { options: true },
+        });
+        const name = getVariantName(parsed);
+        if (siblings.some((v) => getVariantName(v.options) === name)) {
+          return {
+            success: false,
+            error: "The product already has a variant with these options",
+          };
+        }
+        options = parsed;
+      }
+
+      const sku = skuInput?.trim();
+      if (sku) {
+        const existingSku = await ctx.prisma.productVariant.findFirst({
+          where: { sku, NOT: { id } },
+          select: { id: true },
+        });
+
+        if (existingSku) {
+          return {
+            success: false,
+            error: "A variant with this SKU already exists",
+          };
+        }
+      }
+
+      await ctx.prisma.$transaction(async (tx) => {
+        await tx.productVariant.update({
+          where: { id },
+          data: { ...data, sku: sku || undefined, options },
+        });
+
+        // A variant switched back on may be bought again
+        await queueStockNotifications(tx, variant.product_id, id);
+      });
+
+      return {
+        success: true,
+        error: null,
+      };
+    });
+  }
+
+  // Variants are deactivated rather than deleted, order lines and the stock
+  // ledger keep pointing at them and their stock stays on record
+  @Mutation(() => AdminMutationResponse)
+  @adminRequired()
+  async adminDeleteProductVariant(
+    @Ctx() ctx: Context,
+    @Arg("id", () => Int) id: number,
+  ): Promise<AdminMutationResponse> {
+    return tryCatchAsync(async () => {
+      const variant = await ctx.prisma.productVariant.findUnique({
         where: { id },
-        data: { is_active: !product.is_active },
+        select: { product_id: true },
+      });
+
+      if (!variant) {
+        return { success: false, error: "Variant not found" };
+      }
+
+      await ctx.prisma.$transaction(async (tx) => {
+        await tx.productVariant.update({
+          where: { id },
+          data: { is_active: false },
+        });
+
+        await syncProductStock(tx, variant.product_id);
       });
 
       return {
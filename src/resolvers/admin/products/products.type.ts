@@ -1,6 +1,8 @@
 import { GraphQLDateTime } from "graphql-scalars";
 import { Field, Float, InputType, Int, ObjectType } from "type-graphql";
 
+import { FulfilmentMode, ProductType } from "@/prisma/generated/enums";
+
 @ObjectType()
 export class AdminProductCount {
   @Field(() => Int)
@@ -39,6 +41,9 @@ export class AdminProduct {
   @Field(() => Boolean)
   is_active!: boolean;
 
+  @Field(() => ProductType)
+  product_type!: ProductType;
+
   @Field(() => String)
   color_name!: string;
 
@@ -57,6 +62,9 @@ export class AdminProduct {
   @Field(() => GraphQLDateTime)
   created_at!: Date;
 
+  @Field(() => GraphQLDateTime, { nullable: true })
+  deleted_at?: Date | null;
+
   @Field(() => AdminProductCount)
   _count!: AdminProductCount;
 }
@@ -76,6 +84,96 @@ export class AdminProductDetailCount {
   purchased_products!: number;
 }
 
+@ObjectType()
+export class AdminVariantOption {
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => String)
+  value!: string;
+}
+
+@ObjectType()
+export class AdminProductVariant {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  sku!: string;
+
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => [AdminVariantOption])
+  options!: AdminVariantOption[];
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Null when the product price applies",
+  })
+  price?: number | null;
+
+  @Field(() => Int)
+  total_quantity!: number;
+
+  @Field(() => Int)
+  available_quantity!: number;
+
+  @Field(() => [String])
+  image_urls!: string[];
+
+  @Field(() => String, { nullable: true })
+  color_code?: string | null;
+
+  @Field(() => String, { nullable: true })
+  color_name?: string | null;
+
+  @Field(() => Boolean)
+  is_active!: boolean;
+
+  @Field(() => Int)
+  position!: number;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+
+  @Field(() => GraphQLDateTime)
+  updated_at!: Date;
+}
+
+@ObjectType()
+export class AdminBundleComponent {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  slug!: string;
+
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => Int)
+  price!: number;
+
+  @Field(() => Int)
+  available_quantity!: number;
+}
+
+@ObjectType()
+export class AdminBundleItem {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => Int)
+  component_id!: number;
+
+  @Field(() => Int)
+  quantity!: number;
+
+  @Field(() => AdminBundleComponent)
+  component!: AdminBundleComponent;
+}
+
 @ObjectType()
 export class AdminProductDetail {
   @Field(() => Int)
@@ -117,6 +215,50 @@ export class AdminProductDetail {
   @Field(() => [String])
   image_urls!: string[];
 
+  @Field(() => Int)
+  weight_grams!: number;
+
+  @Field(() => String, { nullable: true })
+  hsn_code?: string | null;
+
+  @Field(() => Float)
+  gst_rate!: number;
+
+  @Field(() => Int, { nullable: true })
+  max_per_order?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  max_per_customer?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  quantity_step?: number | null;
+
+  @Field(() => ProductType)
+  product_type!: ProductType;
+
+  @Field(() => Float, { nullable: true })
+  bundle_discount?: number | null;
+
+  @Field(() => [AdminBundleItem], {
+    description: "Components of a bundle, empty for single products",
+  })
+  bundle_items!: AdminBundleItem[];
+
+  @Field(() => FulfilmentMode)
+  fulfilment_mode!: FulfilmentMode;
+
+  @Field(() => Int, { nullable: true })
+  lead_time_days?: number | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  preorder_ship_date?: Date | null;
+
+  @Field(() => Int, { nullable: true })
+  preorder_limit?: number | null;
+
+  @Field(() => Int, { description: "Quantity currently on pre-order" })
+  preorder_count!: number;
+
   @Field(() => [String])
   categories!: string[];
 
@@ -126,8 +268,16 @@ export class AdminProductDetail {
   @Field(() => GraphQLDateTime)
   updated_at!: Date;
 
+  @Field(() => GraphQLDateTime, { nullable: true })
+  deleted_at?: Date | null;
+
   @Field(() => AdminProductDetailCount)
   _count!: AdminProductDetailCount;
+
+  @Field(() => [AdminProductVariant], {
+    description: "Stock and sales of a product with variants are per variant",
+  })
+  variants!: AdminProductVariant[];
 }
 
 @InputType()
@@ -144,6 +294,15 @@ export class AdminProductsFilterInput {
   @Field(() => Boolean, { nullable: true })
   lowStock?: boolean;
 
+  @Field(() => ProductType, { nullable: true })
+  productType?: ProductType;
+
+  @Field(() => Boolean, {
+    nullable: true,
+    description: "List archived products instead of live ones",
+  })
+  archived?: boolean;
+
   @Field(() => Int, { nullable: true, defaultValue: 1 })
   page?: number;
 
@@ -169,6 +328,15 @@ export class AdminProductsResponse {
   totalPages!: number;
 }
 
+@InputType()
+export class BundleItemInput {
+  @Field(() => Int)
+  component_id!: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  quantity!: number;
+}
+
 @InputType()
 export class CreateProductInput {
   @Field(() => String)
@@ -186,10 +354,10 @@ export class CreateProductInput {
   @Field(() => Float)
   price!: number;
 
-  @Field(() => Int)
+  @Field(() => Int, { description: "Ignored for bundles" })
   total_quantity!: number;
 
-  @Field(() => Int)
+  @Field(() => Int, { description: "Ignored for bundles" })
   available_quantity!: number;
 
   @Field(() => Boolean, { nullable: true, defaultValue: true })
@@ -207,6 +375,77 @@ export class CreateProductInput {
   @Field(() => [String])
   image_urls!: string[];
 
+  @Field(() => Int, { nullable: true, defaultValue: 0 })
+  weight_grams?: number;
+
+  @Field(() => String, { nullable: true })
+  hsn_code?: string;
+
+  @Field(() => Float, {
+    nullable: true,
+    defaultValue: 0,
+    description: "GST rate in percent, prices are inclusive of it",
+  })
+  gst_rate?: number;
+
+  @Field(() => Int, { nullable: true })
+  max_per_order?: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Limit per customer across all of their orders",
+  })
+  max_per_customer?: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Sell in sets, quantities must be a multiple of it",
+  })
+  quantity_step?: number;
+
+  @Field(() => FulfilmentMode, {
+    nullable: true,
+    defaultValue: FulfilmentMode.IN_STOCK,
+  })
+  fulfilment_mode?: FulfilmentMode;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Days to make the product, required for made-to-order",
+  })
+  lead_time_days?: number;
+
+  @Field(() => GraphQLDateTime, {
+    nullable: true,
+    description: "Expected ship date, required for pre-order",
+  })
+  preorder_ship_date?: Date;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Most pieces taken on pre-order, uncapped when empty",
+  })
+  preorder_limit?: number;
+
+  @Field(() => ProductType, {
+    nullable: true,
+    defaultValue: ProductType.STANDARD,
+  })
+  product_type?: ProductType;
+
+  @Field(() => [BundleItemInput], {
+    nullable: true,
+    description: "Required for bundles, their stock follows these products",
+  })
+  bundle_items?: BundleItemInput[];
+
+  @Field(() => Float, {
+    nullable: true,
+    description:
+      "Percent off the components' combined price, replaces the price when set",
+  })
+  bundle_discount?: number;
+
   @Field(() => [String])
   categories!: string[];
 }
@@ -228,12 +467,6 @@ export class UpdateProductInput {
   @Field(() => Float, { nullable: true })
   price?: number;
 
-  @Field(() => Int, { nullable: true })
-  total_quantity?: number;
-
-  @Field(() => Int, { nullable: true })
-  available_quantity?: number;
-
   @Field(() => Boolean, { nullable: true })
   is_active?: boolean;
 
@@ -249,10 +482,133 @@ export class UpdateProductInput {
   @Field(() => [String], { nullable: true })
   image_urls?: string[];
 
+  @Field(() => Int, { nullable: true })
+  weight_grams?: number;
+
+  @Field(() => String, { nullable: true })
+  hsn_code?: string | null;
+
+  @Field(() => Float, { nullable: true })
+  gst_rate?: number;
+
+  @Field(() => Int, { nullable: true, description: "Null removes the limit" })
+  max_per_order?: number | null;
+
+  @Field(() => Int, { nullable: true, description: "Null removes the limit" })
+  max_per_customer?: number | null;
+
+  @Field(() => Int, { nullable: true, description: "Null removes the limit" })
+  quantity_step?: number | null;
+
+  @Field(() => FulfilmentMode, {
+    nullable: true,
+    description: "Changing the mode resets the pre-order count",
+  })
+  fulfilment_mode?: FulfilmentMode;
+
+  @Field(() => Int, { nullable: true })
+  lead_time_days?: number | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  preorder_ship_date?: Date | null;
+
+  @Field(() => Int, { nullable: true, description: "Null removes the cap" })
+  preorder_limit?: number | null;
+
+  @Field(() => [BundleItemInput], {
+    nullable: true,
+    description: "Replaces the components of a bundle",
+  })
+  bundle_items?: BundleItemInput[];
+
+  @Field(() => Float, {
+    nullable: true,
+    description: "Null keeps the bundle at its own price",
+  })
+  bundle_discount?: number | null;
+
   @Field(() => [String], { nullable: true })
   categories?: string[];
 }
 
+@InputType()
+export class VariantOptionInput {
+  @Field(() => String, { description: "Option name, e.g. Size" })
+  name!: string;
+
+  @Field(() => String, { description: "Option value, e.g. Large" })
+  value!: string;
+}
+
+@InputType()
+export class CreateProductVariantInput {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  sku!: string;
+
+  @Field(() => [VariantOptionInput])
+  options!: VariantOptionInput[];
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Leave empty to use the product price",
+  })
+  price?: number | null;
+
+  @Field(() => Int)
+  total_quantity!: number;
+
+  @Field(() => Int)
+  available_quantity!: number;
+
+  @Field(() => [String], { nullable: true, defaultValue: [] })
+  image_urls?: string[];
+
+  @Field(() => String, { nullable: true })
+  color_code?: string | null;
+
+  @Field(() => String, { nullable: true })
+  color_name?: string | null;
+
+  @Field(() => Boolean, { nullable: true, defaultValue: true })
+  is_active?: boolean;
+
+  @Field(() => Int, { nullable: true, defaultValue: 0 })
+  position?: number;
+}
+
+@InputType()
+export class UpdateProductVariantInput {
+  @Field(() => String, { nullable: true })
+  sku?: string;
+
+  @Field(() => [VariantOptionInput], { nullable: true })
+  options?: VariantOptionInput[];
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Null falls back to the product price",
+  })
+  price?: number | null;
+
+  @Field(() => [String], { nullable: true })
+  image_urls?: string[];
+
+  @Field(() => String, { nullable: true })
+  color_code?: string | null;
+
+  @Field(() => String, { nullable: true })
+  color_name?: string | null;
+
+  @Field(() => Boolean, { nullable: true })
+  is_active?: boolean;
+
+  @Field(() => Int, { nullable: true })
+  position?: number;
+}
+
 @ObjectType()
 export class AdminMutationResponse {
   @Field(() => Boolean)
@@ -321,3 +677,15 @@ export class AdminProductReviewsResponse {
   @Field(() => Float)
   averageRating!: number;
 }
+
+@ObjectType()
+export class AdminProductVariantMutationResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => Int, { nullable: true })
+  variantId?: number | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+}
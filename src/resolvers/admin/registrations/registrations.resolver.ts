@@ -1,76 +1,22 @@
 import { Arg, Ctx, Float, Mutation, Resolver } from "type-graphql";
 
+import {
+  InsufficientSeatsError,
+  SEAT_HOLDING_STATUSES,
+  transitionRegistrationStatus,
+} from "@/lib/registrations";
+import { StatusTransitionError } from "@/lib/status-machine";
 import { adminRequired } from "@/middlewares/auth.middleware";
-import { EventRegistrationStatus } from "@/prisma/generated/client";
+import { EventRegistrationStatus as PrismaEventRegistrationStatus } from "@/prisma/generated/client";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
+import { EventRegistrationStatus } from "../../events/events.type";
 import {
   AdminRegistrationMutationResponse,
   UpdateRegistrationDetailsInput,
 } from "./registrations.type";
 
-type TimestampField =
-  | "request_at"
-  | "approved_at"
-  | "paid_at"
-  | "confirmed_at"
-  | "cancelled_at";
-
-// Map status to timestamp field
-const STATUS_TIMESTAMP_FIELDS: Record<
-  EventRegistrationStatus,
-  TimestampField | null
-> = {
-  [EventRegistrationStatus.PENDING]: "request_at",
-  [EventRegistrationStatus.APPROVED]: "approved_at",
-  [EventRegistrationStatus.REJECTED]: null,
-  [EventRegistrationStatus.PAID]: "paid_at",
-  [EventRegistrationStatus.CONFIRMED]: "confirmed_at",
-  [EventRegistrationStatus.CANCELLED]: "cancelled_at",
-};
-
-// Define main flow for status progression
-const MAIN_FLOW: EventRegistrationStatus[] = [
-  EventRegistrationStatus.PENDING,
-  EventRegistrationStatus.APPROVED,
-  EventRegistrationStatus.PAID,
-  EventRegistrationStatus.CONFIRMED,
-];
-
-// Get statuses that come after the given status in main flow
-function getLaterStatuses(
-  status: EventRegistrationStatus,
-): EventRegistrationStatus[] {
-  const statusIndex = MAIN_FLOW.indexOf(status);
-  if (statusIndex === -1) return [];
-  return MAIN_FLOW.slice(statusIndex + 1);
-}
-
-// Get statuses between current and new status (exclusive of current, inclusive of new)
-function getIntermediateStatuses(
-  currentStatus: EventRegistrationStatus,
-  newStatus: EventRegistrationStatus,
-): EventRegistrationStatus[] {
-  const currentIndex = MAIN_FLOW.indexOf(currentStatus);
-  const newIndex = MAIN_FLOW.indexOf(newStatus);
-
-  if (currentIndex === -1 || newIndex === -1 || newIndex <= currentIndex) {
-    return [];
-  }
-
-  return MAIN_FLOW.slice(currentIndex + 1, newIndex + 1);
-}
-
-interface RegistrationUpdateData {
-  status: EventRegistrationStatus;
-  request_at?: Date | null;
-  approved_at?: Date | null;
-  paid_at?: Date | null;
-  confirmed_at?: Date | null;
-  cancelled_at?: Date | null;
-}
-
 @Resolver()
 export class AdminRegistrationsResolver {
   @Mutation(() => AdminRegistrationMutationResponse)
@@ -78,124 +24,51 @@ export class AdminRegistrationsResolver {
   async adminUpdateRegistrationStatus(
     @Ctx() ctx: Context,
     @Arg("registrationId", () => String) registrationId: string,
-    @Arg("status", () => String) newStatusStr: string,
+    @Arg("status", () => EventRegistrationStatus)
+    newStatus: EventRegistrationStatus,
   ): Promise<AdminRegistrationMutationResponse> {
     return tryCatchAsync(async () => {
-      const newStatus = newStatusStr as EventRegistrationStatus;
-
       const registration = await ctx.prisma.eventRegistration.findUnique({
         where: { id: registrationId },
-        select: {
-          id: true,
-          status: true,
-          user_id: true,
-          event_id: true,
-          seats_reserved: true,
-        },
+        select: { id: true, status: true },
       });
 
       if (!registration) {
         return { success: false, error: "Registration not found" };
       }
 
-      if (registration.status === newStatus) {
-        return { success: true, error: null };
-      }
-
-      const now = new Date();
-      const currentMainIndex = MAIN_FLOW.indexOf(registration.status);
-      const newMainIndex = MAIN_FLOW.indexOf(newStatus);
-
-      const updateData: RegistrationUpdateData = { status: newStatus };
-
-      // If moving forward, set all intermediate timestamps
-      if (newMainIndex > currentMainIndex && currentMainIndex !== -1) {
-        const intermediateStatuses = getIntermediateStatuses(
-          registration.status,
-          newStatus,
-        );
-        for (const status of intermediateStatuses) {
-          const field = STATUS_TIMESTAMP_FIELDS[status];
-          if (field) {
-            updateData[field] = now;
-          }
-        }
-      }
-
-      // Set the timestamp for the new status
-      const timestampField = STATUS_TIMESTAMP_FIELDS[newStatus];
-      if (timestampField && !updateData[timestampField]) {
-        updateData[timestampField] = now;
-      }
-
       if (
-        newMainIndex !== -1 &&
-        currentMainIndex !== -1 &&
-        newMainIndex < currentMainIndex
+        registration.status === (newStatus as PrismaEventRegistrationStatus)
       ) {
-        const laterStatuses = getLaterStatuses(newStatus);
-        for (const laterStatus of laterStatuses) {
-          const laterField = STATUS_TIMESTAMP_FIELDS[laterStatus];
-          if (laterField) {
-            updateData[laterField] = null;
-          }
-        }
+        return { success: true, error: null };
       }
 
-      // If going back to main flow from terminal states, clear terminal timestamps
-      if (newMainIndex !== -1) {
-        if (registration.status === EventRegistrationStatus.CANCELLED) {
-          updateData.cancelled_at = null;
+      try {
+        await ctx.prisma.$transaction(async (tx) => {
+          await transitionRegistrationStatus(tx, {
+            registration_id: registrationId,
+            from: registration.status,
+            to: newStatus as PrismaEventRegistrationStatus,
+          });
+        });
+      } catch (error) {
+        if (error instanceof StatusTransitionError) {
+          return {
+            success: false,
+            error: error.message,
+            error_code: error.code,
+          };
         }
-        if (registration.status === EventRegistrationStatus.REJECTED) {
-          updateData.approved_at = null;
-          updateData.paid_at = null;
-          updateData.confirmed_at = null;
+        if (error instanceof InsufficientSeatsError) {
+          return {
+            success: false,
+            error: error.message,
+            error_code: "INSUFFICIENT_SEATS",
+          };
         }
+        throw error;
       }
 
-      // Handle seat availability for cancellation and confirmation changes
-      const wasConfirmed =
-        registration.status === EventRegistrationStatus.CONFIRMED ||
-        registration.status === EventRegistrationStatus.PAID;
-      const willBeConfirmed =
-        newStatus === EventRegistrationStatus.CONFIRMED ||
-        newStatus === EventRegistrationStatus.PAID;
-
-      // If going from confirmed to cancelled, return seats
-      if (
-        wasConfirmed &&
-        (newStatus === EventRegistrationStatus.CANCELLED ||
-          newStatus === EventRegistrationStatus.REJECTED)
-      ) {
-        await ctx.prisma.event.update({
-          where: { id: registration.event_id },
-          data: {
-            available_seats: { increment: registration.seats_reserved },
-          },
-        });
-      }
-
-      // If going from cancelled/rejected to confirmed, deduct seats
-      if (
-        !wasConfirmed &&
-        willBeConfirmed &&
-        (registration.status === EventRegistrationStatus.CANCELLED ||
-          registration.status === EventRegistrationStatus.REJECTED)
-      ) {
-        await ctx.prisma.event.update({
-          where: { id: registration.event_id },
-          data: {
-            available_seats: { decrement: registration.seats_reserved },
-          },
-        });
-      }
-
-      await ctx.prisma.eventRegistration.update({
-        where: { id: registrationId },
-        data: updateData,
-      });
-
       return { success: true, error: null };
     });
   }
@@ -265,13 +138,11 @@ export class AdminRegistrationsResolver {
         return { success: false, error: "Registration not found" };
       }
 
-      // Handle seat changes for confirmed/paid registrations
+      // Handle seat changes for registrations that hold seats
       const seatsDiff = input.seatsReserved - registration.seats_reserved;
-      const isConfirmedOrPaid =
-        registration.status === EventRegistrationStatus.CONFIRMED ||
-        registration.status === EventRegistrationStatus.PAID;
+      const holdsSeats = SEAT_HOLDING_STATUSES.includes(registration.status);
 
-      if (seatsDiff !== 0 && isConfirmedOrPaid) {
+      if (seatsDiff !== 0 && holdsSeats) {
         // Check if event has enough seats when increasing
         if (seatsDiff > 0) {
           const event = await ctx.prisma.event.findUnique({
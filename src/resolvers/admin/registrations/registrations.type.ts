@@ -7,6 +7,12 @@ export class AdminRegistrationMutationResponse {
 
   @Field(() => String, { nullable: true })
   error?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Machine-readable reason when a status change is rejected",
+  })
+  error_code?: string | null;
 }
 
 @InputType()
@@ -0,0 +1,284 @@
+import { Arg, Ctx, Mutation, Query, Resolver } from "type-graphql";
+
+import {
+  ReturnError,
+  receiveReturn,
+  refundReturn,
+  transitionReturnStatus,
+} from "@/lib/returns";
+import { StatusTransitionError } from "@/lib/status-machine";
+import { InsufficientStockError } from "@/lib/stock";
+import { adminRequired } from "@/middlewares/auth.middleware";
+import { ReturnRequestStatus } from "@/prisma/generated/enums";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import {
+  AdminReturnMutationResponse,
+  AdminReturnRequest,
+  AdminReturnRequestsFilterInput,
+  AdminReturnRequestsResponse,
+  RefundItemInput,
+} from "./returns.type";
+
+const ADMIN_RETURN_REQUEST_INCLUDE = {
+  user: { select: { id: true, email: true, name: true } },
+  items: {
+    include: {
+      order_item: {
+        select: { product_id: true, product_name: true },
+      },
+    },
+  },
+  refunds: { orderBy: { created_at: "asc" } },
+} as const;
+
+function mapAdminReturnRequest(request: {
+  id: string;
+  order_id: string;
+  status: ReturnRequestStatus;
+  reason: string;
+  image_urls: string[];
+  admin_note: string | null;
+  approved_at: Date | null;
+  rejected_at: Date | null;
+  received_at: Date | null;
+  refunded_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  user: { id: number; email: string; name: string | null };
+  items: {
+    id: number;
+    order_item_id: number;
+    quantity: number;
+    order_item: { product_id: number; product_name: string };
+  }[];
+  refunds: {
+    id: number;
+    order_item_id: number | null;
+    quantity: number;
+    amount: number;
+    note: string | null;
+    created_at: Date;
+  }[];
+}): AdminReturnRequest {
+  return {
+    id: request.id,
+    order_id: request.order_id,
+    status: request.status,
+    reason: request.reason,
+    image_urls: request.image_urls,
+    admin_note: request.admin_note,
+    user: request.user,
+    items: request.items.map((item) => ({
+      id: item.id,
+      order_item_id: item.order_item_id,
+      product_id: item.order_item.product_id,
+      product_name: item.order_item.product_name,
+      quantity: item.quantity,
+    })),
+    refunds: request.refunds.map((refund) => ({
+      id: refund.id,
+      order_item_id: refund.order_item_id,
+      quantity: refund.quantity,
+      amount: refund.amount,
+      note: refund.note,
+      created_at: refund.created_at,
+    })),
+    refund_total: request.refunds.reduce((sum, r) => sum + r.amount, 0),
+    approved_at: request.approved_at,
+    rejected_at: request.rejected_at,
+    received_at: request.received_at,
+    refunded_at: request.refunded_at,
+    created_at: request.created_at,
+    updated_at: request.updated_at,
+  };
+}
+
+function toReturnErrorResponse(error: unknown): AdminReturnMutationResponse {
+  if (error instanceof StatusTransitionError) {
+    return { success: false, error: error.message, error_code: error.code };
+  }
+  if (error instanceof ReturnError) {
+    return {
+      success: false,
+      error: error.message,
+      error_code: "INVALID_REFUND",
+    };
+  }
+  if (error instanceof InsufficientStockError) {
+    return {
+      success: false,
+      error: "Not enough stock to update the order",
+      error_code: "INSUFFICIENT_STOCK",
+    };
+  }
+  throw error;
+}
+
+@Resolver()
+export class AdminReturnsResolver {
+  @Query(() => AdminReturnRequestsResponse)
+  @adminRequired()
+  async adminReturnRequests(
+    @Ctx() ctx: Context,
+    @Arg("filter", () => AdminReturnRequestsFilterInput, { nullable: true })
+    filter?: AdminReturnRequestsFilterInput,
+  ): Promise<AdminReturnRequestsResponse> {
+    return tryCatchAsync(async () => {
+      const page = filter?.page ?? 1;
+      const limit = filter?.limit ?? 20;
+      const skip = (page - 1) * limit;
+
+      const where = {
+        ...(filter?.status && { status: filter.status }),
+        ...(filter?.orderId && { order_id: filter.orderId }),
+      };
+
+      const [requests, total] = await Promise.all([
+        ctx.prisma.returnRequest.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { created_at: "desc" },
+          include: ADMIN_RETURN_REQUEST_INCLUDE,
+        }),
+        ctx.prisma.returnRequest.count({ where }),
+      ]);
+
+      return {
+        return_requests: requests.map(mapAdminReturnRequest),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      };
+    });
+  }
+
+  @Mutation(() => AdminReturnMutationResponse)
+  @adminRequired()
+  async adminApproveReturn(
+    @Ctx() ctx: Context,
+    @Arg("id", () => String) id: string,
+    @Arg("note", () => String, { nullable: true }) note?: string,
+  ): Promise<AdminReturnMutationResponse> {
+    return this.updateReturnStatus(ctx, id, ReturnRequestStatus.APPROVED, note);
+  }
+
+  @Mutation(() => AdminReturnMutationResponse)
+  @adminRequired()
+  async adminRejectReturn(
+    @Ctx() ctx: Context,
+    @Arg("id", () => String) id: string,
+    @Arg("note", () => String, {
+      nullable: true,
+      description: "Reason shown to the customer",
+    })
+    note?: string,
+  ): Promise<AdminReturnMutationResponse> {
+    return this.updateReturnStatus(ctx, id, ReturnRequestStatus.REJECTED, note);
+  }
+
+  @Mutation(() => AdminReturnMutationResponse)
+  @adminRequired()
+  async adminReceiveReturn(
+    @Ctx() ctx: Context,
+    @Arg("id", () => String) id: string,
+    @Arg("note", () => String, { nullable: true }) note?: string,
+  ): Promise<AdminReturnMutationResponse> {
+    return tryCatchAsync(async () => {
+      const request = await ctx.prisma.returnRequest.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!request) {
+        return { success: false, error: "Return request not found" };
+      }
+
+      try {
+        await ctx.prisma.$transaction(async (tx) => {
+          await receiveReturn(tx, id, ctx.user?.dbUserId ?? null, note);
+        });
+      } catch (error) {
+        return toReturnErrorResponse(error);
+      }
+
+      return { success: true, error: null };
+    });
+  }
+
+  @Mutation(() => AdminReturnMutationResponse)
+  @adminRequired()
+  async adminRefundReturn(
+    @Ctx() ctx: Context,
+    @Arg("id", () => String) id: string,
+    @Arg("items", () => [RefundItemInput], {
+      nullable: true,
+      description:
+        "Refund amount per returned item, defaults to the full price paid",
+    })
+    items?: RefundItemInput[],
+    @Arg("note", () => String, { nullable: true }) note?: string,
+  ): Promise<AdminReturnMutationResponse> {
+    return tryCatchAsync(async () => {
+      const request = await ctx.prisma.returnRequest.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!request) {
+        return { success: false, error: "Return request not found" };
+      }
+
+      const amounts = items
+        ? new Map(items.map((item) => [item.order_item_id, item.amount]))
+        : null;
+
+      let refundTotal: number;
+      try {
+        refundTotal = await ctx.prisma.$transaction(async (tx) =>
+          refundReturn(tx, id, amounts, ctx.user?.dbUserId ?? null, note),
+        );
+      } catch (error) {
+        return toReturnErrorResponse(error);
+      }
+
+      return { success: true, error: null, refund_total: refundTotal };
+    });
+  }
+
+  private async updateReturnStatus(
+    ctx: Context,
+    id: string,
+    status: ReturnRequestStatus,
+    note?: string,
+  ): Promise<AdminReturnMutationResponse> {
+    return tryCatchAsync(async () => {
+      const request = await ctx.prisma.returnRequest.findUnique({
+        where: { id },
+        select: { id: true, status: true },
+      });
+
+      if (!request) {
+        return { success: false, error: "Return request not found" };
+      }
+
+      try {
+        await ctx.prisma.$transaction(async (tx) => {
+          await transitionReturnStatus(tx, {
+            return_id: id,
+            from: request.status,
+            to: status,
+            admin_note: note,
+          });
+        });
+      } catch (error) {
+        return toReturnErrorResponse(error);
+      }
+
+      return { success: true, error: null };
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { Field, InputType, Int, ObjectType } from "type-graphql";
+
+import { ReturnRequestStatus } from "@/prisma/generated/enums";
+
+import { ReturnRequest } from "../../returns/returns.type";
+
+@ObjectType()
+export class AdminReturnRequestUser {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  email!: string;
+
+  @Field(() => String, { nullable: true })
+  name?: string | null;
+}
+
+@ObjectType()
+export class AdminReturnRequest extends ReturnRequest {
+  @Field(() => AdminReturnRequestUser)
+  user!: AdminReturnRequestUser;
+}
+
+@InputType()
+export class AdminReturnRequestsFilterInput {
+  @Field(() => ReturnRequestStatus, { nullable: true })
+  status?: ReturnRequestStatus;
+
+  @Field(() => String, { nullable: true })
+  orderId?: string;
+
+  @Field(() => Int, { nullable: true, defaultValue: 1 })
+  page?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 20 })
+  limit?: number;
+}
+
+@ObjectType()
+export class AdminReturnRequestsResponse {
+  @Field(() => [AdminReturnRequest])
+  return_requests!: AdminReturnRequest[];
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => Int)
+  page!: number;
+
+  @Field(() => Int)
+  limit!: number;
+
+  @Field(() => Int)
+  totalPages!: number;
+}
+
+@InputType()
+export class RefundItemInput {
+  @Field(() => Int)
+  order_item_id!: number;
+
+  @Field(() => Int)
+  amount!: number;
+}
+
+@ObjectType()
+export class AdminReturnMutationResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Machine-readable reason when the action is rejected",
+  })
+  error_code?: string | null;
+
+  @Field(() => Int, { nullable: true })
+  refund_total?: number | null;
+}
@@ -1,17 +1,46 @@
 import { Arg, Ctx, Mutation, Query, Resolver } from "type-graphql";
 
+import {
+  ABANDONED_CART_SETTINGS_KEY,
+  DEFAULT_ABANDONED_CART_SETTINGS,
+  getAbandonedCartSettings,
+} from "@/lib/abandoned-carts";
+import {
+  DEFAULT_INVOICE_SETTINGS,
+  INVOICE_SETTINGS_KEY,
+  getInvoiceSettings,
+} from "@/lib/invoices";
+import {
+  DEFAULT_RETURN_SETTINGS,
+  RETURN_SETTINGS_KEY,
+  getReturnSettings,
+} from "@/lib/returns";
+import {
+  DEFAULT_SHIPPING_RATES,
+  SHIPPING_RATES_SETTING_KEY,
+  getShippingRates,
+} from "@/lib/shipping";
 import { adminRequired } from "@/middlewares/auth.middleware";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
 import {
+  AbandonedCartSettings,
   AdminSettingsMutationResponse,
   AdminSiteSetting,
   ContactInfo,
   HeroImages,
+  InvoiceSettings,
+  ReturnSettings,
+  ShippingRateTierInput,
+  ShippingRates,
   SocialLinks,
+  UpdateAbandonedCartSettingsInput,
   UpdateContactInfoInput,
   UpdateHeroImagesInput,
+  UpdateInvoiceSettingsInput,
+  UpdateReturnSettingsInput,
+  UpdateShippingRatesInput,
   UpdateSocialLinksInput,
 } from "./settings.type";
 
@@ -20,6 +49,10 @@ const SETTING_KEYS = {
   HERO_IMAGES: "hero_images",
   CONTACT_INFO: "contact_info",
   SOCIAL_LINKS: "social_links",
+  SHIPPING_RATES: SHIPPING_RATES_SETTING_KEY,
+  RETURN_SETTINGS: RETURN_SETTINGS_KEY,
+  INVOICE_SETTINGS: INVOICE_SETTINGS_KEY,
+  ABANDONED_CART_SETTINGS: ABANDONED_CART_SETTINGS_KEY,
 } as const;
 
 // Default values
@@ -63,6 +96,22 @@ async function getSetting<T>(
   return defaultValue;
 }
 
+function validateShippingTiers(
+  tiers: ShippingRateTierInput[],
+  label: string,
+): string | null {
+  for (const tier of tiers) {
+    if (tier.fee < 0) {
+      return `${label}: shipping fee cannot be negative`;
+    }
+    if (tier.up_to !== null && tier.up_to !== undefined && tier.up_to <= 0) {
+      return `${label}: tier limit must be greater than zero`;
+    }
+  }
+
+  return null;
+}
+
 @Resolver()
 export class AdminSettingsResolver {
   @Query(() => [AdminSiteSetting])
@@ -165,6 +214,263 @@ export class AdminSettingsResolver {
     });
   }
 
+  @Query(() => ShippingRates)
+  @adminRequired()
+  async adminShippingRates(@Ctx() ctx: Context): Promise<ShippingRates> {
+    return (await getShippingRates(ctx.prisma)) as ShippingRates;
+  }
+
+  @Mutation(() => AdminSettingsMutationResponse)
+  @adminRequired()
+  async adminUpdateShippingRates(
+    @Ctx() ctx: Context,
+    @Arg("input", () => UpdateShippingRatesInput)
+    input: UpdateShippingRatesInput,
+  ): Promise<AdminSettingsMutationResponse> {
+    return tryCatchAsync(async () => {
+      if (
+        input.free_shipping_threshold !== undefined &&
+        input.free_shipping_threshold !== null &&
+        input.free_shipping_threshold < 0
+      ) {
+        return {
+          success: false,
+          error: "Free shipping threshold cannot be negative",
+        };
+      }
+
+      if (input.default_tiers !== undefined) {
+        if (input.default_tiers.length === 0) {
+          return {
+            success: false,
+            error: "At least one default shipping tier is required",
+          };
+        }
+
+        const error = validateShippingTiers(input.default_tiers, "Default");
+        if (error) return { success: false, error };
+      }
+
+      for (const zone of input.zones ?? []) {
+        if (!zone.name.trim()) {
+          return { success: false, error: "Shipping zone name is required" };
+        }
+
+        const error = validateShippingTiers(zone.tiers, zone.name);
+        if (error) return { success: false, error };
+      }
+
+      const current = await getSetting(
+        ctx,
+        SETTING_KEYS.SHIPPING_RATES,
+        DEFAULT_SHIPPING_RATES,
+      );
+      const updated: PrismaJson.ShippingRates = {
+        ...current,
+        ...(input.basis !== undefined && { basis: input.basis }),
+        ...(input.free_shipping_threshold !== undefined && {
+          free_shipping_threshold: input.free_shipping_threshold,
+        }),
+        ...(input.default_tiers !== undefined && {
+          default_tiers: input.default_tiers.map((tier) => ({
+            up_to: tier.up_to ?? null,
+            fee: tier.fee,
+          })),
+        }),
+        ...(input.zones !== undefined && {
+          zones: input.zones.map((zone) => ({
+            name: zone.name.trim(),
+            states: zone.states.map((state) => state.trim()),
+            pin_prefixes: zone.pin_prefixes.map((prefix) => prefix.trim()),
+            tiers: zone.tiers.map((tier) => ({
+              up_to: tier.up_to ?? null,
+              fee: tier.fee,
+            })),
+          })),
+        }),
+      };
+
+      await ctx.prisma.siteSetting.upsert({
+        where: { key: SETTING_KEYS.SHIPPING_RATES },
+        create: { key: SETTING_KEYS.SHIPPING_RATES, value: updated },
+        update: { value: updated },
+      });
+
+      return { success: true, error: null };
+    });
+  }
+
+  @Query(() => ReturnSettings)
+  @adminRequired()
+  async adminReturnSettings(@Ctx() ctx: Context): Promise<ReturnSettings> {
+    return getReturnSettings(ctx.prisma);
+  }
+
+  @Mutation(() => AdminSettingsMutationResponse)
+  @adminRequired()
+  async adminUpdateReturnSettings(
+    @Ctx() ctx: Context,
+    @Arg("input", () => UpdateReturnSettingsInput)
+    input: UpdateReturnSettingsInput,
+  ): Promise<AdminSettingsMutationResponse> {
+    return tryCatchAsync(async () => {
+      if (input.window_days < 0) {
+        return {
+          success: false,
+          error: "Return window cannot be negative",
+        };
+      }
+
+      const current = await getSetting(
+        ctx,
+        SETTING_KEYS.RETURN_SETTINGS,
+        DEFAULT_RETURN_SETTINGS,
+      );
+      const updated: PrismaJson.ReturnSettings = {
+        ...current,
+        window_days: input.window_days,
+      };
+
+      await ctx.prisma.siteSetting.upsert({
+        where: { key: SETTING_KEYS.RETURN_SETTINGS },
+        create: { key: SETTING_KEYS.RETURN_SETTINGS, value: updated },
+        update: { value: updated },
+      });
+
+      return { success: true, error: null };
+    });
+  }
+
+  @Query(() => InvoiceSettings)
+  @adminRequired()
+  async adminInvoiceSettings(@Ctx() ctx: Context): Promise<InvoiceSettings> {
+    return getInvoiceSettings(ctx.prisma);
+  }
+
+  @Mutation(() => AdminSettingsMutationResponse)
+  @adminRequired()
+  async adminUpdateInvoiceSettings(
+    @Ctx() ctx: Context,
+    @Arg("input", () => UpdateInvoiceSettingsInput)
+    input: UpdateInvoiceSettingsInput,
+  ): Promise<AdminSettingsMutationResponse> {
+    return tryCatchAsync(async () => {
+      const gstin = input.gstin?.trim().toUpperCase();
+      if (gstin && !/^[0-9]{2}[A-Z0-9]{13}$/.test(gstin)) {
+        return {
+          success: false,
+          error: "GSTIN must be 15 characters starting with the state code",
+        };
+      }
+
+      const prefix = input.prefix?.trim();
+      if (prefix !== undefined && !/^[A-Z0-9-]{1,10}$/i.test(prefix)) {
+        return {
+          success: false,
+          error: "Invoice prefix must be 1-10 letters, numbers or -",
+        };
+      }
+
+      const current = await getSetting(
+        ctx,
+        SETTING_KEYS.INVOICE_SETTINGS,
+        DEFAULT_INVOICE_SETTINGS,
+      );
+      const updated: PrismaJson.InvoiceSettings = {
+        ...current,
+        ...(input.legal_name !== undefined && {
+          legal_name: input.legal_name.trim(),
+        }),
+        ...(gstin !== undefined && { gstin }),
+        ...(input.state !== undefined && { state: input.state.trim() }),
+        ...(prefix !== undefined && { prefix }),
+      };
+
+      await ctx.prisma.siteSetting.upsert({
+        where: { key: SETTING_KEYS.INVOICE_SETTINGS },
+        create: { key: SETTING_KEYS.INVOICE_SETTINGS, value: updated },
+        update: { value: updated },
+      });
+
+      return { success: true, error: null };
+    });
+  }
+
+  @Query(() => AbandonedCartSettings)
+  @adminRequired()
+  async adminAbandonedCartSettings(
+    @Ctx() ctx: Context,
+  ): Promise<AbandonedCartSettings> {
+    return getAbandonedCartSettings(ctx.prisma);
+  }
+
+  @Mutation(() => AdminSettingsMutationResponse)
+  @adminRequired()
+  async adminUpdateAbandonedCartSettings(
+    @Ctx() ctx: Context,
+    @Arg("input", () => UpdateAbandonedCartSettingsInput)
+    input: UpdateAbandonedCartSettingsInput,
+  ): Promise<AdminSettingsMutationResponse> {
+    return tryCatchAsync(async () => {
+      if (
+        input.abandon_after_hours !== undefined &&
+        input.abandon_after_hours < 1
+      ) {
+        return {
+          success: false,
+          error: "Carts must be idle for at least 1 hour",
+        };
+      }
+
+      if (
+        input.coupon_percent !== undefined &&
+        input.coupon_percent !== null &&
+        (input.coupon_percent < 1 || input.coupon_percent > 100)
+      ) {
+        return {
+          success: false,
+          error: "Coupon percentage must be between 1 and 100",
+        };
+      }
+
+      if (
+        input.coupon_valid_hours !== undefined &&
+        input.coupon_valid_hours < 1
+      ) {
+        return {
+          success: false,
+          error: "Coupons must be valid for at least 1 hour",
+        };
+      }
+
+      const current = await getSetting(
+        ctx,
+        SETTING_KEYS.ABANDONED_CART_SETTINGS,
+        DEFAULT_ABANDONED_CART_SETTINGS,
+      );
+      const updated: PrismaJson.AbandonedCartSettings = {
+        ...current,
+        ...(input.abandon_after_hours !== undefined && {
+          abandon_after_hours: input.abandon_after_hours,
+        }),
+        ...(input.coupon_percent !== undefined && {
+          coupon_percent: input.coupon_percent,
+        }),
+        ...(input.coupon_valid_hours !== undefined && {
+          coupon_valid_hours: input.coupon_valid_hours,
+        }),
+      };
+
+      await ctx.prisma.siteSetting.upsert({
+        where: { key: SETTING_KEYS.ABANDONED_CART_SETTINGS },
+        create: { key: SETTING_KEYS.ABANDONED_CART_SETTINGS, value: updated },
+        update: { value: updated },
+      });
+
+      return { success: true, error: null };
+    });
+  }
+
   // Public queries (no admin authentication required)
   @Query(() => HeroImages)
   async publicHeroImages(@Ctx() ctx: Context): Promise<HeroImages> {
@@ -1,5 +1,11 @@
 import { GraphQLDateTime, GraphQLJSON } from "graphql-scalars";
-import { Field, InputType, Int, ObjectType } from "type-graphql";
+import {
+  Field,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
 
 // Hero Images
 @ObjectType()
@@ -94,11 +100,176 @@ export class UpdateSocialLinksInput {
   pinterest?: string;
 }
 
+// Shipping Rates
+export enum ShippingRateBasis {
+  WEIGHT = "WEIGHT",
+  ITEM_COUNT = "ITEM_COUNT",
+}
+
+registerEnumType(ShippingRateBasis, {
+  name: "ShippingRateBasis",
+  description: "What shipping tiers are measured in (grams or items)",
+});
+
+@ObjectType()
+export class ShippingRateTier {
+  @Field(() => Int, { nullable: true })
+  up_to?: number | null;
+
+  @Field(() => Int)
+  fee!: number;
+}
+
+@ObjectType()
+export class ShippingZone {
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => [String])
+  states!: string[];
+
+  @Field(() => [String])
+  pin_prefixes!: string[];
+
+  @Field(() => [ShippingRateTier])
+  tiers!: ShippingRateTier[];
+}
+
+@ObjectType()
+export class ShippingRates {
+  @Field(() => ShippingRateBasis)
+  basis!: ShippingRateBasis;
+
+  @Field(() => Int, { nullable: true })
+  free_shipping_threshold?: number | null;
+
+  @Field(() => [ShippingRateTier])
+  default_tiers!: ShippingRateTier[];
+
+  @Field(() => [ShippingZone])
+  zones!: ShippingZone[];
+}
+
+@InputType()
+export class ShippingRateTierInput {
+  @Field(() => Int, { nullable: true })
+  up_to?: number | null;
+
+  @Field(() => Int)
+  fee!: number;
+}
+
+@InputType()
+export class ShippingZoneInput {
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => [String], { defaultValue: [] })
+  states!: string[];
+
+  @Field(() => [String], { defaultValue: [] })
+  pin_prefixes!: string[];
+
+  @Field(() => [ShippingRateTierInput], { defaultValue: [] })
+  tiers!: ShippingRateTierInput[];
+}
+
+@InputType()
+export class UpdateShippingRatesInput {
+  @Field(() => ShippingRateBasis, { nullable: true })
+  basis?: ShippingRateBasis;
+
+  @Field(() => Int, { nullable: true })
+  free_shipping_threshold?: number | null;
+
+  @Field(() => [ShippingRateTierInput], { nullable: true })
+  default_tiers?: ShippingRateTierInput[];
+
+  @Field(() => [ShippingZoneInput], { nullable: true })
+  zones?: ShippingZoneInput[];
+}
+
+// Return Settings
+@ObjectType()
+export class ReturnSettings {
+  @Field(() => Int)
+  window_days!: number;
+}
+
+@InputType()
+export class UpdateReturnSettingsInput {
+  @Field(() => Int)
+  window_days!: number;
+}
+
+// Invoice Settings
+@ObjectType()
+export class InvoiceSettings {
+  @Field(() => String)
+  legal_name!: string;
+
+  @Field(() => String)
+  gstin!: string;
+
+  @Field(() => String)
+  state!: string;
+
+  @Field(() => String)
+  prefix!: string;
+}
+
+@InputType()
+export class UpdateInvoiceSettingsInput {
+  @Field(() => String, { nullable: true })
+  legal_name?: string;
+
+  @Field(() => String, { nullable: true })
+  gstin?: string;
+
+  @Field(() => String, { nullable: true })
+  state?: string;
+
+  @Field(() => String, { nullable: true })
+  prefix?: string;
+}
+
+// Abandoned Cart Settings
+@ObjectType()
+export class AbandonedCartSettings {
+  @Field(() => Int)
+  abandon_after_hours!: number;
+
+  @Field(() => Int, { nullable: true })
+  coupon_percent?: number | null;
+
+  @Field(() => Int)
+  coupon_valid_hours!: number;
+}
+
+@InputType()
+export class UpdateAbandonedCartSettingsInput {
+  @Field(() => Int, { nullable: true })
+  abandon_after_hours?: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Null stops offering a coupon with the restore link",
+  })
+  coupon_percent?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  coupon_valid_hours?: number;
+}
+
 // Setting value union type for type safety
 export type SettingValue =
   | HeroImages
   | ContactInfo
   | SocialLinks
+  | PrismaJson.ShippingRates
+  | ReturnSettings
+  | InvoiceSettings
+  | AbandonedCartSettings
   | Record<string, string>;
 
 // Site Setting
@@ -65,6 +65,7 @@ export class AdminUsersResolver {
         select: {
           id: true,
           auth_id: true,
+          is_guest: true,
           email: true,
           name: true,
           image: true,
@@ -109,6 +110,7 @@ export class AdminUsersResolver {
     const usersWithPendingCounts = users.map((user) => ({
       id: user.id,
       auth_id: user.auth_id,
+      is_guest: user.is_guest,
       email: user.email,
       name: user.name,
       image: user.image,
@@ -140,6 +142,7 @@ export class AdminUsersResolver {
       select: {
         id: true,
         auth_id: true,
+        is_guest: true,
         email: true,
         name: true,
         image: true,
@@ -177,6 +180,8 @@ export class AdminUsersResolver {
         total: true,
         subtotal: true,
         discount: true,
+        coupon_code: true,
+        coupon_discount: true,
         shipping_fee: true,
         created_at: true,
         request_at: true,
@@ -187,26 +192,58 @@ export class AdminUsersResolver {
         cancelled_at: true,
         returned_at: true,
         refunded_at: true,
+        invoice_number: true,
+        history: {
+          orderBy: { created_at: "asc" },
+          select: {
+            id: true,
+            previous_status: true,
+            status: true,
+            actor_type: true,
+            note: true,
+            created_at: true,
+            actor: {
+              select: { id: true, email: true, name: true },
+            },
+          },
+        },
+        shipments: {
+          orderBy: { shipped_at: "asc" },
+          include: {
+            items: true,
+            events: { orderBy: { occurred_at: "asc" } },
+          },
+        },
         ordered_products: {
           select: {
             id: true,
             quantity: true,
             price: true,
             discount: true,
-            product: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
-                image_urls: true,
-              },
-            },
+            product_id: true,
+            product_name: true,
+            product_slug: true,
+            product_image_url: true,
           },
         },
       },
     });
 
-    return orders;
+    return orders.map(({ ordered_products, ...order }) => ({
+      ...order,
+      ordered_products: ordered_products.map((item) => ({
+        id: item.id,
+        quantity: item.quantity,
+        price: item.price,
+        discount: item.discount,
+        product: {
+          id: item.product_id,
+          name: item.product_name,
+          slug: item.product_slug,
+          image_urls: item.product_image_url ? [item.product_image_url] : [],
+        },
+      })),
+    }));
   }
 
   @Query(() => [AdminUserRegistration])
@@ -260,6 +297,7 @@ export class AdminUsersResolver {
       select: {
         id: true,
         quantity: true,
+        saved_for_later: true,
         created_at: true,
         product: {
           select: {
@@ -3,6 +3,9 @@ import { Field, Float, InputType, Int, ObjectType } from "type-graphql";
 
 import { UserRole } from "@/prisma/generated/client";
 
+import { Shipment } from "../../orders/orders.type";
+import { AdminOrderStatusEvent } from "../orders/orders.type";
+
 // Note: UserRole enum is registered in src/resolvers/user/user.type.ts
 // Do not register it again here
 
@@ -20,8 +23,14 @@ export class AdminUser {
   @Field(() => Int)
   id!: number;
 
-  @Field(() => String)
-  auth_id!: string;
+  @Field(() => String, {
+    nullable: true,
+    description: "Null for guest buyers without an account",
+  })
+  auth_id?: string | null;
+
+  @Field(() => Boolean)
+  is_guest!: boolean;
 
   @Field(() => String)
   email!: string;
@@ -74,8 +83,14 @@ export class AdminUserDetail {
   @Field(() => Int)
   id!: number;
 
-  @Field(() => String)
-  auth_id!: string;
+  @Field(() => String, {
+    nullable: true,
+    description: "Null for guest buyers without an account",
+  })
+  auth_id?: string | null;
+
+  @Field(() => Boolean)
+  is_guest!: boolean;
 
   @Field(() => String)
   email!: string;
@@ -198,6 +213,12 @@ export class AdminUserOrder {
   @Field(() => Float)
   discount!: number;
 
+  @Field(() => String, { nullable: true })
+  coupon_code?: string | null;
+
+  @Field(() => Float)
+  coupon_discount!: number;
+
   @Field(() => Float)
   shipping_fee!: number;
 
@@ -228,8 +249,17 @@ export class AdminUserOrder {
   @Field(() => GraphQLDateTime, { nullable: true })
   refunded_at?: Date | null;
 
+  @Field(() => String, { nullable: true })
+  invoice_number?: string | null;
+
   @Field(() => [AdminUserOrderItem])
   ordered_products!: AdminUserOrderItem[];
+
+  @Field(() => [AdminOrderStatusEvent])
+  history!: AdminOrderStatusEvent[];
+
+  @Field(() => [Shipment])
+  shipments!: Shipment[];
 }
 
 // User Registration types
@@ -329,6 +359,9 @@ export class AdminUserCartItem {
   @Field(() => Int)
   quantity!: number;
 
+  @Field(() => Boolean)
+  saved_for_later!: boolean;
+
   @Field(() => GraphQLDateTime)
   created_at!: Date;
 
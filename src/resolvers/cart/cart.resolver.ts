@@ -1,16 +1,47 @@
 import { GraphQLError } from "graphql";
 import { Arg, Ctx, Int, Mutation, Query, Resolver } from "type-graphql";
 
+import { upsertCartLine } from "@/lib/cart-lines";
+import {
+  CouponLine,
+  checkCouponUserLimit,
+  evaluateCoupon,
+  normalizeCouponCode,
+} from "@/lib/coupons";
+import { getOrderDispatchDate, getSellableQuantity } from "@/lib/fulfilment";
+import { signGuestCartToken } from "@/lib/guest-cart";
+import { priceOrder } from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
+import {
+  PURCHASE_LIMITS_SELECT,
+  checkPurchaseLimits,
+  createCartLineLimiter,
+} from "@/lib/purchase-limits";
+import {
+  VARIANT_SELECT,
+  VariantDetails,
+  VariantError,
+  getVariantName,
+  getVariantPrice,
+  mapVariant,
+  resolveVariant,
+} from "@/lib/variants";
 import { authRequired } from "@/middlewares/auth.middleware";
+import { idempotent } from "@/middlewares/idempotency.middleware";
+import { Coupon } from "@/prisma/generated/client";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
 import {
   AddToCartInput,
+  AppliedCoupon,
+  CartCouponResponse,
   CartItem,
   CartMutationResponse,
   CartResponse,
+  CheckoutLineWarning,
+  CheckoutPreview,
+  RestoreCartResponse,
   UpdateCartQuantityInput,
 } from "./cart.type";
 
@@ -62,9 +93,11 @@ function mapToProductBase(product: {
 function mapCartItem(
   cart: {
     id: number;
-    user_id: number;
+    user_id?: number | null;
     product_id: number;
+    variant_id: number | null;
     quantity: number;
+    saved_for_later?: boolean;
     created_at: Date;
     updated_at: Date;
     product: {
@@ -80,6 +113,7 @@ function mapCartItem(
       color_name: string;
       reviews?: { rating: number }[];
     };
+    variant: VariantDetails | null;
   },
   userWishlistIds?: Set<number>,
 ): CartItem {
@@ -90,32 +124,250 @@ function mapCartItem(
 
   return {
     id: cart.id,
-    user_id: cart.user_id,
+    user_id: cart.user_id ?? null,
     product_id: cart.product_id,
+    variant_id: cart.variant_id,
     quantity: cart.quantity,
+    unit_price: getVariantPrice(cart.product, cart.variant),
+    saved_for_later: cart.saved_for_later ?? false,
     created_at: cart.created_at,
     updated_at: cart.updated_at,
     product: productBase,
+    variant: cart.variant ? mapVariant(cart.product, cart.variant) : null,
+  };
+}
+
+const CART_ITEM_INCLUDE = {
+  product: {
+    include: { reviews: { select: { rating: true } } },
+  },
+  variant: { select: VARIANT_SELECT },
+} as const;
+
+function mapAppliedCoupon(coupon: Coupon): AppliedCoupon {
+  return {
+    code: coupon.code,
+    description: coupon.description,
+    type: coupon.type,
+    value: coupon.value,
+  };
+}
+
+function toCouponLines(
+  cartItems: {
+    product_id: number;
+    quantity: number;
+    product: {
+      price: number;
+      material: string;
+      product_categories: { category: string }[];
+    };
+    variant: { price: number | null } | null;
+  }[],
+): CouponLine[] {
+  return cartItems.map((item) => ({
+    product_id: item.product_id,
+    price: getVariantPrice(item.product, item.variant),
+    quantity: item.quantity,
+    material: item.product.material,
+    categories: item.product.product_categories.map((pc) => pc.category),
+  }));
+}
+
+async function getGuestCart(guestCartId?: string): Promise<CartResponse> {
+  const cartItems = guestCartId
+    ? await prisma.guestCartItem.findMany({
+        where: { guest_cart_id: guestCartId },
+        include: CART_ITEM_INCLUDE,
+        orderBy: { created_at: "desc" },
+      })
+    : [];
+
+  const items = cartItems.map((item) => mapCartItem(item));
+  const subtotal = items.reduce(
+    (sum, item) => sum + item.unit_price * item.quantity,
+    0,
+  );
+
+  // Coupons are tied to a user, guests apply them after signing in
+  return {
+    items,
+    saved_items: [],
+    total: items.length,
+    subtotal,
+    discount: 0,
+    coupon: null,
+  };
+}
+
+// Check the quantity a cart line will have against the product's limits
+async function checkCartLineLimits(
+  ctx: Context,
+  productId: number,
+  quantity: number,
+): Promise<string | null> {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: PURCHASE_LIMITS_SELECT,
+  });
+
+  if (!product) return null;
+
+  return checkPurchaseLimits(prisma, ctx.user?.dbUserId ?? null, [
+    { product_id: productId, quantity, product },
+  ]);
+}
+
+// Quantity on the product's line for the variant, and on the lines for its
+// other variants still in the cart. Limits apply to the product as a whole.
+async function getCartLineQuantities(
+  ctx: Context,
+  productId: number,
+  variantId: number | null,
+): Promise<{ line: number; others: number }> {
+  const lines = ctx.user
+    ? await prisma.cart.findMany({
+        where: { user_id: getUserId(ctx), product_id: productId },
+        select: { variant_id: true, quantity: true, saved_for_later: true },
+      })
+    : ctx.guestCartId
+      ? (
+          await prisma.guestCartItem.findMany({
+            where: { guest_cart_id: ctx.guestCartId, product_id: productId },
+            select: { variant_id: true, quantity: true },
+          })
+        ).map((item) => ({ ...item, saved_for_later: false }))
+      : [];
+
+  let line = 0;
+  let others = 0;
+  for (const item of lines) {
+    if (item.variant_id === variantId) {
+      line = item.quantity;
+    } else if (!item.saved_for_later) {
+      others += item.quantity;
+    }
+  }
+
+  return { line, others };
+}
+
+async function setSavedForLater(
+  userId: number,
+  productId: number,
+  variantId: number | null,
+  saved: boolean,
+): Promise<CartMutationResponse> {
+  const existing = await prisma.cart.findFirst({
+    where: { user_id: userId, product_id: productId, variant_id: variantId },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    return { success: false, item: null };
+  }
+
+  const [cart, wishlistItem] = await Promise.all([
+    prisma.cart.update({
+      where: { id: existing.id },
+      data: { saved_for_later: saved },
+      include: CART_ITEM_INCLUDE,
+    }),
+    prisma.wishlist.findUnique({
+      where: {
+        user_id_product_id: { user_id: userId, product_id: productId },
+      },
+    }),
+  ]);
+
+  const userWishlistIds = wishlistItem
+    ? new Set([productId])
+    : new Set<number>();
+
+  return { success: true, item: mapCartItem(cart, userWishlistIds) };
+}
+
+async function addToGuestCart(
+  guestCartId: string | undefined,
+  product: { id: number; price: number },
+  variant: { id: number; price: number | null } | null,
+  quantity: number,
+): Promise<CartMutationResponse> {
+  // A token whose cart was already merged starts a new guest cart
+  const existing = guestCartId
+    ? await prisma.guestCart.findUnique({
+        where: { id: guestCartId },
+        select: { id: true },
+      })
+    : null;
+  const guestCart = existing
+    ? await prisma.guestCart.update({
+        where: { id: existing.id },
+        data: { updated_at: new Date() },
+      })
+    : await prisma.guestCart.create({ data: {} });
+
+  const line = {
+    guest_cart_id: guestCart.id,
+    product_id: product.id,
+    variant_id: variant?.id ?? null,
+  };
+  // Skipped when the unique key already has the line, see upsertCartLine
+  const { count } = await prisma.guestCartItem.createMany({
+    data: [
+      {
+        ...line,
+        quantity,
+        price_when_added: getVariantPrice(product, variant),
+      },
+    ],
+    skipDuplicates: true,
+  });
+  const { id } = await prisma.guestCartItem.findFirstOrThrow({
+    where: line,
+    select: { id: true },
+  });
+  const item =
+    count === 0
+      ? await prisma.guestCartItem.update({
+          where: { id },
+          data: { quantity: { increment: quantity } },
+          include: CART_ITEM_INCLUDE,
+        })
+      : await prisma.guestCartItem.findUniqueOrThrow({
+          where: { id },
+          include: CART_ITEM_INCLUDE,
+        });
+
+  return {
+    success: true,
+    item: mapCartItem(item),
+    guest_token: existing ? null : signGuestCartToken(guestCart.id),
   };
 }
 
 @Resolver()
 export class CartResolver {
   @Query(() => CartResponse)
-  @authRequired()
   async cart(@Ctx() ctx: Context): Promise<CartResponse> {
     return tryCatchAsync(async () => {
+      if (!ctx.user) {
+        return getGuestCart(ctx.guestCartId);
+      }
+
       const userId = getUserId(ctx);
 
-      const [cartItems, wishlistItems] = await Promise.all([
+      const [cartItems, wishlistItems, cartCoupon] = await Promise.all([
         prisma.cart.findMany({
           where: { user_id: userId },
           include: {
             product: {
               include: {
                 reviews: { select: { rating: true } },
+                product_categories: { select: { category: true } },
               },
             },
+            variant: { select: VARIANT_SELECT },
           },
           orderBy: { created_at: "desc" },
         }),
@@ -123,53 +375,261 @@ export class CartResolver {
           where: { user_id: userId },
           select: { product_id: true },
         }),
+        prisma.cartCoupon.findUnique({
+          where: { user_id: userId },
+          include: { coupon: true },
+        }),
       ]);
 
       const userWishlistIds = new Set(wishlistItems.map((w) => w.product_id));
-      const items = cartItems.map((item) => mapCartItem(item, userWishlistIds));
+      const activeItems = cartItems.filter((item) => !item.saved_for_later);
+      const items = activeItems.map((item) =>
+        mapCartItem(item, userWishlistIds),
+      );
+      const savedItems = cartItems
+        .filter((item) => item.saved_for_later)
+        .map((item) => mapCartItem(item, userWishlistIds));
 
       const total = items.length;
       const subtotal = items.reduce(
-        (sum, item) => sum + item.product.price * item.quantity,
+        (sum, item) => sum + item.unit_price * item.quantity,
         0,
       );
 
-      return { items, total, subtotal };
+      if (!cartCoupon) {
+        return {
+          items,
+          saved_items: savedItems,
+          total,
+          subtotal,
+          discount: 0,
+          coupon: null,
+        };
+      }
+
+      // Re-evaluate on every read since the cart or coupon may have changed
+      const evaluation = evaluateCoupon(
+        cartCoupon.coupon,
+        toCouponLines(activeItems),
+      );
+      const couponError =
+        evaluation.error ??
+        (await checkCouponUserLimit(prisma, cartCoupon.coupon, userId));
+
+      return {
+        items,
+        saved_items: savedItems,
+        total,
+        subtotal,
+        discount: couponError ? 0 : evaluation.discount,
+        coupon: mapAppliedCoupon(cartCoupon.coupon),
+        coupon_error: couponError,
+      };
     });
   }
 
-  @Mutation(() => CartMutationResponse)
+  // Price the cart the way createOrder will, on quantities that are in stock
+  @Query(() => CheckoutPreview)
   @authRequired()
+  async cartCheckoutPreview(
+    @Ctx() ctx: Context,
+    @Arg("addressId", () => Int, {
+      nullable: true,
+      description: "Saved address to quote shipping for",
+    })
+    addressId?: number,
+  ): Promise<CheckoutPreview> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const [cartItems, cartCoupon, address] = await Promise.all([
+        prisma.cart.findMany({
+          where: { user_id: userId, saved_for_later: false },
+          include: {
+            product: {
+              include: {
+                product_categories: { select: { category: true } },
+              },
+            },
+            variant: true,
+          },
+          orderBy: { created_at: "desc" },
+        }),
+        prisma.cartCoupon.findUnique({
+          where: { user_id: userId },
+          include: { coupon: true },
+        }),
+        addressId
+          ? prisma.userAddress.findFirst({
+              where: { id: addressId, user_id: userId },
+              select: { state: true, zip: true },
+            })
+          : null,
+      ]);
+
+      if (addressId && !address) {
+        throw new GraphQLError("Address not found");
+      }
+
+      const lines = cartItems.map((item) => {
+        const { product, variant } = item;
+        const warnings: CheckoutLineWarning[] = [];
+        const price = getVariantPrice(product, variant);
+        // A variant line is limited by the variant's own stock
+        const available = getSellableQuantity(product, variant);
+        let quantity = item.quantity;
+
+        if (
+          !product.is_active ||
+          product.deleted_at ||
+          (variant && !variant.is_active)
+        ) {
+          warnings.push(CheckoutLineWarning.UNAVAILABLE);
+          quantity = 0;
+        } else if (available <= 0) {
+          warnings.push(CheckoutLineWarning.OUT_OF_STOCK);
+          quantity = 0;
+        } else if (available < item.quantity) {
+          warnings.push(CheckoutLineWarning.QUANTITY_REDUCED);
+          quantity = available;
+        }
+
+        if (price > item.price_when_added) {
+          warnings.push(CheckoutLineWarning.PRICE_INCREASED);
+        } else if (price < item.price_when_added) {
+          warnings.push(CheckoutLineWarning.PRICE_DECREASED);
+        }
+
+        return { item, price, quantity, warnings };
+      });
+
+      // Same check as createOrder, on the quantities in the cart
+      const limitError = await checkPurchaseLimits(
+        prisma,
+        userId,
+        cartItems.map((item) => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          product: item.product,
+        })),
+      );
+
+      const purchasable = lines.filter((line) => line.quantity > 0);
+      const pricing = await priceOrder(prisma, {
+        user_id: userId,
+        lines: purchasable.map(({ item, price, quantity }) => ({
+          product_id: item.product_id,
+          price,
+          quantity,
+          weight_grams: item.product.weight_grams,
+          material: item.product.material,
+          categories: item.product.product_categories.map((pc) => pc.category),
+          gst_rate: item.product.gst_rate,
+        })),
+        coupon: cartCoupon?.coupon ?? null,
+        destination: address,
+      });
+
+      return {
+        lines: lines.map((line) => {
+          const { item, price, quantity, warnings } = line;
+          const discount =
+            pricing.line_discounts.get(purchasable.indexOf(line)) ?? 0;
+          return {
+            product_id: item.product_id,
+            product_name: item.product.name,
+            variant_id: item.variant_id,
+            variant_name: item.variant
+              ? getVariantName(item.variant.options)
+              : null,
+            requested_quantity: item.quantity,
+            quantity,
+            unit_price: price,
+            price_when_added: item.price_when_added,
+            discount,
+            line_total: price * quantity - discount,
+            warnings,
+          };
+        }),
+        subtotal: pricing.subtotal,
+        shipping_fee: pricing.shipping?.fee ?? null,
+        free_shipping_applied: pricing.shipping?.free_shipping_applied ?? false,
+        coupon: cartCoupon ? mapAppliedCoupon(cartCoupon.coupon) : null,
+        coupon_error: pricing.coupon_error,
+        limit_error: limitError,
+        discount: pricing.coupon_discount,
+        tax: pricing.tax,
+        total: pricing.total,
+        estimated_dispatch_at: getOrderDispatchDate(
+          purchasable.map((line) => line.item.product),
+        ),
+        can_checkout:
+          purchasable.length > 0 &&
+          !limitError &&
+          lines.every((line) => line.quantity === line.item.quantity),
+      };
+    });
+  }
+
+  @Mutation(() => CartMutationResponse)
+  @idempotent("addToCart")
   async addToCart(
     @Ctx() ctx: Context,
     @Arg("input", () => AddToCartInput) input: AddToCartInput,
   ): Promise<CartMutationResponse> {
     return tryCatchAsync(async () => {
-      const userId = getUserId(ctx);
       const quantity = input.quantity ?? 1;
 
-      const cart = await prisma.cart.upsert({
-        where: {
-          user_id_product_id: {
-            user_id: userId,
-            product_id: input.product_id,
-          },
-        },
-        update: {
-          quantity: { increment: quantity },
-        },
-        create: {
-          user_id: userId,
-          product_id: input.product_id,
-          quantity,
-        },
-        include: {
-          product: {
-            include: {
-              reviews: { select: { rating: true } },
-            },
-          },
-        },
+      const product = await prisma.product.findUnique({
+        where: { id: input.product_id, is_active: true, deleted_at: null },
+        select: { id: true, price: true },
+      });
+
+      if (!product) {
+        return { success: false, item: null, error: "Product not found" };
+      }
+
+      let variant;
+      try {
+        variant = await resolveVariant(prisma, product.id, input.variant_id);
+      } catch (error) {
+        if (error instanceof VariantError) {
+          return { success: false, item: null, error: error.message };
+        }
+        throw error;
+      }
+
+      const variantId = variant?.id ?? null;
+      const { line, others } = await getCartLineQuantities(
+        ctx,
+        product.id,
+        variantId,
+      );
+      const limitError = await checkCartLineLimits(
+        ctx,
+        product.id,
+        line + others + quantity,
+      );
+      if (limitError) {
+        return { success: false, item: null, error: limitError };
+      }
+
+      if (!ctx.user) {
+        return addToGuestCart(ctx.guestCartId, product, variant, quantity);
+      }
+
+      const userId = getUserId(ctx);
+
+      const cartId = await upsertCartLine(
+        prisma,
+        { user_id: userId, product_id: product.id, variant_id: variantId },
+        // Adding a saved product again brings it back into the cart
+        { quantity: { increment: quantity }, saved_for_later: false },
+        { quantity, price_when_added: getVariantPrice(product, variant) },
+      );
+      const cart = await prisma.cart.findUniqueOrThrow({
+        where: { id: cartId },
+        include: CART_ITEM_INCLUDE,
       });
 
       const wishlistItem = await prisma.wishlist.findUnique({
@@ -193,42 +653,87 @@ export class CartResolver {
   }
 
   @Mutation(() => CartMutationResponse)
-  @authRequired()
   async updateCartQuantity(
     @Ctx() ctx: Context,
     @Arg("input", () => UpdateCartQuantityInput) input: UpdateCartQuantityInput,
   ): Promise<CartMutationResponse> {
     return tryCatchAsync(async () => {
-      const userId = getUserId(ctx);
+      const variantId = input.variant_id ?? null;
 
-      if (input.quantity <= 0) {
-        await prisma.cart.delete({
+      if (input.quantity > 0) {
+        const { others } = await getCartLineQuantities(
+          ctx,
+          input.product_id,
+          variantId,
+        );
+        const limitError = await checkCartLineLimits(
+          ctx,
+          input.product_id,
+          others + input.quantity,
+        );
+        if (limitError) {
+          return { success: false, item: null, error: limitError };
+        }
+      }
+
+      if (!ctx.user) {
+        const guestCartId = ctx.guestCartId;
+        if (!guestCartId) {
+          return { success: false, item: null };
+        }
+
+        const existing = await prisma.guestCartItem.findFirst({
           where: {
-            user_id_product_id: {
-              user_id: userId,
-              product_id: input.product_id,
-            },
+            guest_cart_id: guestCartId,
+            product_id: input.product_id,
+            variant_id: variantId,
           },
+          select: { id: true },
         });
 
-        return { success: true, item: null };
+        if (!existing) {
+          return { success: false, item: null };
+        }
+
+        if (input.quantity <= 0) {
+          await prisma.guestCartItem.delete({ where: { id: existing.id } });
+          return { success: true, item: null };
+        }
+
+        const item = await prisma.guestCartItem.update({
+          where: { id: existing.id },
+          data: { quantity: input.quantity },
+          include: CART_ITEM_INCLUDE,
+        });
+
+        return { success: true, item: mapCartItem(item) };
       }
 
-      const cart = await prisma.cart.update({
+      const userId = getUserId(ctx);
+
+      const existing = await prisma.cart.findFirst({
         where: {
-          user_id_product_id: {
-            user_id: userId,
-            product_id: input.product_id,
-          },
+          user_id: userId,
+          product_id: input.product_id,
+          variant_id: variantId,
         },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return { success: false, item: null };
+      }
+
+      if (input.quantity <= 0) {
+        await prisma.cart.delete({ where: { id: existing.id } });
+
+        return { success: true, item: null };
+      }
+
+      const cart = await prisma.cart.update({
+        where: { id: existing.id },
         data: { quantity: input.quantity },
-        include: {
-          product: {
-            include: {
-              reviews: { select: { rating: true } },
-            },
-          },
-        },
+        include: CART_ITEM_INCLUDE,
       });
 
       const wishlistItem = await prisma.wishlist.findUnique({
@@ -252,24 +757,217 @@ export class CartResolver {
   }
 
   @Mutation(() => Boolean)
-  @authRequired()
   async removeFromCart(
     @Ctx() ctx: Context,
     @Arg("productId", () => Int) productId: number,
+    @Arg("variantId", () => Int, {
+      nullable: true,
+      description: "Every variant of the product is removed when omitted",
+    })
+    variantId?: number,
   ): Promise<boolean> {
     return tryCatchAsync(async () => {
-      const userId = getUserId(ctx);
+      const variantWhere = variantId ? { variant_id: variantId } : {};
 
-      await prisma.cart.delete({
-        where: {
-          user_id_product_id: {
-            user_id: userId,
+      if (!ctx.user) {
+        if (!ctx.guestCartId) return false;
+
+        await prisma.guestCartItem.deleteMany({
+          where: {
+            guest_cart_id: ctx.guestCartId,
             product_id: productId,
+            ...variantWhere,
           },
+        });
+
+        return true;
+      }
+
+      const userId = getUserId(ctx);
+
+      const { count } = await prisma.cart.deleteMany({
+        where: { user_id: userId, product_id: productId, ...variantWhere },
+      });
+
+      return count > 0;
+    });
+  }
+
+  @Mutation(() => CartMutationResponse)
+  @authRequired()
+  async saveForLater(
+    @Ctx() ctx: Context,
+    @Arg("productId", () => Int) productId: number,
+    @Arg("variantId", () => Int, { nullable: true }) variantId?: number,
+  ): Promise<CartMutationResponse> {
+    return tryCatchAsync(async () => {
+      return setSavedForLater(
+        getUserId(ctx),
+        productId,
+        variantId ?? null,
+        true,
+      );
+    });
+  }
+
+  @Mutation(() => CartMutationResponse)
+  @authRequired()
+  async moveSavedToCart(
+    @Ctx() ctx: Context,
+    @Arg("productId", () => Int) productId: number,
+    @Arg("variantId", () => Int, { nullable: true }) variantId?: number,
+  ): Promise<CartMutationResponse> {
+    return tryCatchAsync(async () => {
+      // The saved line counts towards the product's limits again
+      const { line, others } = await getCartLineQuantities(
+        ctx,
+        productId,
+        variantId ?? null,
+      );
+      const limitError = await checkCartLineLimits(
+        ctx,
+        productId,
+        line + others,
+      );
+      if (limitError) {
+        return { success: false, item: null, error: limitError };
+      }
+
+      return setSavedForLater(
+        getUserId(ctx),
+        productId,
+        variantId ?? null,
+        false,
+      );
+    });
+  }
+
+  // Target of the restore link sent for an abandoned cart
+  @Mutation(() => RestoreCartResponse)
+  @authRequired()
+  async restoreCart(
+    @Ctx() ctx: Context,
+    @Arg("token", () => String) token: string,
+  ): Promise<RestoreCartResponse> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const recovery = await prisma.cartRecovery.findUnique({
+        where: { token },
+        include: {
+          items: {
+            include: {
+              product: {
+                select: {
+                  ...PURCHASE_LIMITS_SELECT,
+                  price: true,
+                  is_active: true,
+                  deleted_at: true,
+                },
+              },
+              variant: { select: { price: true, is_active: true } },
+            },
+          },
+          coupon: true,
         },
       });
 
-      return true;
+      if (!recovery || recovery.user_id !== userId) {
+        return {
+          success: false,
+          error: "This cart link is not valid",
+          restored_items: 0,
+          coupon: null,
+        };
+      }
+
+      const items = recovery.items.filter(
+        (item) =>
+          item.product.is_active &&
+          !item.product.deleted_at &&
+          (!item.variant || item.variant.is_active),
+      );
+      const { coupon } = recovery;
+      const couponUsable =
+        coupon !== null &&
+        coupon.is_active &&
+        (!coupon.ends_at || coupon.ends_at > new Date());
+
+      const restoredItems = await prisma.$transaction(async (tx) => {
+        const cartLines = await tx.cart.findMany({
+          where: {
+            user_id: userId,
+            product_id: { in: items.map((item) => item.product_id) },
+          },
+          select: {
+            product_id: true,
+            variant_id: true,
+            quantity: true,
+            saved_for_later: true,
+          },
+        });
+        const limiter = await createCartLineLimiter(
+          tx,
+          userId,
+          new Map(items.map((item) => [item.product_id, item.product])),
+          cartLines,
+        );
+
+        // Lines still in the cart keep the quantity the customer left them
+        // at, lines added back are capped by purchase limits
+        let restored = 0;
+        for (const item of items) {
+          const inCart = cartLines.find(
+            (line) =>
+              line.product_id === item.product_id &&
+              line.variant_id === item.variant_id,
+          );
+          const quantity =
+            inCart?.quantity ??
+            limiter.cap(item.product_id, item.variant_id, item.quantity);
+          if (quantity === 0) continue;
+
+          await upsertCartLine(
+            tx,
+            {
+              user_id: userId,
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+            },
+            { saved_for_later: false },
+            {
+              quantity,
+              price_when_added: getVariantPrice(item.product, item.variant),
+            },
+          );
+          limiter.set(item.product_id, item.variant_id, quantity);
+          restored++;
+        }
+
+        if (couponUsable) {
+          await tx.cartCoupon.upsert({
+            where: { user_id: userId },
+            update: { coupon_id: coupon.id },
+            create: { user_id: userId, coupon_id: coupon.id },
+          });
+        }
+
+        if (!recovery.restored_at) {
+          await tx.cartRecovery.update({
+            where: { id: recovery.id },
+            data: { restored_at: new Date() },
+          });
+        }
+
+        return restored;
+      });
+
+      return {
+        success: true,
+        error: null,
+        restored_items: restoredItems,
+        coupon: couponUsable ? mapAppliedCoupon(coupon) : null,
+      };
     });
   }
 
@@ -280,6 +978,91 @@ export class CartResolver {
       const userId = getUserId(ctx);
 
       await prisma.cart.deleteMany({
+        where: { user_id: userId, saved_for_later: false },
+      });
+
+      return true;
+    });
+  }
+
+  @Mutation(() => CartCouponResponse)
+  @authRequired()
+  async applyCoupon(
+    @Ctx() ctx: Context,
+    @Arg("code", () => String) code: string,
+  ): Promise<CartCouponResponse> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const coupon = await prisma.coupon.findUnique({
+        where: { code: normalizeCouponCode(code) },
+      });
+
+      if (!coupon) {
+        return {
+          success: false,
+          error: "Invalid coupon code",
+          coupon: null,
+          discount: 0,
+        };
+      }
+
+      const cartItems = await prisma.cart.findMany({
+        where: { user_id: userId, saved_for_later: false },
+        select: {
+          product_id: true,
+          quantity: true,
+          product: {
+            select: {
+              price: true,
+              material: true,
+              product_categories: { select: { category: true } },
+            },
+          },
+          variant: { select: { price: true } },
+        },
+      });
+
+      if (cartItems.length === 0) {
+        return {
+          success: false,
+          error: "Your cart is empty",
+          coupon: null,
+          discount: 0,
+        };
+      }
+
+      const evaluation = evaluateCoupon(coupon, toCouponLines(cartItems));
+      const error =
+        evaluation.error ??
+        (await checkCouponUserLimit(prisma, coupon, userId));
+
+      if (error) {
+        return { success: false, error, coupon: null, discount: 0 };
+      }
+
+      await prisma.cartCoupon.upsert({
+        where: { user_id: userId },
+        update: { coupon_id: coupon.id },
+        create: { user_id: userId, coupon_id: coupon.id },
+      });
+
+      return {
+        success: true,
+        error: null,
+        coupon: mapAppliedCoupon(coupon),
+        discount: evaluation.discount,
+      };
+    });
+  }
+
+  @Mutation(() => Boolean)
+  @authRequired()
+  async removeCoupon(@Ctx() ctx: Context): Promise<boolean> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      await prisma.cartCoupon.deleteMany({
         where: { user_id: userId },
       });
 
@@ -1,22 +1,53 @@
 import { GraphQLDateTime } from "graphql-scalars";
-import { Field, InputType, Int, ObjectType } from "type-graphql";
+import {
+  Field,
+  Float,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
 
-import { ProductBase } from "../products/products.type";
+import { CouponType } from "@/prisma/generated/enums";
+
+import { ProductBase, ProductVariant } from "../products/products.type";
+
+export enum CheckoutLineWarning {
+  UNAVAILABLE = "UNAVAILABLE",
+  OUT_OF_STOCK = "OUT_OF_STOCK",
+  QUANTITY_REDUCED = "QUANTITY_REDUCED",
+  PRICE_INCREASED = "PRICE_INCREASED",
+  PRICE_DECREASED = "PRICE_DECREASED",
+}
+
+registerEnumType(CheckoutLineWarning, {
+  name: "CheckoutLineWarning",
+  description: "Why a cart line differs from what the customer added",
+});
 
 @ObjectType()
 export class CartItem {
   @Field(() => Int)
   id!: number;
 
-  @Field(() => Int)
-  user_id!: number;
+  @Field(() => Int, { nullable: true, description: "Null in a guest cart" })
+  user_id?: number | null;
 
   @Field(() => Int)
   product_id!: number;
 
+  @Field(() => Int, { nullable: true })
+  variant_id?: number | null;
+
   @Field(() => Int)
   quantity!: number;
 
+  @Field(() => Int, { description: "Variant price, or the product price" })
+  unit_price!: number;
+
+  @Field(() => Boolean)
+  saved_for_later!: boolean;
+
   @Field(() => GraphQLDateTime)
   created_at!: Date;
 
@@ -25,6 +56,24 @@ export class CartItem {
 
   @Field(() => ProductBase)
   product!: ProductBase;
+
+  @Field(() => ProductVariant, { nullable: true })
+  variant?: ProductVariant | null;
+}
+
+@ObjectType()
+export class AppliedCoupon {
+  @Field(() => String)
+  code!: string;
+
+  @Field(() => String, { nullable: true })
+  description?: string | null;
+
+  @Field(() => CouponType)
+  type!: CouponType;
+
+  @Field(() => Int)
+  value!: number;
 }
 
 @ObjectType()
@@ -32,11 +81,28 @@ export class CartResponse {
   @Field(() => [CartItem])
   items!: CartItem[];
 
+  @Field(() => [CartItem], {
+    description: "Saved for later, not part of the totals or checkout",
+  })
+  saved_items!: CartItem[];
+
   @Field(() => Int)
   total!: number;
 
   @Field(() => Int)
   subtotal!: number;
+
+  @Field(() => Int)
+  discount!: number;
+
+  @Field(() => AppliedCoupon, { nullable: true })
+  coupon?: AppliedCoupon | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Why the applied coupon currently gives no discount",
+  })
+  coupon_error?: string | null;
 }
 
 @InputType()
@@ -44,8 +110,20 @@ export class AddToCartInput {
   @Field(() => Int)
   product_id!: number;
 
+  @Field(() => Int, {
+    nullable: true,
+    description: "Required when the product has variants",
+  })
+  variant_id?: number;
+
   @Field(() => Int, { nullable: true, defaultValue: 1 })
   quantity?: number;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Retries with the same key return the original result",
+  })
+  idempotency_key?: string;
 }
 
 @InputType()
@@ -53,6 +131,9 @@ export class UpdateCartQuantityInput {
   @Field(() => Int)
   product_id!: number;
 
+  @Field(() => Int, { nullable: true })
+  variant_id?: number;
+
   @Field(() => Int)
   quantity!: number;
 }
@@ -64,4 +145,135 @@ export class CartMutationResponse {
 
   @Field(() => CartItem, { nullable: true })
   item?: CartItem | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description:
+      "Set when a guest cart is created, send it back in the X-Guest-Cart-Token header",
+  })
+  guest_token?: string | null;
+}
+
+@ObjectType()
+export class CartCouponResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => AppliedCoupon, { nullable: true })
+  coupon?: AppliedCoupon | null;
+
+  @Field(() => Int)
+  discount!: number;
+}
+
+@ObjectType()
+export class RestoreCartResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => Int, {
+    description: "Lines put back, products no longer sold are skipped",
+  })
+  restored_items!: number;
+
+  @Field(() => AppliedCoupon, { nullable: true })
+  coupon?: AppliedCoupon | null;
+}
+
+@ObjectType()
+export class CheckoutPreviewLine {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => Int, { nullable: true })
+  variant_id?: number | null;
+
+  @Field(() => String, { nullable: true })
+  variant_name?: string | null;
+
+  @Field(() => Int, { description: "Quantity in the cart" })
+  requested_quantity!: number;
+
+  @Field(() => Int, { description: "Quantity that can be bought right now" })
+  quantity!: number;
+
+  @Field(() => Int)
+  unit_price!: number;
+
+  @Field(() => Int)
+  price_when_added!: number;
+
+  @Field(() => Int)
+  discount!: number;
+
+  @Field(() => Int)
+  line_total!: number;
+
+  @Field(() => [CheckoutLineWarning])
+  warnings!: CheckoutLineWarning[];
+}
+
+@ObjectType()
+export class CheckoutPreview {
+  @Field(() => [CheckoutPreviewLine])
+  lines!: CheckoutPreviewLine[];
+
+  @Field(() => Int)
+  subtotal!: number;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Null until a shipping address is chosen",
+  })
+  shipping_fee?: number | null;
+
+  @Field(() => Boolean)
+  free_shipping_applied!: boolean;
+
+  @Field(() => AppliedCoupon, { nullable: true })
+  coupon?: AppliedCoupon | null;
+
+  @Field(() => String, { nullable: true })
+  coupon_error?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description:
+      "Purchase limit the cart breaks, checkout is refused until fixed",
+  })
+  limit_error?: string | null;
+
+  @Field(() => Int)
+  discount!: number;
+
+  @Field(() => Float, { description: "GST included in the total" })
+  tax!: number;
+
+  @Field(() => Int)
+  total!: number;
+
+  @Field(() => GraphQLDateTime, {
+    nullable: true,
+    description:
+      "When the order would be dispatched, set when it has made-to-order or pre-order items",
+  })
+  estimated_dispatch_at?: Date | null;
+
+  @Field(() => Boolean, {
+    description:
+      "False while any line is unavailable or short on stock, update the cart first",
+  })
+  can_checkout!: boolean;
 }
@@ -2,6 +2,7 @@ import { GraphQLError } from "graphql";
 import { Arg, Ctx, Mutation, Query, Resolver } from "type-graphql";
 
 import { authRequired } from "@/middlewares/auth.middleware";
+import { idempotent } from "@/middlewares/idempotency.middleware";
 import {
   EventLevel as PrismaEventLevel,
   EventRegistrationStatus as PrismaEventRegistrationStatus,
@@ -948,6 +949,7 @@ export class EventsResolver {
 
   @Mutation(() => RegisterForEventResponse)
   @authRequired()
+  @idempotent("registerForEvent")
   async registerForEvent(
     @Ctx() ctx: Context,
     @Arg("input", () => RegisterForEventInput) input: RegisterForEventInput,
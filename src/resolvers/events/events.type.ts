@@ -397,6 +397,12 @@ export class RegisterForEventInput {
 
   @Field(() => Int, { nullable: true, defaultValue: 1 })
   seats?: number;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Retries with the same key return the original result",
+  })
+  idempotency_key?: string;
 }
 
 @ObjectType()
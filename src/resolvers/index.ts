@@ -8,6 +8,9 @@ export * from "./reviews/reviews.resolver";
 export * from "./address/address.resolver";
 export * from "./newsletter/newsletter.resolver";
 export * from "./search/search.resolver";
+export * from "./payments/payments.resolver";
+export * from "./returns/returns.resolver";
+export * from "./stock-notifications/stock-notifications.resolver";
 
 // Admin resolvers
 export * from "./admin/analytics/analytics.resolver";
@@ -20,3 +23,7 @@ export * from "./admin/users/users.resolver";
 export * from "./admin/content/content.resolver";
 export * from "./admin/settings/settings.resolver";
 export * from "./admin/uploads/uploads.resolver";
+export * from "./admin/coupons/coupons.resolver";
+export * from "./admin/returns/returns.resolver";
+export * from "./admin/abandoned-carts/abandoned-carts.resolver";
+export * from "./admin/inventory/inventory.resolver";
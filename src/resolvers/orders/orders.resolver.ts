@@ -1,8 +1,42 @@
 import { GraphQLError } from "graphql";
-import { Arg, Ctx, Mutation, Query, Resolver } from "type-graphql";
+import { Arg, Ctx, Int, Mutation, Query, Resolver } from "type-graphql";
 
+import { markCartsRecovered } from "@/lib/abandoned-carts";
+import { getBundleComponents } from "@/lib/bundles";
+import { upsertCartLine } from "@/lib/cart-lines";
+import { CouponError, redeemCoupon } from "@/lib/coupons";
+import {
+  FULFILMENT_SELECT,
+  getDispatchDate,
+  getOrderDispatchDate,
+  getSellableQuantity,
+} from "@/lib/fulfilment";
+import {
+  GuestCheckoutError,
+  createGuestOrderToken,
+  getGuestBuyerId,
+  hashGuestOrderToken,
+  validateGuestBuyer,
+} from "@/lib/guest-checkout";
+import { getProductSnapshot, transitionOrderStatus } from "@/lib/orders";
+import { priceOrder } from "@/lib/pricing";
+import {
+  PURCHASE_LIMITS_SELECT,
+  checkPurchaseLimits,
+  createCartLineLimiter,
+} from "@/lib/purchase-limits";
+import { calculateShipping, getShippingRates } from "@/lib/shipping";
+import { InsufficientStockError, reserveStock } from "@/lib/stock";
+import { getLineKey, getVariantPrice } from "@/lib/variants";
 import { authRequired } from "@/middlewares/auth.middleware";
-import { OrderStatus as PrismaOrderStatus } from "@/prisma/generated/client";
+import { idempotent } from "@/middlewares/idempotency.middleware";
+import {
+  FulfilmentMode,
+  OrderStatus as PrismaOrderStatus,
+  OrderStatusActor as PrismaOrderStatusActor,
+  ShipmentTrackingStatus,
+  StockMovementType,
+} from "@/prisma/generated/client";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
@@ -12,12 +46,29 @@ import {
   OrderItem,
   OrderMutationResponse,
   OrderStatus,
+  OrderStatusActor,
   OrderUser,
   OrdersFilterInput,
   OrdersResponse,
+  ReorderItemResult,
+  ReorderItemStatus,
+  ReorderResponse,
   ShippingAddress,
+  ShippingQuote,
 } from "./orders.type";
 
+const CHECKOUT_CART_SELECT = {
+  product_id: true,
+  variant_id: true,
+  quantity: true,
+  product: {
+    include: {
+      product_categories: { select: { category: true } },
+    },
+  },
+  variant: true,
+} as const;
+
 function getUserId(ctx: Context): number {
   const userId = ctx.user?.dbUserId;
   if (!userId) {
@@ -71,6 +122,16 @@ function mapOrderItem(
     quantity: number;
     discount: number;
     price: number;
+    product_name: string;
+    product_slug: string;
+    product_image_url: string | null;
+    product_material: string;
+    product_color_name: string;
+    product_color_code: string;
+    variant_sku: string | null;
+    variant_name: string | null;
+    fulfilment_mode: FulfilmentMode;
+    estimated_dispatch_at: Date | null;
     created_at: Date;
     updated_at: Date;
     product: {
@@ -90,13 +151,27 @@ function mapOrderItem(
   reviewedProductIds: Set<number>,
   wishlistProductIds: Set<number>,
 ): OrderItem {
-  const productBase = mapToProductBase(item.product);
+  // Show the product as it was bought, stock and ratings stay live
+  const productBase = mapToProductBase({
+    ...item.product,
+    slug: item.product_slug,
+    name: item.product_name,
+    image_urls: item.product_image_url ? [item.product_image_url] : [],
+    price: item.price,
+    material: item.product_material,
+    color_code: item.product_color_code,
+    color_name: item.product_color_name,
+  });
   productBase.in_wishlist = wishlistProductIds.has(item.product_id);
 
   return {
     id: item.id,
     order_id: item.order_id,
     product_id: item.product_id,
+    variant_sku: item.variant_sku,
+    variant_name: item.variant_name,
+    fulfilment_mode: item.fulfilment_mode,
+    estimated_dispatch_at: item.estimated_dispatch_at,
     quantity: item.quantity,
     discount: item.discount,
     price: item.price,
@@ -114,6 +189,8 @@ function mapOrder(
     shipping_fee: number;
     subtotal: number;
     discount: number;
+    coupon_code: string | null;
+    coupon_discount: number;
     total: number;
     status: PrismaOrderStatus;
     request_at: Date | null;
@@ -124,6 +201,9 @@ function mapOrder(
     cancelled_at: Date | null;
     returned_at: Date | null;
     refunded_at: Date | null;
+    estimated_dispatch_at: Date | null;
+    invoice_number: string | null;
+    invoiced_at: Date | null;
     shipping_address: unknown; // Prisma JSON field - cast to ShippingAddress in mapping
     created_at: Date;
     updated_at: Date;
@@ -139,6 +219,16 @@ function mapOrder(
       quantity: number;
       discount: number;
       price: number;
+      product_name: string;
+      product_slug: string;
+      product_image_url: string | null;
+      product_material: string;
+      product_color_name: string;
+      product_color_code: string;
+      variant_sku: string | null;
+      variant_name: string | null;
+      fulfilment_mode: FulfilmentMode;
+      estimated_dispatch_at: Date | null;
       created_at: Date;
       updated_at: Date;
       product: {
@@ -155,6 +245,30 @@ function mapOrder(
         reviews?: { rating: number }[];
       };
     }[];
+    history: {
+      id: number;
+      previous_status: PrismaOrderStatus | null;
+      status: PrismaOrderStatus;
+      actor_type: PrismaOrderStatusActor;
+      note: string | null;
+      created_at: Date;
+    }[];
+    shipments: {
+      id: number;
+      carrier: string;
+      tracking_number: string;
+      tracking_url: string | null;
+      shipped_at: Date;
+      delivered_at: Date | null;
+      items: { order_item_id: number; quantity: number }[];
+      events: {
+        id: number;
+        status: ShipmentTrackingStatus;
+        description: string | null;
+        location: string | null;
+        occurred_at: Date;
+      }[];
+    }[];
   },
   reviewedProductIds: Set<number>,
   wishlistProductIds: Set<number>,
@@ -170,6 +284,8 @@ function mapOrder(
     shipping_fee: order.shipping_fee,
     subtotal: order.subtotal,
     discount: order.discount,
+    coupon_code: order.coupon_code,
+    coupon_discount: order.coupon_discount,
     total: order.total,
     status: order.status as OrderStatus,
     request_at: order.request_at,
@@ -180,12 +296,42 @@ function mapOrder(
     cancelled_at: order.cancelled_at,
     returned_at: order.returned_at,
     refunded_at: order.refunded_at,
+    estimated_dispatch_at: order.estimated_dispatch_at,
+    invoice_number: order.invoice_number,
+    invoiced_at: order.invoiced_at,
     shipping_address: order.shipping_address as ShippingAddress,
     created_at: order.created_at,
     updated_at: order.updated_at,
     ordered_products: order.ordered_products.map((item) =>
       mapOrderItem(item, reviewedProductIds, wishlistProductIds),
     ),
+    history: order.history.map((event) => ({
+      id: event.id,
+      previous_status: event.previous_status as OrderStatus | null,
+      status: event.status as OrderStatus,
+      actor_type: event.actor_type as OrderStatusActor,
+      note: event.note,
+      created_at: event.created_at,
+    })),
+    shipments: order.shipments.map((shipment) => ({
+      id: shipment.id,
+      carrier: shipment.carrier,
+      tracking_number: shipment.tracking_number,
+      tracking_url: shipment.tracking_url,
+      shipped_at: shipment.shipped_at,
+      delivered_at: shipment.delivered_at,
+      items: shipment.items.map((item) => ({
+        order_item_id: item.order_item_id,
+        quantity: item.quantity,
+      })),
+      events: shipment.events.map((event) => ({
+        id: event.id,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurred_at: event.occurred_at,
+      })),
+    })),
   };
 }
 
@@ -208,17 +354,16 @@ export class OrdersResolver {
         user_id: number;
         ordered_products?: {
           some: {
-            product: { name: { contains: string; mode: "insensitive" } };
+            product_name: { contains: string; mode: "insensitive" };
           };
         };
       } = { user_id: userId };
 
       if (search) {
+        // Matches the name the customer bought, not the current one
         where.ordered_products = {
           some: {
-            product: {
-              name: { contains: search, mode: "insensitive" },
-            },
+            product_name: { contains: search, mode: "insensitive" },
           },
         };
       }
@@ -230,6 +375,14 @@ export class OrdersResolver {
             user: {
               select: { id: true, email: true, name: true },
             },
+            history: { orderBy: { created_at: "asc" } },
+            shipments: {
+              orderBy: { shipped_at: "asc" },
+              include: {
+                items: true,
+                events: { orderBy: { occurred_at: "asc" } },
+              },
+            },
             ordered_products: {
               include: {
                 product: {
@@ -304,6 +457,14 @@ export class OrdersResolver {
             user: {
               select: { id: true, email: true, name: true },
             },
+            history: { orderBy: { created_at: "asc" } },
+            shipments: {
+              orderBy: { shipped_at: "asc" },
+              include: {
+                items: true,
+                events: { orderBy: { occurred_at: "asc" } },
+              },
+            },
             ordered_products: {
               include: {
                 product: {
@@ -353,20 +514,165 @@ export class OrdersResolver {
     });
   }
 
-  @Mutation(() => OrderMutationResponse)
+  // Public lookup for guest buyers with the token returned at checkout
+  @Query(() => Order, { nullable: true })
+  async guestOrder(
+    @Ctx() ctx: Context,
+    @Arg("token", () => String) token: string,
+  ): Promise<Order | null> {
+    return tryCatchAsync(async () => {
+      const order = await ctx.prisma.productOrder.findUnique({
+        where: { guest_token_hash: hashGuestOrderToken(token.trim()) },
+        include: {
+          user: {
+            select: { id: true, email: true, name: true },
+          },
+          history: { orderBy: { created_at: "asc" } },
+          shipments: {
+            orderBy: { shipped_at: "asc" },
+            include: {
+              items: true,
+              events: { orderBy: { occurred_at: "asc" } },
+            },
+          },
+          ordered_products: {
+            include: {
+              product: {
+                include: { reviews: { select: { rating: true } } },
+              },
+            },
+          },
+        },
+      });
+
+      if (!order) {
+        return null;
+      }
+
+      return mapOrder(order, new Set<number>(), new Set<number>());
+    });
+  }
+
+  @Query(() => ShippingQuote, { nullable: true })
   @authRequired()
+  async shippingQuote(
+    @Ctx() ctx: Context,
+    @Arg("addressId", () => Int) addressId: number,
+  ): Promise<ShippingQuote | null> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const [address, cartItems, shippingRates] = await Promise.all([
+        ctx.prisma.userAddress.findFirst({
+          where: { id: addressId, user_id: userId },
+          select: { id: true, state: true, zip: true },
+        }),
+        ctx.prisma.cart.findMany({
+          where: { user_id: userId, saved_for_later: false },
+          select: {
+            quantity: true,
+            product: { select: { price: true, weight_grams: true } },
+            variant: { select: { price: true } },
+          },
+        }),
+        getShippingRates(ctx.prisma),
+      ]);
+
+      if (!address) {
+        return null;
+      }
+
+      const subtotal = cartItems.reduce(
+        (sum, item) =>
+          sum + getVariantPrice(item.product, item.variant) * item.quantity,
+        0,
+      );
+
+      const shipping = calculateShipping(
+        shippingRates,
+        address,
+        cartItems.map((item) => ({
+          quantity: item.quantity,
+          weight_grams: item.product.weight_grams,
+        })),
+        subtotal,
+      );
+
+      const amountToFreeShipping =
+        shipping.free_shipping_threshold !== null &&
+        !shipping.free_shipping_applied
+          ? Math.max(0, shipping.free_shipping_threshold - subtotal)
+          : null;
+
+      return {
+        address_id: address.id,
+        zone: shipping.zone,
+        subtotal,
+        shipping_fee: shipping.fee,
+        free_shipping_applied: shipping.free_shipping_applied,
+        free_shipping_threshold: shipping.free_shipping_threshold,
+        amount_to_free_shipping: amountToFreeShipping,
+      };
+    });
+  }
+
+  // Signed-in users check out their cart, guests their guest cart
+  @Mutation(() => OrderMutationResponse)
+  @idempotent("createOrder")
   async createOrder(
     @Ctx() ctx: Context,
     @Arg("input", () => CreateOrderInput) input: CreateOrderInput,
   ): Promise<OrderMutationResponse> {
     return tryCatchAsync(async () => {
-      const userId = getUserId(ctx);
+      let userId: number;
+      let guestCartId: string | null = null;
+
+      if (ctx.user) {
+        userId = getUserId(ctx);
+      } else {
+        if (!input.guest || !ctx.guestCartId) {
+          return {
+            success: false,
+            order: null,
+            error: "Sign in or enter your contact details to check out",
+          };
+        }
+
+        const guestError = validateGuestBuyer(input.guest);
+        if (guestError) {
+          return { success: false, order: null, error: guestError };
+        }
+
+        // The guest identity is kept even if the checkout fails below
+        try {
+          userId = await getGuestBuyerId(ctx.prisma, input.guest);
+        } catch (error) {
+          if (error instanceof GuestCheckoutError) {
+            return { success: false, order: null, error: error.message };
+          }
+          throw error;
+        }
+        guestCartId = ctx.guestCartId;
+      }
 
       // Get cart items
-      const cartItems = await ctx.prisma.cart.findMany({
-        where: { user_id: userId },
-        include: { product: true },
-      });
+      const [cartItems, cartCoupon] = await Promise.all([
+        guestCartId
+          ? ctx.prisma.guestCartItem.findMany({
+              where: { guest_cart_id: guestCartId },
+              select: CHECKOUT_CART_SELECT,
+            })
+          : ctx.prisma.cart.findMany({
+              where: { user_id: userId, saved_for_later: false },
+              select: CHECKOUT_CART_SELECT,
+            }),
+        guestCartId
+          ? null
+          : ctx.prisma.cartCoupon.findUnique({
+              where: { user_id: userId },
+              include: { coupon: true },
+            }),
+      ]);
 
       if (cartItems.length === 0) {
         return {
@@ -376,49 +682,206 @@ export class OrdersResolver {
         };
       }
 
-      // Calculate totals
-      const subtotal = cartItems.reduce(
-        (sum, item) => sum + item.product.price * item.quantity,
-        0,
+      // Inactive or archived products can no longer be ordered
+      const inactiveItems = cartItems.filter(
+        (item) =>
+          !item.product.is_active ||
+          item.product.deleted_at !== null ||
+          (item.variant !== null && !item.variant.is_active),
       );
-      const total = subtotal + input.shipping_fee;
+      if (inactiveItems.length > 0) {
+        return {
+          success: false,
+          order: null,
+          error: "Some items in your cart are no longer available",
+          stock_errors: inactiveItems.map((item) => ({
+            product_id: item.product_id,
+            product_name: item.product.name,
+            requested_quantity: item.quantity,
+            available_quantity: 0,
+          })),
+        };
+      }
 
-      // Create order and clear cart in transaction
-      const [order] = await ctx.prisma.$transaction([
-        ctx.prisma.productOrder.create({
-          data: {
-            user_id: userId,
-            shipping_fee: input.shipping_fee,
-            subtotal,
-            total,
-            status: PrismaOrderStatus.PENDING,
-            request_at: new Date(),
-            shipping_address: input.shipping_address,
-            ordered_products: {
-              create: cartItems.map((item) => ({
-                product_id: item.product_id,
-                quantity: item.quantity,
-                price: item.product.price,
-              })),
-            },
-          },
-          include: {
-            user: {
-              select: { id: true, email: true, name: true },
+      // Guests are checked too, their past orders share the guest user
+      const limitError = await checkPurchaseLimits(
+        ctx.prisma,
+        userId,
+        cartItems,
+      );
+      if (limitError) {
+        return { success: false, order: null, error: limitError };
+      }
+
+      const pricing = await priceOrder(ctx.prisma, {
+        user_id: guestCartId ? null : userId,
+        lines: cartItems.map((item) => ({
+          product_id: item.product_id,
+          price: getVariantPrice(item.product, item.variant),
+          quantity: item.quantity,
+          weight_grams: item.product.weight_grams,
+          material: item.product.material,
+          categories: item.product.product_categories.map((pc) => pc.category),
+          gst_rate: item.product.gst_rate,
+        })),
+        coupon: cartCoupon?.coupon ?? null,
+        destination: input.shipping_address,
+      });
+
+      if (pricing.coupon_error) {
+        return {
+          success: false,
+          order: null,
+          error: pricing.coupon_error,
+        };
+      }
+
+      const guestToken = guestCartId ? createGuestOrderToken() : null;
+      const orderedAt = new Date();
+
+      // Reserve stock, redeem coupon, create order and clear cart in one transaction
+      let order;
+      try {
+        order = await ctx.prisma.$transaction(async (tx) => {
+          if (cartCoupon) {
+            await redeemCoupon(
+              tx,
+              cartCoupon.coupon,
+              guestCartId ? null : userId,
+            );
+          }
+
+          const bundleComponents = await getBundleComponents(
+            tx,
+            cartItems.map((item) => item.product_id),
+          );
+
+          const createdOrder = await tx.productOrder.create({
+            data: {
+              user_id: userId,
+              shipping_fee: pricing.shipping_fee,
+              subtotal: pricing.subtotal,
+              total: pricing.total,
+              status: PrismaOrderStatus.PENDING,
+              request_at: orderedAt,
+              stock_reserved: true,
+              estimated_dispatch_at: getOrderDispatchDate(
+                cartItems.map((item) => item.product),
+                orderedAt,
+              ),
+              coupon_id: cartCoupon?.coupon_id,
+              coupon_code: cartCoupon?.coupon.code,
+              coupon_discount: pricing.coupon_discount,
+              shipping_address: input.shipping_address,
+              guest_token_hash: guestToken?.hash,
+              buyer_name: guestCartId ? input.guest?.name.trim() : null,
+              buyer_phone: guestCartId ? input.guest?.phone.trim() : null,
+              ordered_products: {
+                create: cartItems.map((item, index) => ({
+                  product_id: item.product_id,
+                  variant_id: item.variant_id,
+                  quantity: item.quantity,
+                  price: getVariantPrice(item.product, item.variant),
+                  discount: pricing.line_discounts.get(index) ?? 0,
+                  fulfilment_mode: item.product.fulfilment_mode,
+                  estimated_dispatch_at: getDispatchDate(
+                    item.product,
+                    orderedAt,
+                  ),
+                  bundle_components: bundleComponents.get(item.product_id),
+                  ...getProductSnapshot(item.product, item.variant),
+                })),
+              },
+              history: {
+                create: {
+                  status: PrismaOrderStatus.PENDING,
+                  actor_type: PrismaOrderStatusActor.CUSTOMER,
+                  actor_id: userId,
+                },
+              },
             },
-            ordered_products: {
-              include: {
-                product: {
-                  include: { reviews: { select: { rating: true } } },
+            include: {
+              user: {
+                select: { id: true, email: true, name: true },
+              },
+              history: { orderBy: { created_at: "asc" } },
+              shipments: {
+                orderBy: { shipped_at: "asc" },
+                include: {
+                  items: true,
+                  events: { orderBy: { occurred_at: "asc" } },
+                },
+              },
+              ordered_products: {
+                include: {
+                  product: {
+                    include: { reviews: { select: { rating: true } } },
+                  },
                 },
               },
             },
-          },
-        }),
-        ctx.prisma.cart.deleteMany({
-          where: { user_id: userId },
-        }),
-      ]);
+          });
+
+          // Reserved after the order exists so the ledger can point at it
+          await reserveStock(
+            tx,
+            cartItems.map((item) => ({
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              quantity: item.quantity,
+              fulfilment_mode: item.product.fulfilment_mode,
+              bundle_components: bundleComponents.get(item.product_id),
+            })),
+            {
+              type: StockMovementType.SALE,
+              actor_type: PrismaOrderStatusActor.CUSTOMER,
+              actor_id: userId,
+              order_id: createdOrder.id,
+            },
+          );
+
+          if (guestCartId) {
+            await tx.guestCart.deleteMany({
+              where: { id: guestCartId },
+            });
+          } else {
+            // Saved for later lines stay in the cart after checkout
+            await tx.cart.deleteMany({
+              where: { user_id: userId, saved_for_later: false },
+            });
+
+            await tx.cartCoupon.deleteMany({
+              where: { user_id: userId },
+            });
+
+            await markCartsRecovered(tx, userId, createdOrder.id);
+          }
+
+          return createdOrder;
+        });
+      } catch (error) {
+        if (error instanceof InsufficientStockError) {
+          return {
+            success: false,
+            order: null,
+            error: "Some items in your cart do not have enough stock",
+            stock_errors: error.shortages.map((shortage) => ({
+              product_id: shortage.product_id,
+              product_name: shortage.name,
+              requested_quantity: shortage.requested,
+              available_quantity: shortage.available,
+            })),
+          };
+        }
+        if (error instanceof CouponError) {
+          return {
+            success: false,
+            order: null,
+            error: error.message,
+          };
+        }
+        throw error;
+      }
 
       // Get wishlist for the user
       const wishlistItems = await ctx.prisma.wishlist.findMany({
@@ -435,6 +898,171 @@ export class OrdersResolver {
         success: true,
         order: mapOrder(order, reviewedProductIds, wishlistProductIds),
         error: null,
+        guest_token: guestToken?.token ?? null,
+      };
+    });
+  }
+
+  // Add the lines of a past order back to the cart, capped by current stock
+  // and purchase limits
+  @Mutation(() => ReorderResponse)
+  @authRequired()
+  async reorder(
+    @Ctx() ctx: Context,
+    @Arg("orderId", () => String) orderId: string,
+  ): Promise<ReorderResponse> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const order = await ctx.prisma.productOrder.findFirst({
+        where: { id: orderId, user_id: userId },
+        select: {
+          ordered_products: {
+            orderBy: { id: "asc" },
+            select: {
+              id: true,
+              product_id: true,
+              variant_id: true,
+              product_name: true,
+              quantity: true,
+              price: true,
+              product: {
+                select: {
+                  ...FULFILMENT_SELECT,
+                  ...PURCHASE_LIMITS_SELECT,
+                  price: true,
+                  is_active: true,
+                  deleted_at: true,
+                  available_quantity: true,
+                },
+              },
+              variant: {
+                select: {
+                  price: true,
+                  is_active: true,
+                  available_quantity: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!order) {
+        return { success: false, error: "Order not found", items: [] };
+      }
+
+      const items = await ctx.prisma.$transaction(async (tx) => {
+        const cartItems = await tx.cart.findMany({
+          where: {
+            user_id: userId,
+            product_id: {
+              in: order.ordered_products.map((item) => item.product_id),
+            },
+          },
+          select: {
+            product_id: true,
+            variant_id: true,
+            quantity: true,
+            saved_for_later: true,
+          },
+        });
+        const cartQuantities = new Map(
+          cartItems.map((c) => [
+            getLineKey(c.product_id, c.variant_id),
+            c.quantity,
+          ]),
+        );
+        const limiter = await createCartLineLimiter(
+          tx,
+          userId,
+          new Map(
+            order.ordered_products.map((item) => [
+              item.product_id,
+              item.product,
+            ]),
+          ),
+          cartItems,
+        );
+
+        const results: ReorderItemResult[] = [];
+        for (const item of order.ordered_products) {
+          const { product, variant } = item;
+          const price = getVariantPrice(product, variant);
+          const available = getSellableQuantity(product, variant);
+          const isAvailable =
+            product.is_active &&
+            !product.deleted_at &&
+            (!variant || variant.is_active) &&
+            available > 0;
+          // Stock already sitting in the cart counts against what can be added
+          const inCart =
+            cartQuantities.get(getLineKey(item.product_id, item.variant_id)) ??
+            0;
+          const addable = isAvailable
+            ? Math.max(
+                0,
+                Math.min(
+                  available,
+                  limiter.cap(
+                    item.product_id,
+                    item.variant_id,
+                    inCart + item.quantity,
+                  ),
+                ) - inCart,
+              )
+            : 0;
+          const addedQuantity = Math.min(item.quantity, addable);
+
+          if (addedQuantity > 0) {
+            await upsertCartLine(
+              tx,
+              {
+                user_id: userId,
+                product_id: item.product_id,
+                variant_id: item.variant_id,
+              },
+              {
+                quantity: { increment: addedQuantity },
+                saved_for_later: false,
+              },
+              { quantity: addedQuantity, price_when_added: price },
+            );
+            limiter.set(
+              item.product_id,
+              item.variant_id,
+              inCart + addedQuantity,
+            );
+          }
+
+          results.push({
+            order_item_id: item.id,
+            product_id: item.product_id,
+            product_name: item.product_name,
+            status: !isAvailable
+              ? ReorderItemStatus.UNAVAILABLE
+              : addedQuantity < item.quantity
+                ? ReorderItemStatus.QUANTITY_REDUCED
+                : ReorderItemStatus.ADDED,
+            requested_quantity: item.quantity,
+            added_quantity: addedQuantity,
+            previous_price: item.price,
+            current_price: price,
+            price_changed: price !== item.price,
+          });
+        }
+
+        return results;
+      });
+
+      const addedAny = items.some((item) => item.added_quantity > 0);
+
+      return {
+        success: addedAny,
+        error: addedAny
+          ? null
+          : "None of the items from this order are available right now",
+        items,
       };
     });
   }
@@ -444,6 +1072,7 @@ export class OrdersResolver {
   async cancelOrder(
     @Ctx() ctx: Context,
     @Arg("orderId", () => String) orderId: string,
+    @Arg("reason", () => String, { nullable: true }) reason?: string,
   ): Promise<OrderMutationResponse> {
     return tryCatchAsync(async () => {
       const userId = getUserId(ctx);
@@ -473,24 +1102,39 @@ export class OrdersResolver {
       }
 
       const [updatedOrder, wishlistItems] = await Promise.all([
-        ctx.prisma.productOrder.update({
-          where: { id: orderId },
-          data: {
-            status: PrismaOrderStatus.CANCELLED,
-            cancelled_at: new Date(),
-          },
-          include: {
-            user: {
-              select: { id: true, email: true, name: true },
-            },
-            ordered_products: {
-              include: {
-                product: {
-                  include: { reviews: { select: { rating: true } } },
+        ctx.prisma.$transaction(async (tx) => {
+          await transitionOrderStatus(tx, {
+            order_id: orderId,
+            from: existingOrder.status,
+            to: PrismaOrderStatus.CANCELLED,
+            actor_type: PrismaOrderStatusActor.CUSTOMER,
+            actor_id: userId,
+            note: reason,
+          });
+
+          return tx.productOrder.findUniqueOrThrow({
+            where: { id: orderId },
+            include: {
+              user: {
+                select: { id: true, email: true, name: true },
+              },
+              history: { orderBy: { created_at: "asc" } },
+              shipments: {
+                orderBy: { shipped_at: "asc" },
+                include: {
+                  items: true,
+                  events: { orderBy: { occurred_at: "asc" } },
+                },
+              },
+              ordered_products: {
+                include: {
+                  product: {
+                    include: { reviews: { select: { rating: true } } },
+                  },
                 },
               },
             },
-          },
+          });
         }),
         ctx.prisma.wishlist.findMany({
           where: { user_id: userId },
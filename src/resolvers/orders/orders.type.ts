@@ -7,6 +7,11 @@ import {
   registerEnumType,
 } from "type-graphql";
 
+import {
+  FulfilmentMode,
+  ShipmentTrackingStatus,
+} from "@/prisma/generated/enums";
+
 import { ProductBase } from "../products/products.type";
 
 // Register OrderStatus enum for GraphQL
@@ -26,6 +31,34 @@ registerEnumType(OrderStatus, {
   description: "The status of an order",
 });
 
+export enum OrderStatusActor {
+  CUSTOMER = "CUSTOMER",
+  ADMIN = "ADMIN",
+  SYSTEM = "SYSTEM",
+}
+
+registerEnumType(OrderStatusActor, {
+  name: "OrderStatusActor",
+  description: "Who changed the status of an order",
+});
+
+export enum ReorderItemStatus {
+  ADDED = "ADDED",
+  QUANTITY_REDUCED = "QUANTITY_REDUCED",
+  UNAVAILABLE = "UNAVAILABLE",
+}
+
+registerEnumType(ReorderItemStatus, {
+  name: "ReorderItemStatus",
+  description:
+    "What happened to an order line when it was added back to the cart",
+});
+
+registerEnumType(ShipmentTrackingStatus, {
+  name: "ShipmentTrackingStatus",
+  description: "Where a shipment is according to its carrier",
+});
+
 @ObjectType()
 export class ShippingAddress {
   @Field(() => String)
@@ -61,6 +94,21 @@ export class OrderItem {
   @Field(() => Int)
   product_id!: number;
 
+  @Field(() => String, { nullable: true })
+  variant_sku?: string | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Option values as bought, e.g. Celadon / Large",
+  })
+  variant_name?: string | null;
+
+  @Field(() => FulfilmentMode)
+  fulfilment_mode!: FulfilmentMode;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  estimated_dispatch_at?: Date | null;
+
   @Field(() => Int)
   quantity!: number;
 
@@ -83,6 +131,83 @@ export class OrderItem {
   has_reviewed!: boolean;
 }
 
+@ObjectType()
+export class OrderStatusEvent {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => OrderStatus, { nullable: true })
+  previous_status?: OrderStatus | null;
+
+  @Field(() => OrderStatus)
+  status!: OrderStatus;
+
+  @Field(() => OrderStatusActor)
+  actor_type!: OrderStatusActor;
+
+  @Field(() => String, { nullable: true })
+  note?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+}
+
+@ObjectType()
+export class ShipmentTrackingEvent {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => ShipmentTrackingStatus)
+  status!: ShipmentTrackingStatus;
+
+  @Field(() => String, { nullable: true })
+  description?: string | null;
+
+  @Field(() => String, { nullable: true })
+  location?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  occurred_at!: Date;
+}
+
+@ObjectType()
+export class ShipmentItem {
+  @Field(() => Int)
+  order_item_id!: number;
+
+  @Field(() => Int)
+  quantity!: number;
+}
+
+@ObjectType()
+export class Shipment {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  carrier!: string;
+
+  @Field(() => String)
+  tracking_number!: string;
+
+  @Field(() => String, { nullable: true })
+  tracking_url?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  shipped_at!: Date;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  delivered_at?: Date | null;
+
+  @Field(() => [ShipmentItem], {
+    description: "Empty when the shipment holds the whole order",
+  })
+  items!: ShipmentItem[];
+
+  @Field(() => [ShipmentTrackingEvent])
+  events!: ShipmentTrackingEvent[];
+}
+
 @ObjectType()
 export class OrderUser {
   @Field(() => Int)
@@ -115,6 +240,12 @@ export class Order {
   @Field(() => Int)
   discount!: number;
 
+  @Field(() => String, { nullable: true })
+  coupon_code?: string | null;
+
+  @Field(() => Int)
+  coupon_discount!: number;
+
   @Field(() => Int)
   total!: number;
 
@@ -145,6 +276,22 @@ export class Order {
   @Field(() => GraphQLDateTime, { nullable: true })
   refunded_at?: Date | null;
 
+  @Field(() => GraphQLDateTime, {
+    nullable: true,
+    description:
+      "Expected dispatch of the made-to-order and pre-order items, null when everything ships from stock",
+  })
+  estimated_dispatch_at?: Date | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Set once the order is paid, download at /orders/:id/invoice",
+  })
+  invoice_number?: string | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  invoiced_at?: Date | null;
+
   @Field(() => GraphQLJSON)
   shipping_address!: ShippingAddress;
 
@@ -156,6 +303,12 @@ export class Order {
 
   @Field(() => [OrderItem])
   ordered_products!: OrderItem[];
+
+  @Field(() => [OrderStatusEvent])
+  history!: OrderStatusEvent[];
+
+  @Field(() => [Shipment])
+  shipments!: Shipment[];
 }
 
 @InputType()
@@ -209,13 +362,79 @@ export class ShippingAddressInput {
   contact_number?: string;
 }
 
+@InputType()
+export class GuestCheckoutInput {
+  @Field(() => String)
+  email!: string;
+
+  @Field(() => String)
+  phone!: string;
+
+  @Field(() => String)
+  name!: string;
+}
+
 @InputType()
 export class CreateOrderInput {
-  @Field(() => Int)
-  shipping_fee!: number;
+  @Field(() => Int, {
+    nullable: true,
+    deprecationReason: "Shipping fee is calculated by the server",
+  })
+  shipping_fee?: number;
 
   @Field(() => ShippingAddressInput)
   shipping_address!: ShippingAddressInput;
+
+  @Field(() => GuestCheckoutInput, {
+    nullable: true,
+    description: "Contact details when checking out without an account",
+  })
+  guest?: GuestCheckoutInput;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Retries with the same key return the original result",
+  })
+  idempotency_key?: string;
+}
+
+@ObjectType()
+export class ShippingQuote {
+  @Field(() => Int)
+  address_id!: number;
+
+  @Field(() => String)
+  zone!: string;
+
+  @Field(() => Int)
+  subtotal!: number;
+
+  @Field(() => Int)
+  shipping_fee!: number;
+
+  @Field(() => Boolean)
+  free_shipping_applied!: boolean;
+
+  @Field(() => Int, { nullable: true })
+  free_shipping_threshold?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  amount_to_free_shipping?: number | null;
+}
+
+@ObjectType()
+export class OrderStockError {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => Int)
+  requested_quantity!: number;
+
+  @Field(() => Int)
+  available_quantity!: number;
 }
 
 @ObjectType()
@@ -228,4 +447,55 @@ export class OrderMutationResponse {
 
   @Field(() => String, { nullable: true })
   error?: string | null;
+
+  @Field(() => [OrderStockError], { nullable: true })
+  stock_errors?: OrderStockError[] | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Guest orders only, pass it to guestOrder to follow the order",
+  })
+  guest_token?: string | null;
+}
+
+@ObjectType()
+export class ReorderItemResult {
+  @Field(() => Int)
+  order_item_id!: number;
+
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => ReorderItemStatus)
+  status!: ReorderItemStatus;
+
+  @Field(() => Int)
+  requested_quantity!: number;
+
+  @Field(() => Int)
+  added_quantity!: number;
+
+  @Field(() => Int, { description: "Unit price paid in the original order" })
+  previous_price!: number;
+
+  @Field(() => Int)
+  current_price!: number;
+
+  @Field(() => Boolean)
+  price_changed!: boolean;
+}
+
+@ObjectType()
+export class ReorderResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+
+  @Field(() => [ReorderItemResult])
+  items!: ReorderItemResult[];
 }
@@ -0,0 +1,188 @@
+import { GraphQLError } from "graphql";
+import { Arg, Ctx, Mutation, Resolver } from "type-graphql";
+
+import { PAYMENT_CURRENCY } from "@/consts/env";
+import { hashGuestOrderToken } from "@/lib/guest-checkout";
+import {
+  PAYABLE_ORDER_STATUSES,
+  PAYABLE_REGISTRATION_STATUSES,
+  getActivePaymentProvider,
+} from "@/lib/payments";
+import { idempotent } from "@/middlewares/idempotency.middleware";
+import { PaymentStatus } from "@/prisma/generated/client";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import {
+  CreatePaymentIntentInput,
+  PaymentMutationResponse,
+} from "./payments.type";
+
+function getUserId(ctx: Context): number {
+  const userId = ctx.user?.dbUserId;
+  if (!userId) {
+    throw new GraphQLError("User ID not found in context");
+  }
+  return userId;
+}
+
+@Resolver()
+export class PaymentsResolver {
+  // Signed-in customers pay for their own orders and registrations, guests
+  // pay for an order with the token they got at checkout
+  @Mutation(() => PaymentMutationResponse)
+  @idempotent("createPaymentIntent")
+  async createPaymentIntent(
+    @Ctx() ctx: Context,
+    @Arg("input", () => CreatePaymentIntentInput)
+    input: CreatePaymentIntentInput,
+  ): Promise<PaymentMutationResponse> {
+    return tryCatchAsync(async () => {
+      const guestToken = input.guest_token?.trim();
+      if (!ctx.user && !(guestToken && input.order_id)) {
+        throw new GraphQLError("User is not authenticated");
+      }
+
+      if (Boolean(input.order_id) === Boolean(input.registration_id)) {
+        return {
+          success: false,
+          payment_intent: null,
+          error: "Provide either an order or a registration to pay for",
+        };
+      }
+
+      let amount: number;
+      let description: string;
+      let customerEmail: string;
+
+      if (input.order_id) {
+        const order = await ctx.prisma.productOrder.findFirst({
+          where: guestToken
+            ? {
+                id: input.order_id,
+                guest_token_hash: hashGuestOrderToken(guestToken),
+              }
+            : { id: input.order_id, user_id: getUserId(ctx) },
+          select: {
+            id: true,
+            total: true,
+            status: true,
+            user: { select: { email: true } },
+          },
+        });
+
+        if (!order) {
+          return {
+            success: false,
+            payment_intent: null,
+            error: "Order not found",
+          };
+        }
+
+        if (!PAYABLE_ORDER_STATUSES.includes(order.status)) {
+          return {
+            success: false,
+            payment_intent: null,
+            error: "This order cannot be paid for",
+          };
+        }
+
+        amount = order.total;
+        description = `Order ${order.id}`;
+        customerEmail = order.user.email;
+      } else {
+        const registration = await ctx.prisma.eventRegistration.findFirst({
+          where: { id: input.registration_id, user_id: getUserId(ctx) },
+          select: {
+            id: true,
+            price: true,
+            discount: true,
+            status: true,
+            event: { select: { title: true } },
+            user: { select: { email: true } },
+          },
+        });
+
+        if (!registration) {
+          return {
+            success: false,
+            payment_intent: null,
+            error: "Registration not found",
+          };
+        }
+
+        if (!PAYABLE_REGISTRATION_STATUSES.includes(registration.status)) {
+          return {
+            success: false,
+            payment_intent: null,
+            error: "This registration cannot be paid for",
+          };
+        }
+
+        amount = registration.price - registration.discount;
+        description = `Registration for ${registration.event.title}`;
+        customerEmail = registration.user.email;
+      }
+
+      if (amount <= 0) {
+        return {
+          success: false,
+          payment_intent: null,
+          error: "Nothing to pay",
+        };
+      }
+
+      const provider = getActivePaymentProvider();
+
+      const payment = await ctx.prisma.payment.create({
+        data: {
+          provider: provider.name,
+          amount,
+          currency: PAYMENT_CURRENCY,
+          order_id: input.order_id,
+          registration_id: input.registration_id,
+        },
+      });
+
+      let intent;
+      try {
+        intent = await provider.createPaymentIntent({
+          payment_id: payment.id,
+          amount,
+          currency: payment.currency,
+          description,
+          customer_email: customerEmail,
+        });
+      } catch (error) {
+        await ctx.prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: PaymentStatus.FAILED,
+            failure_reason:
+              error instanceof Error ? error.message : "Provider error",
+          },
+        });
+        throw error;
+      }
+
+      await ctx.prisma.payment.update({
+        where: { id: payment.id },
+        data: { provider_payment_id: intent.provider_payment_id },
+      });
+
+      return {
+        success: true,
+        payment_intent: {
+          payment_id: payment.id,
+          provider: provider.name,
+          amount,
+          currency: payment.currency,
+          status: payment.status,
+          client_secret: intent.client_secret,
+          checkout_url: intent.checkout_url,
+        },
+        error: null,
+      };
+    });
+  }
+}
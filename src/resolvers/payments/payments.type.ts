@@ -0,0 +1,71 @@
+import {
+  Field,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
+
+import { PaymentStatus } from "@/prisma/generated/enums";
+
+registerEnumType(PaymentStatus, {
+  name: "PaymentStatus",
+  description: "State of a payment with the payment provider",
+});
+
+@InputType()
+export class CreatePaymentIntentInput {
+  @Field(() => String, { nullable: true })
+  order_id?: string;
+
+  @Field(() => String, { nullable: true })
+  registration_id?: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Token of a guest order, lets a guest pay without signing in",
+  })
+  guest_token?: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Retries with the same key return the original result",
+  })
+  idempotency_key?: string;
+}
+
+@ObjectType()
+export class PaymentIntent {
+  @Field(() => String)
+  payment_id!: string;
+
+  @Field(() => String)
+  provider!: string;
+
+  @Field(() => Int)
+  amount!: number;
+
+  @Field(() => String)
+  currency!: string;
+
+  @Field(() => PaymentStatus)
+  status!: PaymentStatus;
+
+  @Field(() => String, { nullable: true })
+  client_secret?: string | null;
+
+  @Field(() => String, { nullable: true })
+  checkout_url?: string | null;
+}
+
+@ObjectType()
+export class PaymentMutationResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => PaymentIntent, { nullable: true })
+  payment_intent?: PaymentIntent | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+}
@@ -1,11 +1,19 @@
 import { Arg, Ctx, Int, Query, Resolver } from "type-graphql";
 
+import { BUNDLE_ITEMS_INCLUDE } from "@/lib/bundles";
+import {
+  SELLABLE_PRODUCT_WHERE,
+  getDispatchDate,
+  getPreorderRemaining,
+} from "@/lib/fulfilment";
 import { prisma } from "@/lib/prisma";
+import { VARIANT_SELECT, mapVariant } from "@/lib/variants";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
 
 import {
   BestSellersResponse,
+  BundleComponent,
   PriceHistogramBucket,
   ProductBase,
   ProductDetail,
@@ -76,6 +84,26 @@ function mapToProductBase(
   };
 }
 
+function mapBundleComponent(item: {
+  quantity: number;
+  component: {
+    id: number;
+    slug: string;
+    name: string;
+    image_urls: string[];
+    price: number;
+  };
+}): BundleComponent {
+  return {
+    product_id: item.component.id,
+    slug: item.component.slug,
+    name: item.component.name,
+    image_url: item.component.image_urls[0] ?? null,
+    price: item.component.price,
+    quantity: item.quantity,
+  };
+}
+
 @Resolver()
 export class ProductsResolver {
   @Query(() => ProductsResponse)
@@ -107,6 +135,7 @@ export class ProductsResolver {
 
       const where = {
         is_active: true,
+        deleted_at: null,
         ...(filter.search && {
           OR: [
             { name: { contains: filter.search, mode: "insensitive" as const } },
@@ -116,8 +145,22 @@ export class ProductsResolver {
                 mode: "insensitive" as const,
               },
             },
+            // Bundles are found by the products they contain
+            {
+              bundle_items: {
+                some: {
+                  component: {
+                    name: {
+                      contains: filter.search,
+                      mode: "insensitive" as const,
+                    },
+                  },
+                },
+              },
+            },
           ],
         }),
+        ...(filter.product_type && { product_type: filter.product_type }),
         ...priceFilter,
         ...(filter.categories?.length && {
           product_categories: {
@@ -243,6 +286,7 @@ export class ProductsResolver {
       // Build where clause for price stats (respects other filters but not price filter)
       const priceStatsWhere = {
         is_active: true,
+        deleted_at: null,
         ...(filter.search && {
           OR: [
             { name: { contains: filter.search, mode: "insensitive" as const } },
@@ -252,8 +296,22 @@ export class ProductsResolver {
                 mode: "insensitive" as const,
               },
             },
+            // Bundles are found by the products they contain
+            {
+              bundle_items: {
+                some: {
+                  component: {
+                    name: {
+                      contains: filter.search,
+                      mode: "insensitive" as const,
+                    },
+                  },
+                },
+              },
+            },
           ],
         }),
+        ...(filter.product_type && { product_type: filter.product_type }),
         ...(filter.categories?.length && {
           product_categories: {
             some: { category: { in: filter.categories } },
@@ -267,12 +325,12 @@ export class ProductsResolver {
       const [categoriesResult, materialsResult, priceStats] = await Promise.all(
         [
           prisma.productCategory.findMany({
-            where: { product: { is_active: true } },
+            where: { product: { is_active: true, deleted_at: null } },
             distinct: ["category"],
             select: { category: true },
           }),
           prisma.product.findMany({
-            where: { is_active: true },
+            where: { is_active: true, deleted_at: null },
             distinct: ["material"],
             select: { material: true },
           }),
@@ -334,6 +392,7 @@ export class ProductsResolver {
           min_price: filter.min_price ?? meta.price_range.min,
           max_price: filter.max_price ?? meta.price_range.max,
           order_by: filter.order_by,
+          product_type: filter.product_type,
         },
         total_products: totalProducts,
         total_pages: totalPages,
@@ -351,7 +410,7 @@ export class ProductsResolver {
       const userId = ctx.user?.dbUserId ?? null;
 
       const product = await prisma.product.findUnique({
-        where: { slug },
+        where: { slug, deleted_at: null },
         include: {
           product_categories: { select: { category: true } },
           reviews: {
@@ -362,6 +421,12 @@ export class ProductsResolver {
             orderBy: { created_at: "desc" },
           },
           wishlists: userId ? { where: { user_id: userId } } : false,
+          variants: {
+            where: { is_active: true },
+            select: VARIANT_SELECT,
+            orderBy: { position: "asc" },
+          },
+          bundle_items: BUNDLE_ITEMS_INCLUDE,
         },
       });
 
@@ -403,6 +468,16 @@ export class ProductsResolver {
         description: product.description,
         instructions: product.instructions,
         is_active: product.is_active,
+        max_per_order: product.max_per_order,
+        max_per_customer: product.max_per_customer,
+        quantity_step: product.quantity_step,
+        product_type: product.product_type,
+        bundle_discount: product.bundle_discount,
+        bundle_items: product.bundle_items.map(mapBundleComponent),
+        fulfilment_mode: product.fulfilment_mode,
+        lead_time_days: product.lead_time_days,
+        preorder_remaining: getPreorderRemaining(product),
+        estimated_dispatch_at: getDispatchDate(product),
         created_at: product.created_at,
         updated_at: product.updated_at,
         categories: product.product_categories.map((c) => c.category),
@@ -411,6 +486,7 @@ export class ProductsResolver {
         in_wishlist:
           Array.isArray(product.wishlists) && product.wishlists.length > 0,
         reviews: mappedReviews,
+        variants: product.variants.map((v) => mapVariant(product, v)),
       };
     });
   }
@@ -424,7 +500,7 @@ export class ProductsResolver {
       const userId = ctx.user?.dbUserId ?? null;
 
       const product = await prisma.product.findUnique({
-        where: { id },
+        where: { id, deleted_at: null },
         include: {
           product_categories: { select: { category: true } },
           reviews: {
@@ -435,6 +511,12 @@ export class ProductsResolver {
             orderBy: { created_at: "desc" },
           },
           wishlists: userId ? { where: { user_id: userId } } : false,
+          variants: {
+            where: { is_active: true },
+            select: VARIANT_SELECT,
+            orderBy: { position: "asc" },
+          },
+          bundle_items: BUNDLE_ITEMS_INCLUDE,
         },
       });
 
@@ -476,6 +558,16 @@ export class ProductsResolver {
         description: product.description,
         instructions: product.instructions,
         is_active: product.is_active,
+        max_per_order: product.max_per_order,
+        max_per_customer: product.max_per_customer,
+        quantity_step: product.quantity_step,
+        product_type: product.product_type,
+        bundle_discount: product.bundle_discount,
+        bundle_items: product.bundle_items.map(mapBundleComponent),
+        fulfilment_mode: product.fulfilment_mode,
+        lead_time_days: product.lead_time_days,
+        preorder_remaining: getPreorderRemaining(product),
+        estimated_dispatch_at: getDispatchDate(product),
         created_at: product.created_at,
         updated_at: product.updated_at,
         categories: product.product_categories.map((c) => c.category),
@@ -484,6 +576,7 @@ export class ProductsResolver {
         in_wishlist:
           Array.isArray(product.wishlists) && product.wishlists.length > 0,
         reviews: mappedReviews,
+        variants: product.variants.map((v) => mapVariant(product, v)),
       };
     });
   }
@@ -509,7 +602,8 @@ export class ProductsResolver {
 
       const where = {
         is_active: true,
-        available_quantity: { gt: 0 },
+        deleted_at: null,
+        ...SELLABLE_PRODUCT_WHERE,
       };
 
       const [products, total] = await Promise.all([
@@ -613,7 +707,8 @@ export class ProductsResolver {
       // Build where clause based on whether we have category preferences
       const baseWhere = {
         is_active: true,
-        available_quantity: { gt: 0 },
+        deleted_at: null,
+        ...SELLABLE_PRODUCT_WHERE,
         ...(excludeIds.length > 0 && { id: { notIn: excludeIds } }),
       };
 
@@ -651,7 +746,8 @@ export class ProductsResolver {
         const additionalProducts = await prisma.product.findMany({
           where: {
             is_active: true,
-            available_quantity: { gt: 0 },
+            deleted_at: null,
+            ...SELLABLE_PRODUCT_WHERE,
             id: { notIn: [...excludeIds, ...existingIds] },
           },
           include: {
@@ -683,6 +779,7 @@ export class ProductsResolver {
     return tryCatchAsync(async () => {
       const categoryCounts = await prisma.productCategory.groupBy({
         by: ["category"],
+        where: { product: { deleted_at: null } },
         _count: {
           product_id: true,
         },
@@ -701,7 +798,7 @@ export class ProductsResolver {
   async materials(): Promise<string[]> {
     return tryCatchAsync(async () => {
       const materials = await prisma.product.findMany({
-        where: { is_active: true },
+        where: { is_active: true, deleted_at: null },
         distinct: ["material"],
         select: { material: true },
       });
@@ -1,12 +1,26 @@
 import { GraphQLDateTime } from "graphql-scalars";
 import {
   Field,
+  Float,
   InputType,
   Int,
   ObjectType,
   registerEnumType,
 } from "type-graphql";
 
+import { FulfilmentMode, ProductType } from "@/prisma/generated/enums";
+
+registerEnumType(FulfilmentMode, {
+  name: "FulfilmentMode",
+  description:
+    "Whether a product ships from stock, is made to order or pre-ordered",
+});
+
+registerEnumType(ProductType, {
+  name: "ProductType",
+  description: "A single product or a bundle of other products",
+});
+
 export enum ProductOrderBy {
   FEATURED = "featured",
   NEW = "new",
@@ -64,6 +78,45 @@ export class ProductBase {
   in_wishlist!: boolean;
 }
 
+@ObjectType()
+export class VariantOption {
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => String)
+  value!: string;
+}
+
+@ObjectType()
+export class ProductVariant {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => String)
+  sku!: string;
+
+  @Field(() => String, { description: "Option values, e.g. Celadon / Large" })
+  name!: string;
+
+  @Field(() => [VariantOption])
+  options!: VariantOption[];
+
+  @Field(() => Int, { description: "Variant price, or the product price" })
+  price!: number;
+
+  @Field(() => Int)
+  available_quantity!: number;
+
+  @Field(() => [String], { description: "Empty when the product images apply" })
+  image_urls!: string[];
+
+  @Field(() => String, { nullable: true })
+  color_code?: string | null;
+
+  @Field(() => String, { nullable: true })
+  color_name?: string | null;
+}
+
 @ObjectType()
 export class ReviewUser {
   @Field(() => Int)
@@ -112,6 +165,27 @@ export class ProductReview {
   likes!: ReviewLike[];
 }
 
+@ObjectType()
+export class BundleComponent {
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  slug!: string;
+
+  @Field(() => String)
+  name!: string;
+
+  @Field(() => String, { nullable: true })
+  image_url?: string | null;
+
+  @Field(() => Int)
+  price!: number;
+
+  @Field(() => Int, { description: "How many of the product the bundle holds" })
+  quantity!: number;
+}
+
 @ObjectType()
 export class ProductDetail {
   @Field(() => Int)
@@ -162,6 +236,54 @@ export class ProductDetail {
   @Field(() => Boolean)
   is_active!: boolean;
 
+  @Field(() => Int, { nullable: true })
+  max_per_order?: number | null;
+
+  @Field(() => Int, { nullable: true })
+  max_per_customer?: number | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Sold in sets, cart quantities must be a multiple of it",
+  })
+  quantity_step?: number | null;
+
+  @Field(() => ProductType)
+  product_type!: ProductType;
+
+  @Field(() => Float, {
+    nullable: true,
+    description: "Percent off the bundled products' combined price",
+  })
+  bundle_discount?: number | null;
+
+  @Field(() => [BundleComponent], {
+    description: "Products in the bundle, empty for single products",
+  })
+  bundle_items!: BundleComponent[];
+
+  @Field(() => FulfilmentMode)
+  fulfilment_mode!: FulfilmentMode;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Days to make a made-to-order product",
+  })
+  lead_time_days?: number | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Pre-order quantity still open, null when not capped",
+  })
+  preorder_remaining?: number | null;
+
+  @Field(() => GraphQLDateTime, {
+    nullable: true,
+    description:
+      "When an order placed now would be dispatched, null for in stock products",
+  })
+  estimated_dispatch_at?: Date | null;
+
   @Field(() => GraphQLDateTime)
   created_at!: Date;
 
@@ -173,6 +295,11 @@ export class ProductDetail {
 
   @Field(() => [ProductReview])
   reviews!: ProductReview[];
+
+  @Field(() => [ProductVariant], {
+    description: "Active variants, empty when the product has none",
+  })
+  variants!: ProductVariant[];
 }
 
 @ObjectType()
@@ -209,6 +336,9 @@ export class ProductsFilterInput {
 
   @Field(() => ProductOrderBy, { nullable: true })
   order_by?: ProductOrderBy;
+
+  @Field(() => ProductType, { nullable: true })
+  product_type?: ProductType;
 }
 
 @ObjectType()
@@ -236,6 +366,9 @@ export class ProductsFilter {
 
   @Field(() => ProductOrderBy, { nullable: true })
   order_by?: ProductOrderBy;
+
+  @Field(() => ProductType, { nullable: true })
+  product_type?: ProductType;
 }
 
 @ObjectType()
@@ -0,0 +1,240 @@
+import { GraphQLError } from "graphql";
+import { Arg, Ctx, Mutation, Query, Resolver } from "type-graphql";
+
+import { getReturnSettings, getReturnableQuantities } from "@/lib/returns";
+import { authRequired } from "@/middlewares/auth.middleware";
+import {
+  OrderStatus,
+  ReturnRequestStatus as PrismaReturnRequestStatus,
+} from "@/prisma/generated/client";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import {
+  RequestReturnInput,
+  ReturnMutationResponse,
+  ReturnRequest,
+} from "./returns.type";
+
+const MAX_RETURN_IMAGES = 5;
+
+const RETURN_REQUEST_INCLUDE = {
+  items: {
+    include: {
+      order_item: {
+        select: { product_id: true, product_name: true },
+      },
+    },
+  },
+  refunds: { orderBy: { created_at: "asc" } },
+} as const;
+
+function getUserId(ctx: Context): number {
+  const userId = ctx.user?.dbUserId;
+  if (!userId) {
+    throw new GraphQLError("User ID not found in context");
+  }
+  return userId;
+}
+
+function mapReturnRequest(request: {
+  id: string;
+  order_id: string;
+  status: PrismaReturnRequestStatus;
+  reason: string;
+  image_urls: string[];
+  admin_note: string | null;
+  approved_at: Date | null;
+  rejected_at: Date | null;
+  received_at: Date | null;
+  refunded_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  items: {
+    id: number;
+    order_item_id: number;
+    quantity: number;
+    order_item: { product_id: number; product_name: string };
+  }[];
+  refunds: {
+    id: number;
+    order_item_id: number | null;
+    quantity: number;
+    amount: number;
+    note: string | null;
+    created_at: Date;
+  }[];
+}): ReturnRequest {
+  return {
+    id: request.id,
+    order_id: request.order_id,
+    status: request.status,
+    reason: request.reason,
+    image_urls: request.image_urls,
+    admin_note: request.admin_note,
+    items: request.items.map((item) => ({
+      id: item.id,
+      order_item_id: item.order_item_id,
+      product_id: item.order_item.product_id,
+      product_name: item.order_item.product_name,
+      quantity: item.quantity,
+    })),
+    refunds: request.refunds.map((refund) => ({
+      id: refund.id,
+      order_item_id: refund.order_item_id,
+      quantity: refund.quantity,
+      amount: refund.amount,
+      note: refund.note,
+      created_at: refund.created_at,
+    })),
+    refund_total: request.refunds.reduce((sum, r) => sum + r.amount, 0),
+    approved_at: request.approved_at,
+    rejected_at: request.rejected_at,
+    received_at: request.received_at,
+    refunded_at: request.refunded_at,
+    created_at: request.created_at,
+    updated_at: request.updated_at,
+  };
+}
+
+@Resolver()
+export class ReturnsResolver {
+  @Query(() => [ReturnRequest])
+  @authRequired()
+  async returnRequests(
+    @Ctx() ctx: Context,
+    @Arg("orderId", () => String, { nullable: true }) orderId?: string,
+  ): Promise<ReturnRequest[]> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const requests = await ctx.prisma.returnRequest.findMany({
+        where: {
+          user_id: userId,
+          ...(orderId && { order_id: orderId }),
+        },
+        include: RETURN_REQUEST_INCLUDE,
+        orderBy: { created_at: "desc" },
+      });
+
+      return requests.map(mapReturnRequest);
+    });
+  }
+
+  @Mutation(() => ReturnMutationResponse)
+  @authRequired()
+  async requestReturn(
+    @Ctx() ctx: Context,
+    @Arg("input", () => RequestReturnInput) input: RequestReturnInput,
+  ): Promise<ReturnMutationResponse> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+      const reason = input.reason.trim();
+      const imageUrls = input.image_urls ?? [];
+
+      if (!reason) {
+        return {
+          success: false,
+          return_request: null,
+          error: "Please tell us why you are returning these items",
+        };
+      }
+
+      if (imageUrls.length > MAX_RETURN_IMAGES) {
+        return {
+          success: false,
+          return_request: null,
+          error: `You can attach up to ${MAX_RETURN_IMAGES} photos`,
+        };
+      }
+
+      if (input.items.length === 0) {
+        return {
+          success: false,
+          return_request: null,
+          error: "Select at least one item to return",
+        };
+      }
+
+      const order = await ctx.prisma.productOrder.findFirst({
+        where: { id: input.order_id, user_id: userId },
+        select: { id: true, status: true, delivered_at: true },
+      });
+
+      if (!order) {
+        return {
+          success: false,
+          return_request: null,
+          error: "Order not found",
+        };
+      }
+
+      if (order.status !== OrderStatus.DELIVERED || !order.delivered_at) {
+        return {
+          success: false,
+          return_request: null,
+          error: "Only delivered orders can be returned",
+        };
+      }
+
+      const { window_days } = await getReturnSettings(ctx.prisma);
+      const deadline = new Date(
+        order.delivered_at.getTime() + window_days * 24 * 60 * 60 * 1000,
+      );
+
+      if (new Date() > deadline) {
+        return {
+          success: false,
+          return_request: null,
+          error: `Returns must be requested within ${window_days} days of delivery`,
+        };
+      }
+
+      const request = await ctx.prisma.$transaction(async (tx) => {
+        const returnable = await getReturnableQuantities(tx, order.id);
+        const seen = new Set<number>();
+
+        for (const item of input.items) {
+          const available = returnable.get(item.order_item_id);
+
+          if (available === undefined || seen.has(item.order_item_id)) {
+            return "Invalid item in return request";
+          }
+          if (item.quantity <= 0 || item.quantity > available) {
+            return available > 0
+              ? `You can return at most ${available} of one of the items`
+              : "One of the items has already been returned";
+          }
+
+          seen.add(item.order_item_id);
+        }
+
+        return tx.returnRequest.create({
+          data: {
+            order_id: order.id,
+            user_id: userId,
+            reason,
+            image_urls: imageUrls,
+            items: {
+              create: input.items.map((item) => ({
+                order_item_id: item.order_item_id,
+                quantity: item.quantity,
+              })),
+            },
+          },
+          include: RETURN_REQUEST_INCLUDE,
+        });
+      });
+
+      if (typeof request === "string") {
+        return { success: false, return_request: null, error: request };
+      }
+
+      return {
+        success: true,
+        return_request: mapReturnRequest(request),
+        error: null,
+      };
+    });
+  }
+}
@@ -0,0 +1,138 @@
+import { GraphQLDateTime } from "graphql-scalars";
+import {
+  Field,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
+
+import { ReturnRequestStatus } from "@/prisma/generated/enums";
+
+registerEnumType(ReturnRequestStatus, {
+  name: "ReturnRequestStatus",
+  description: "The status of a return request",
+});
+
+@ObjectType()
+export class ReturnRequestItem {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => Int)
+  order_item_id!: number;
+
+  @Field(() => Int)
+  product_id!: number;
+
+  @Field(() => String)
+  product_name!: string;
+
+  @Field(() => Int)
+  quantity!: number;
+}
+
+@ObjectType()
+export class Refund {
+  @Field(() => Int)
+  id!: number;
+
+  @Field(() => Int, { nullable: true })
+  order_item_id?: number | null;
+
+  @Field(() => Int)
+  quantity!: number;
+
+  @Field(() => Int)
+  amount!: number;
+
+  @Field(() => String, { nullable: true })
+  note?: string | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+}
+
+@ObjectType()
+export class ReturnRequest {
+  @Field(() => String)
+  id!: string;
+
+  @Field(() => String)
+  order_id!: string;
+
+  @Field(() => ReturnRequestStatus)
+  status!: ReturnRequestStatus;
+
+  @Field(() => String)
+  reason!: string;
+
+  @Field(() => [String])
+  image_urls!: string[];
+
+  @Field(() => String, { nullable: true })
+  admin_note?: string | null;
+
+  @Field(() => [ReturnRequestItem])
+  items!: ReturnRequestItem[];
+
+  @Field(() => [Refund])
+  refunds!: Refund[];
+
+  @Field(() => Int)
+  refund_total!: number;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  approved_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  rejected_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  received_at?: Date | null;
+
+  @Field(() => GraphQLDateTime, { nullable: true })
+  refunded_at?: Date | null;
+
+  @Field(() => GraphQLDateTime)
+  created_at!: Date;
+
+  @Field(() => GraphQLDateTime)
+  updated_at!: Date;
+}
+
+@InputType()
+export class ReturnItemInput {
+  @Field(() => Int)
+  order_item_id!: number;
+
+  @Field(() => Int)
+  quantity!: number;
+}
+
+@InputType()
+export class RequestReturnInput {
+  @Field(() => String)
+  order_id!: string;
+
+  @Field(() => [ReturnItemInput])
+  items!: ReturnItemInput[];
+
+  @Field(() => String)
+  reason!: string;
+
+  @Field(() => [String], { nullable: true, defaultValue: [] })
+  image_urls?: string[];
+}
+
+@ObjectType()
+export class ReturnMutationResponse {
+  @Field(() => Boolean)
+  success!: boolean;
+
+  @Field(() => ReturnRequest, { nullable: true })
+  return_request?: ReturnRequest | null;
+
+  @Field(() => String, { nullable: true })
+  error?: string | null;
+}
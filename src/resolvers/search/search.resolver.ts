@@ -10,7 +10,7 @@ import {
   EventRegistrationStatus,
   EventStatus,
 } from "../events/events.type";
-import { OrderStatus } from "../orders/orders.type";
+import { OrderStatus, OrderStatusActor } from "../orders/orders.type";
 import { GlobalSearchInput, GlobalSearchResponse } from "./search.type";
 
 function mapPrismaEventStatus(status: PrismaEventStatus): EventStatus {
@@ -74,7 +74,20 @@ export class SearchResolver {
         .findMany({
           where: {
             is_active: true,
-            OR: [{ name: { contains: query, mode: "insensitive" } }],
+            deleted_at: null,
+            OR: [
+              { name: { contains: query, mode: "insensitive" } },
+              // Bundles are found by the products they contain
+              {
+                bundle_items: {
+                  some: {
+                    component: {
+                      name: { contains: query, mode: "insensitive" },
+                    },
+                  },
+                },
+              },
+            ],
           },
           include: {
             reviews: { select: { rating: true } },
@@ -114,7 +127,19 @@ export class SearchResolver {
       const productsCountPromise = prisma.product.count({
         where: {
           is_active: true,
-          OR: [{ name: { contains: query, mode: "insensitive" } }],
+          deleted_at: null,
+          OR: [
+            { name: { contains: query, mode: "insensitive" } },
+            {
+              bundle_items: {
+                some: {
+                  component: {
+                    name: { contains: query, mode: "insensitive" },
+                  },
+                },
+              },
+            },
+          ],
         },
       });
 
@@ -192,9 +217,7 @@ export class SearchResolver {
               user_id: userId,
               ordered_products: {
                 some: {
-                  product: {
-                    name: { contains: query, mode: "insensitive" },
-                  },
+                  product_name: { contains: query, mode: "insensitive" },
                 },
               },
             },
@@ -202,6 +225,14 @@ export class SearchResolver {
               user: {
                 select: { id: true, email: true, name: true },
               },
+              history: { orderBy: { created_at: "asc" } },
+              shipments: {
+                orderBy: { shipped_at: "asc" },
+                include: {
+                  items: true,
+                  events: { orderBy: { occurred_at: "asc" } },
+                },
+              },
               ordered_products: {
                 include: {
                   product: {
@@ -227,6 +258,8 @@ export class SearchResolver {
               shipping_fee: order.shipping_fee,
               subtotal: order.subtotal,
               discount: order.discount,
+              coupon_code: order.coupon_code,
+              coupon_discount: order.coupon_discount,
               total: order.total,
               status: mapPrismaOrderStatus(order.status),
               request_at: order.request_at,
@@ -237,6 +270,9 @@ export class SearchResolver {
               cancelled_at: order.cancelled_at,
               returned_at: order.returned_at,
               refunded_at: order.refunded_at,
+              estimated_dispatch_at: order.estimated_dispatch_at,
+              invoice_number: order.invoice_number,
+              invoiced_at: order.invoiced_at,
               shipping_address:
                 order.shipping_address as GlobalSearchResponse["orders"][0]["shipping_address"],
               created_at: order.created_at,
@@ -257,6 +293,8 @@ export class SearchResolver {
                   id: item.id,
                   order_id: item.order_id,
                   product_id: item.product_id,
+                  fulfilment_mode: item.fulfilment_mode,
+                  estimated_dispatch_at: item.estimated_dispatch_at,
                   quantity: item.quantity,
                   discount: item.discount,
                   price: item.price,
@@ -265,21 +303,34 @@ export class SearchResolver {
                   has_reviewed: false,
                   product: {
                     id: item.product.id,
-                    slug: item.product.slug,
-                    name: item.product.name,
-                    image_urls: item.product.image_urls,
-                    price: item.product.price,
-                    material: item.product.material,
+                    slug: item.product_slug,
+                    name: item.product_name,
+                    image_urls: item.product_image_url
+                      ? [item.product_image_url]
+                      : [],
+                    price: item.price,
+                    material: item.product_material,
                     total_quantity: item.product.total_quantity,
                     available_quantity: item.product.available_quantity,
-                    color_code: item.product.color_code,
-                    color_name: item.product.color_name,
+                    color_code: item.product_color_code,
+                    color_name: item.product_color_name,
                     reviews_count: reviewsCount,
                     avg_rating: avgRating,
                     in_wishlist: false,
                   },
                 };
               }),
+              history: order.history.map((event) => ({
+                id: event.id,
+                previous_status: event.previous_status
+                  ? mapPrismaOrderStatus(event.previous_status)
+                  : null,
+                status: mapPrismaOrderStatus(event.status),
+                actor_type: event.actor_type as OrderStatusActor,
+                note: event.note,
+                created_at: event.created_at,
+              })),
+              shipments: order.shipments,
             })),
           );
 
@@ -288,9 +339,7 @@ export class SearchResolver {
             user_id: userId,
             ordered_products: {
               some: {
-                product: {
-                  name: { contains: query, mode: "insensitive" },
-                },
+                product_name: { contains: query, mode: "insensitive" },
               },
             },
           },
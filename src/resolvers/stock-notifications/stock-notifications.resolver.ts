@@ -0,0 +1,116 @@
+import { GraphQLError } from "graphql";
+import { Arg, Ctx, Int, Mutation, Resolver } from "type-graphql";
+
+import { FULFILMENT_SELECT, getSellableQuantity } from "@/lib/fulfilment";
+import { VariantError, resolveVariant } from "@/lib/variants";
+import { authRequired } from "@/middlewares/auth.middleware";
+import { Context } from "@/types/context";
+import { tryCatchAsync } from "@/utils/trycatch";
+
+import { StockNotificationResponse } from "./stock-notifications.type";
+
+function getUserId(ctx: Context): number {
+  const userId = ctx.user?.dbUserId;
+  if (!userId) {
+    throw new GraphQLError("User ID not found in context");
+  }
+  return userId;
+}
+
+@Resolver()
+export class StockNotificationsResolver {
+  // Subscribe to an email when a sold out product or variant is back in stock
+  @Mutation(() => StockNotificationResponse)
+  @authRequired()
+  async notifyWhenAvailable(
+    @Ctx() ctx: Context,
+    @Arg("productId", () => Int) productId: number,
+    @Arg("variantId", () => Int, {
+      nullable: true,
+      description: "Required when the product has variants",
+    })
+    variantId?: number,
+  ): Promise<StockNotificationResponse> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const product = await ctx.prisma.product.findUnique({
+        where: { id: productId, is_active: true, deleted_at: null },
+        select: { ...FULFILMENT_SELECT, available_quantity: true },
+      });
+
+      if (!product) {
+        return { success: false, error: "Product not found" };
+      }
+
+      let variant;
+      try {
+        variant = await resolveVariant(ctx.prisma, productId, variantId);
+      } catch (error) {
+        if (error instanceof VariantError) {
+          return { success: false, error: error.message };
+        }
+        throw error;
+      }
+
+      if (getSellableQuantity(product, variant) > 0) {
+        return { success: false, error: "This item is in stock" };
+      }
+
+      const key = {
+        user_id: userId,
+        product_id: productId,
+        variant_id: variant?.id ?? null,
+      };
+
+      // variant_id is nullable so the compound key cannot be upserted, the
+      // insert is skipped when the user already has the subscription
+      const { count } = await ctx.prisma.stockNotification.createMany({
+        data: [key],
+        skipDuplicates: true,
+      });
+
+      if (count === 0) {
+        // A subscription that was already sent is waiting again
+        await ctx.prisma.stockNotification.updateMany({
+          where: key,
+          data: {
+            queued_at: null,
+            sent_at: null,
+            attempts: 0,
+            last_error: null,
+          },
+        });
+      }
+
+      return { success: true, error: null };
+    });
+  }
+
+  @Mutation(() => StockNotificationResponse)
+  @authRequired()
+  async cancelStockNotification(
+    @Ctx() ctx: Context,
+    @Arg("productId", () => Int) productId: number,
+    @Arg("variantId", () => Int, { nullable: true }) variantId?: number,
+  ): Promise<StockNotificationResponse> {
+    return tryCatchAsync(async () => {
+      const userId = getUserId(ctx);
+
+      const { count } = await ctx.prisma.stockNotification.deleteMany({
+        where: {
+          user_id: userId,
+          product_id: productId,
+          variant_id: variantId ?? null,
+          sent_at: null,
+        },
+      });
+
+      if (count === 0) {
+        return { success: false, error: "Notification not found" };
+      }
+
+      return { success: true, error: null };
+    });
+  }
+}
@@ -44,7 +44,7 @@ export class UserResolver {
         include: {
           _count: {
             select: {
-              carts: true,
+              carts: { where: { saved_for_later: false } },
               wishlists: true,
               event_registrations: true,
               product_orders: {
@@ -13,8 +13,8 @@ export class UserResponse {
   @Field(() => Int)
   id!: number;
 
-  @Field(() => String)
-  auth_id!: string;
+  @Field(() => String, { nullable: true })
+  auth_id?: string | null;
 
   @Field(() => String)
   email!: string;
@@ -1,7 +1,9 @@
 import { GraphQLError } from "graphql";
 import { Arg, Ctx, Int, Mutation, Query, Resolver } from "type-graphql";
 
+import { upsertCartLine } from "@/lib/cart-lines";
 import { prisma } from "@/lib/prisma";
+import { VariantError, getVariantPrice, resolveVariant } from "@/lib/variants";
 import { authRequired } from "@/middlewares/auth.middleware";
 import { Context } from "@/types/context";
 import { tryCatchAsync } from "@/utils/trycatch";
@@ -283,27 +285,43 @@ export class WishlistResolver {
   async moveToCart(
     @Ctx() ctx: Context,
     @Arg("productId", () => Int) productId: number,
+    @Arg("variantId", () => Int, {
+      nullable: true,
+      description: "Required when the product has variants",
+    })
+    variantId?: number,
   ): Promise<boolean> {
     return tryCatchAsync(async () => {
       const userId = getUserId(ctx);
 
+      const product = await prisma.product.findUnique({
+        where: { id: productId, is_active: true, deleted_at: null },
+        select: { price: true },
+      });
+
+      if (!product) {
+        return false;
+      }
+
+      let variant;
+      try {
+        variant = await resolveVariant(prisma, productId, variantId);
+      } catch (error) {
+        if (error instanceof VariantError) return false;
+        throw error;
+      }
+
       await prisma.$transaction(async (tx) => {
-        await tx.cart.upsert({
-          where: {
-            user_id_product_id: {
-              user_id: userId,
-              product_id: productId,
-            },
-          },
-          update: {
-            quantity: { increment: 1 },
-          },
-          create: {
+        await upsertCartLine(
+          tx,
+          {
             user_id: userId,
             product_id: productId,
-            quantity: 1,
+            variant_id: variant?.id ?? null,
           },
-        });
+          { quantity: { increment: 1 }, saved_for_later: false },
+          { quantity: 1, price_when_added: getVariantPrice(product, variant) },
+        );
 
         await tx.wishlist.delete({
           where: {
@@ -7,6 +7,8 @@ import { BaseContext } from "@apollo/server";
 export interface Context extends BaseContext {
   user?: AuthPayload;
   prisma: ExtendedPrismaClient;
+  // Verified id of the visitor's guest cart, only set for signed-out visitors
+  guestCartId?: string;
   request?: Request;
   response?: Response;
 }
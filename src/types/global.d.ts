@@ -34,11 +34,63 @@ declare global {
     // CategoryIconConfig for category_icons setting
     type CategoryIconConfig = Record<string, string>;
 
+    // ShippingRates for shipping_rates setting
+    type ShippingRateBasis = "WEIGHT" | "ITEM_COUNT";
+
+    interface ShippingRateTier {
+      // Inclusive upper bound in grams or items, null for no upper bound
+      up_to: number | null;
+      fee: number;
+    }
+
+    interface ShippingZone {
+      name: string;
+      states: string[];
+      pin_prefixes: string[];
+      tiers: ShippingRateTier[];
+    }
+
+    interface ShippingRates {
+      basis: ShippingRateBasis;
+      free_shipping_threshold: number | null;
+      default_tiers: ShippingRateTier[];
+      zones: ShippingZone[];
+    }
+
+    // ReturnSettings for return_settings setting
+    interface ReturnSettings {
+      // Days after delivery during which a return can be requested
+      window_days: number;
+    }
+
+    // InvoiceSettings for invoice_settings setting
+    interface InvoiceSettings {
+      legal_name: string;
+      gstin: string;
+      // State the business is registered in, decides CGST/SGST vs IGST
+      state: string;
+      // Prefix of invoice numbers, e.g. "PP" gives "PP/2025-26/00001"
+      prefix: string;
+    }
+
+    // AbandonedCartSettings for abandoned_cart_settings setting
+    interface AbandonedCartSettings {
+      // Hours without cart changes before a cart counts as abandoned
+      abandon_after_hours: number;
+      // Percentage off offered with the restore link, null for no coupon
+      coupon_percent: number | null;
+      coupon_valid_hours: number;
+    }
+
     type SettingValue =
       | HeroImages
       | ContactInfo
       | SocialLinks
-      | CategoryIconConfig;
+      | CategoryIconConfig
+      | ShippingRates
+      | ReturnSettings
+      | InvoiceSettings
+      | AbandonedCartSettings;
 
     // ContentBlocks types for ContentPage.content
     interface AboutValue {
@@ -166,6 +218,19 @@ declare global {
       | PrivacyPageContent
       | TermsPageContent;
 
+    // VariantOptions for ProductVariant.options, e.g. { glaze: "Celadon" }
+    type VariantOptions = Record<string, string>;
+
+    // BundleComponents for PurchasedProductItem.bundle_components, the
+    // products in one bundle when it was ordered
+    interface BundleComponent {
+      product_id: number;
+      variant_id: number | null;
+      quantity: number;
+    }
+
+    type BundleComponents = BundleComponent[];
+
     // ShippingAddress for Order.shipping_address JSON field
     interface ShippingAddress {
       name: string;